@@ -5,10 +5,17 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Info, Copy, ExternalLink, Star } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_PLAN_DAYS, WEEKDAYS } from '@/lib/plan-dates';
+import { DEFAULT_MEASUREMENT_SYSTEM, MeasurementSystem } from '@/lib/ingredient-utils';
+import { EXPIRY_SOON_DAYS } from '@/lib/pantry';
+
+const planLengthOptions = [3, 5, 7, 10, 14];
 
 interface SubscriptionStatus {
     status: 'trial' | 'active';
@@ -22,6 +29,11 @@ export const AccountView = () => {
     const { toast } = useToast();
     const [subscription, setSubscription] = useState<SubscriptionStatus | null>(null);
     const [generationDay, setGenerationDay] = useState<string>('Sunday');
+    const [planLength, setPlanLength] = useState<string>(String(DEFAULT_PLAN_DAYS));
+    const [timeZone, setTimeZone] = useState<string>('UTC');
+    const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem>(DEFAULT_MEASUREMENT_SYSTEM);
+    const [expiryAlerts, setExpiryAlerts] = useState(true);
+    const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
     const [loading, setLoading] = useState(true);
 
     const checkSubscription = useCallback(async () => {
@@ -43,12 +55,16 @@ export const AccountView = () => {
         try {
             const { data, error } = await supabase
                 .from('profiles')
-                .select('plan_generation_day')
+                .select('plan_generation_day, plan_length_days, timezone, measurement_system, expiry_alerts')
                 .eq('user_id', user.id)
                 .single();
             if (error && error.code !== 'PGRST116') throw error;
             if (data) {
                 setGenerationDay(data.plan_generation_day || 'Sunday');
+                setPlanLength(String(data.plan_length_days ?? DEFAULT_PLAN_DAYS));
+                setTimeZone(data.timezone || 'UTC');
+                setMeasurementSystem(data.measurement_system === 'metric' ? 'metric' : 'imperial');
+                setExpiryAlerts(data.expiry_alerts);
             }
         } catch (error) {
             toast({ title: "Error", description: "Could not fetch profile settings.", variant: "destructive" });
@@ -60,18 +76,53 @@ export const AccountView = () => {
         loadProfileData();
     }, [checkSubscription, loadProfileData]);
 
-    const handleDayChange = async (day: string) => {
-        if (!user) return;
+    const updatePreference = async (
+        changes: { plan_generation_day?: string; plan_length_days?: number; timezone?: string; measurement_system?: MeasurementSystem; expiry_alerts?: boolean },
+        description: string,
+    ) => {
+        if (!user) return false;
         try {
             const { error } = await supabase
                 .from('profiles')
-                .update({ plan_generation_day: day })
+                .update(changes)
                 .eq('user_id', user.id);
             if (error) throw error;
-            setGenerationDay(day);
-            toast({ title: "Success", description: "Your meal plan generation day has been updated." });
+            toast({ title: "Success", description });
+            return true;
         } catch (error) {
             toast({ title: "Error", description: "Failed to update your preference.", variant: "destructive" });
+            return false;
+        }
+    };
+
+    const handleDayChange = async (day: string) => {
+        if (await updatePreference({ plan_generation_day: day }, "Your meal plan generation day has been updated.")) {
+            setGenerationDay(day);
+        }
+    };
+
+    const handleLengthChange = async (days: string) => {
+        if (await updatePreference({ plan_length_days: Number(days) }, "Your default plan length has been updated.")) {
+            setPlanLength(days);
+        }
+    };
+
+    const applyDeviceTimeZone = async () => {
+        if (await updatePreference({ timezone: deviceTimeZone }, `Plan dates now follow ${deviceTimeZone}.`)) {
+            setTimeZone(deviceTimeZone);
+        }
+    };
+
+    const handleMeasurementChange = async (system: string) => {
+        if (await updatePreference({ measurement_system: system as MeasurementSystem }, "Your shopping list units have been updated.")) {
+            setMeasurementSystem(system as MeasurementSystem);
+        }
+    };
+
+    const handleExpiryAlertsChange = async (enabled: boolean) => {
+        const description = enabled ? "You'll be emailed when pantry items are about to expire." : "Expiry emails are turned off.";
+        if (await updatePreference({ expiry_alerts: enabled }, description)) {
+            setExpiryAlerts(enabled);
         }
     };
 
@@ -148,20 +199,75 @@ export const AccountView = () => {
                 <CardHeader>
                     <CardTitle>Weekly Meal Plan Generation</CardTitle>
                     <CardDescription>
-                        Choose which day of the week you'd like your new meal plan to be generated and emailed to you.
+                        Choose which day of the week you'd like your new meal plan to be generated and emailed to you. New plans start on this day.
                     </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
                     <Select value={generationDay} onValueChange={handleDayChange}>
                         <SelectTrigger className="w-[280px]">
                             <SelectValue placeholder="Select a day" />
                         </SelectTrigger>
                         <SelectContent>
-                            {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map(day => (
+                            {WEEKDAYS.map(day => (
                                 <SelectItem key={day} value={day}>{day}</SelectItem>
                             ))}
                         </SelectContent>
                     </Select>
+                    <Select value={planLength} onValueChange={handleLengthChange}>
+                        <SelectTrigger className="w-[280px]">
+                            <SelectValue placeholder="Plan length" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {planLengthOptions.map(days => (
+                                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                        <span className="text-muted-foreground">Time zone: <span className="font-medium text-foreground">{timeZone}</span></span>
+                        {timeZone !== deviceTimeZone && (
+                            <Button variant="outline" size="sm" onClick={applyDeviceTimeZone}>
+                                Use {deviceTimeZone}
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Measurement Units */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Measurement Units</CardTitle>
+                    <CardDescription>
+                        Amounts on your shopping list are added up across units and shown in this system.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Select value={measurementSystem} onValueChange={handleMeasurementChange}>
+                        <SelectTrigger className="w-[280px]">
+                            <SelectValue placeholder="Select units" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="imperial">Imperial (cups, oz, lb)</SelectItem>
+                            <SelectItem value="metric">Metric (ml, g, kg)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </CardContent>
+            </Card>
+
+            {/* Expiry Alerts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Expiry Alerts</CardTitle>
+                    <CardDescription>
+                        A morning email listing pantry items that expire in the next {EXPIRY_SOON_DAYS} days, with recipe ideas to use them up.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex items-center gap-3">
+                        <Switch id="expiry-alerts" checked={expiryAlerts} onCheckedChange={handleExpiryAlertsChange} />
+                        <Label htmlFor="expiry-alerts">Email me about expiring food</Label>
+                    </div>
                 </CardContent>
             </Card>
         </div>
@@ -0,0 +1,67 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, ChefHat } from "lucide-react";
+import { MealDay } from "@/types";
+import { formatPantryAmount, PantryChange } from "@/lib/pantry";
+
+interface CookedMealDialogProps {
+  mealDay: MealDay | null;
+  // What marking the meal as cooked will take out of the pantry.
+  changes: PantryChange[];
+  onConfirm: () => void;
+  onClose: () => void;
+  loading: boolean;
+}
+
+export const CookedMealDialog = ({ mealDay, changes, onConfirm, onClose, loading }: CookedMealDialogProps) => {
+  return (
+    <AlertDialog open={!!mealDay} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ChefHat className="w-5 h-5 text-primary" />
+            Cooked {mealDay?.main_dish.title}?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {changes.length > 0
+              ? "These ingredients will be taken out of your pantry. You can undo this later."
+              : "Nothing in your pantry matches this meal's ingredients, so it will stay as it is."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {changes.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {changes.map(change => (
+              <li key={change.id} className="flex justify-between gap-4">
+                <span className="font-medium">{change.ingredient_name}</span>
+                <span className="text-muted-foreground">
+                  {formatPantryAmount(change.before)} → {change.after ? formatPantryAmount(change.after) : "used up"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={loading}
+            onClick={(e) => {
+              e.preventDefault();
+              onConfirm();
+            }}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark as cooked
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
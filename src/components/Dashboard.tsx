@@ -2,17 +2,30 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { RecipeModal } from "./RecipeModal";
 import { PantryManager } from "./PantryManager";
 import { ProfileModal } from "./ProfileModal";
 import { SavedRecipes } from "./SavedRecipes";
-import { parseIngredient } from "parse-ingredient";
-import { Loader2, Download, RefreshCw, Star } from "lucide-react";
+import { ShoppingList } from "./ShoppingList";
+import { CookedMealDialog } from "./CookedMealDialog";
+import { UpgradePrompt } from "./UpgradePrompt";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Loader2, Download, RefreshCw, Star, Lock, Unlock, Shuffle, ChefHat, Undo2 } from "lucide-react";
 import { MealDay } from "@/types";
+import { compareMealEntries, MEAL_SLOT_LABELS, MealSlot } from "@/lib/meal-slots";
+import { addDays, daysBetween, DEFAULT_PLAN_DAYS, defaultPlanStart, MAX_PLAN_DAYS, MIN_PLAN_DAYS, todayIn, weekdayOf } from "@/lib/plan-dates";
+import { DEFAULT_SERVINGS, parseServings } from "@/lib/servings";
+import { DEFAULT_MEASUREMENT_SYSTEM, MeasurementSystem, planShoppingList, readShoppingList, ShoppingListEntry, ShoppingListOptions, shoppingListRow } from "@/lib/ingredient-utils";
+import { cookedPantryChanges, PantryChange, pantryIngredient, PantryLocation, PantryRow, parsePantryQuantity, restockPantry, undoPantryChanges } from "@/lib/pantry";
+import { PantryDraft } from "@/lib/pantry-import";
+import { Aisle, AISLES, orderAisles, swapAisles } from "@/lib/aisles";
 
 interface UserProfile {
   dietaryRestrictions: string[];
@@ -29,29 +42,50 @@ interface SubscriptionStatus {
     generations_remaining: number | null;
 }
 
-interface PantryItem {
-  id: string;
-  ingredient_name: string;
-  quantity: string;
-  expiry_date?: string;
-}
+type PlanRequestMode = 'full' | 'day' | 'side';
 
 interface DashboardProps {
   userProfile: UserProfile;
 }
 
+const planLengthOptions = Array.from({ length: MAX_PLAN_DAYS - MIN_PLAN_DAYS + 1 }, (_, index) => String(MIN_PLAN_DAYS + index));
+
+const SLOT_EMOJI: Record<MealSlot, string> = { breakfast: '🥞', lunch: '🥗', dinner: '🍽️', snack: '🍎' };
+
+// Identifies a planned meal; plans saved before meal slots existed are all dinners.
+const mealKey = (meal: MealDay) => `${meal.meal_date ?? meal.day}:${meal.meal_slot ?? 'dinner'}`;
+
 export const Dashboard = ({ userProfile }: DashboardProps) => {
   const { signOut, user, session } = useAuth();
   const { toast } = useToast();
   const [selectedMealDay, setSelectedMealDay] = useState<MealDay | null>(null);
+  // The meal whose "Cooked it" preview is open.
+  const [cookingMeal, setCookingMeal] = useState<MealDay | null>(null);
+  const [markingCooked, setMarkingCooked] = useState(false);
   const [weeklyPlan, setWeeklyPlan] = useState<MealDay[]>([]);
-  const [shoppingList, setShoppingList] = useState<{ category: string, items: string[] }[]>([]);
-  const [pantryItems, setPantryItems] = useState<PantryItem[]>([]);
+  // The saved list of the plan on screen: the start of its plan window and the sections last written.
+  const [savedShoppingList, setSavedShoppingList] = useState<{ id: string; start: string; sections: string } | null>(null);
+  const [pantryItems, setPantryItems] = useState<PantryRow[]>([]);
+  // Variety score (0-100) of the plan the server just generated; it isn't stored with the plan.
+  const [varietyScore, setVarietyScore] = useState<number | null>(null);
   const [shoppingListBudget, setShoppingListBudget] = useState<string | null>(null);
   const [subscription, setSubscription] = useState<SubscriptionStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [generatingPlan, setGeneratingPlan] = useState(false);
+  // The meal (see mealKey) currently being swapped by a per-meal action, if any.
+  const [swappingMeal, setSwappingMeal] = useState<string | null>(null);
+  // The next plan's first date and length; they default from the profile and can be changed per plan.
+  const [planStart, setPlanStart] = useState('');
+  const [planLength, setPlanLength] = useState(String(DEFAULT_PLAN_DAYS));
+  // "Today" in the profile's time zone, so US evenings don't count as tomorrow.
+  const [today, setToday] = useState(() => todayIn(Intl.DateTimeFormat().resolvedOptions().timeZone));
+  const [householdServings, setHouseholdServings] = useState(() => parseServings(userProfile.servingSize) ?? DEFAULT_SERVINGS);
+  const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem>(DEFAULT_MEASUREMENT_SYSTEM);
+  // Aisles the user moved ingredients to, and the order they walk the store in.
+  const [aisleOverrides, setAisleOverrides] = useState<Record<string, string>>({});
+  const [aisleOrder, setAisleOrder] = useState<Aisle[]>(AISLES);
   const [isProfileOpen, setProfileOpen] = useState(false);
+  const [isUpgradePromptOpen, setUpgradePromptOpen] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [pantryLoading, setPantryLoading] = useState(false);
 
@@ -78,8 +112,7 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
 
       if (pantryError) throw pantryError;
       if (pantryData) {
-        const itemsWithQuantity = pantryData.map(item => ({ ...item, quantity: item.quantity || '1' }));
-        setPantryItems(itemsWithQuantity);
+        setPantryItems(pantryData);
       }
     } catch (error) {
       toast({ title: "Error", description: "Failed to load pantry items.", variant: "destructive" });
@@ -95,58 +128,81 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
       await checkSubscription();
       await loadPantryData();
 
+      const { data: schedule } = await supabase
+        .from('profiles')
+        .select('plan_generation_day, plan_length_days, timezone, serving_size, measurement_system, aisle_order')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      const localToday = todayIn(schedule?.timezone);
+      setToday(localToday);
+      setPlanStart(defaultPlanStart(localToday, schedule?.plan_generation_day));
+      setPlanLength(String(schedule?.plan_length_days ?? DEFAULT_PLAN_DAYS));
+      setHouseholdServings(parseServings(schedule?.serving_size) ?? DEFAULT_SERVINGS);
+      setMeasurementSystem(schedule?.measurement_system === 'metric' ? 'metric' : 'imperial');
+      setAisleOrder(orderAisles(schedule?.aisle_order));
+
+      const { data: aisleData } = await supabase
+        .from('ingredient_aisles')
+        .select('ingredient, aisle')
+        .eq('user_id', user.id);
+      setAisleOverrides(Object.fromEntries((aisleData ?? []).map(row => [row.ingredient, row.aisle])));
+
       const { data: mealHistory, error: mealError } = await supabase
         .from('user_meal_history')
         .select(`
             meal_date,
+            meal_slot,
+            is_locked,
+            cooked_at,
             total_time_to_cook,
             cooking_tips,
-            main_dish:recipes!main_dish_recipe_id(*),
-            side_dish:recipes!side_dish_recipe_id(*)
+            main_dish:recipes!main_dish_recipe_id(*, recipe_ingredients(*), recipe_steps(*)),
+            side_dish:recipes!side_dish_recipe_id(*, recipe_ingredients(*), recipe_steps(*))
         `)
         .eq('user_id', user.id)
-        .order('meal_date', { ascending: true })
-        .limit(7);
+        .gte('meal_date', localToday)
+        .lte('meal_date', addDays(localToday, MAX_PLAN_DAYS - 1))
+        .order('meal_date', { ascending: true });
 
       if (mealError) throw mealError;
 
       if (mealHistory && mealHistory.length > 0) {
-        const daysOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
         const transformedPlan = mealHistory.map((entry: any) => ({
-            day: daysOfWeek[new Date(entry.meal_date + 'T00:00:00').getDay()],
+            day: weekdayOf(entry.meal_date),
+            meal_date: entry.meal_date,
+            meal_slot: entry.meal_slot,
+            is_locked: entry.is_locked,
+            cooked_at: entry.cooked_at,
             main_dish: entry.main_dish,
             side_dish: entry.side_dish,
             total_time_to_cook: entry.total_time_to_cook,
             cooking_tips: entry.cooking_tips,
         }));
-        setWeeklyPlan(transformedPlan);
+        setWeeklyPlan(transformedPlan.sort(compareMealEntries));
       } else {
         setWeeklyPlan([]);
       }
 
+      // The list saved for the plan window the first meal on screen falls in.
+      const firstDate = mealHistory?.[0]?.meal_date ?? localToday;
       const { data: shoppingListData, error: shoppingListError } = await supabase
           .from('shopping_lists')
-          .select('*')
+          .select('id, week_start_date, shopping_list, budget')
           .eq('user_id', user.id)
+          .lte('week_start_date', firstDate)
+          .gte('week_end_date', firstDate)
           .order('week_start_date', { ascending: false })
           .limit(1)
           .maybeSingle();
       
       if (shoppingListError) console.error("Could not load shopping list", shoppingListError.message);
 
-      if (shoppingListData && shoppingListData.shopping_list) {
-        if (Array.isArray(shoppingListData.shopping_list)) {
-          setShoppingList(shoppingListData.shopping_list as { category: string, items: string[] }[]);
-        } else if (typeof shoppingListData.shopping_list === 'object') {
-          const formattedList = Object.entries(shoppingListData.shopping_list).map(([category, items]) => ({
-            category,
-            items: items as string[]
-          }));
-          setShoppingList(formattedList);
-        }
-      } else {
-          setShoppingList([]);
-      }
+      setShoppingListBudget(shoppingListData?.budget ?? null);
+      setSavedShoppingList(shoppingListData ? {
+        id: shoppingListData.id,
+        start: shoppingListData.week_start_date,
+        sections: JSON.stringify(readShoppingList(shoppingListData.shopping_list)),
+      } : null);
     } catch (error) {
         console.error('Error loading initial data:', error);
     } finally {
@@ -160,31 +216,55 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     }
   }, [user, loadInitialData]);
 
-  const generateMealPlan = async () => {
+  const generateMealPlan = async (mode: PlanRequestMode = 'full', target?: MealDay) => {
     if (!session?.access_token || !user) {
       toast({ title: "Authentication Error", description: "You must be signed in to generate a plan.", variant: "destructive" });
       return;
     }
-    setGeneratingPlan(true);
+    if (mode === 'full') {
+      setGeneratingPlan(true);
+    } else {
+      setSwappingMeal(target ? mealKey(target) : null);
+    }
     try {
-        const pantryItemNames = pantryItems.map(item => item.ingredient_name);
+        // Use-by dates let the planner put food that is about to expire early in the plan.
+        const pantryForPlan = pantryItems.map(item => ({ name: item.ingredient_name, expiry_date: item.expiry_date }));
+        // A swap is checked against the plan on screen; a new plan uses the chosen start and length.
+        const shownStart = weeklyPlan[0]?.meal_date;
+        const shownEnd = weeklyPlan[weeklyPlan.length - 1]?.meal_date;
+        const planWindow = mode !== 'full' && shownStart && shownEnd
+            ? { startDate: shownStart, days: daysBetween(shownStart, shownEnd) + 1 }
+            : { startDate: planStart || undefined, days: Number(planLength) };
         const requestBody = {
-            userId: user.id,
-            pantryItems: pantryItemNames,
-            dietaryPreferences: userProfile.dietaryRestrictions.join(', '),
-            cookTime: userProfile.cookingTime,
+            mode,
+            targetDate: target?.meal_date,
+            targetSlot: target?.meal_slot,
+            ...planWindow,
+            // Preferences are read from the saved profile on the server.
+            pantryItems: pantryForPlan,
         };
 
         const { data, error } = await supabase.functions.invoke('generate-meal-plan', {
             body: requestBody,
         });
         
-        if (error) throw new Error(error.message);
+        if (error) {
+            // 402 means the trial quota is used up: offer an upgrade instead of an error toast.
+            if (error instanceof FunctionsHttpError && error.context.status === 402) {
+                setUpgradePromptOpen(true);
+                await checkSubscription();
+                return;
+            }
+            throw new Error(error.message);
+        }
 
         if (data.mealPlan) {
             setWeeklyPlan(data.mealPlan);
-            // The shopping list is now calculated on the client-side via useMemo
-            toast({ title: "Success!", description: "Your new meal plan is ready." });
+            setVarietyScore(data.variety?.score ?? null);
+            // A new plan is a new window; the server saved its list under the plan's first date.
+            if (mode === 'full') setSavedShoppingList(null);
+            const description = mode === 'full' ? "Your new meal plan is ready." : mode === 'day' ? "Your meal has been swapped." : "Your side dish has been swapped.";
+            toast({ title: "Success!", description });
             await checkSubscription();
         } else {
             throw new Error(data.error || "Failed to get meal plan data from server.");
@@ -194,9 +274,90 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
         toast({ title: "Error", description: errorMessage, variant: "destructive" });
     } finally {
         setGeneratingPlan(false);
+        setSwappingMeal(null);
     }
   };
-  
+
+  const toggleMealLock = async (mealDay: MealDay) => {
+    if (!user || !mealDay.meal_date) return;
+    const isLocked = !mealDay.is_locked;
+    try {
+      const { error } = await supabase
+        .from('user_meal_history')
+        .update({ is_locked: isLocked })
+        .eq('user_id', user.id)
+        .eq('meal_date', mealDay.meal_date)
+        .eq('meal_slot', mealDay.meal_slot ?? 'dinner');
+      if (error) throw error;
+      setWeeklyPlan(prev => prev.map(meal => mealKey(meal) === mealKey(mealDay) ? { ...meal, is_locked: isLocked } : meal));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update the lock on this meal.", variant: "destructive" });
+    }
+  };
+
+  const setMealCookedAt = (mealDay: MealDay, cookedAt: string | null) => {
+    const update = (meal: MealDay) => mealKey(meal) === mealKey(mealDay) ? { ...meal, cooked_at: cookedAt } : meal;
+    setWeeklyPlan(prev => prev.map(update));
+    setSelectedMealDay(prev => prev && update(prev));
+  };
+
+  // Records the meal as cooked along with what it took from the pantry, and takes it out, in one transaction.
+  const markMealCooked = async (mealDay: MealDay, changes: PantryChange[]) => {
+    if (!user || !mealDay.meal_date) return;
+    setMarkingCooked(true);
+    try {
+      const { data: cookedAt, error } = await supabase.rpc('mark_meal_cooked', {
+        meal_date_param: mealDay.meal_date,
+        meal_slot_param: mealDay.meal_slot ?? 'dinner',
+        changes,
+      });
+      if (error) throw error;
+
+      setMealCookedAt(mealDay, cookedAt);
+      setCookingMeal(null);
+      await loadPantryData();
+      toast({
+        title: "Enjoy your meal",
+        description: changes.length > 0 ? `${changes.length} pantry ${changes.length === 1 ? 'item' : 'items'} updated.` : "Your pantry didn't change.",
+      });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to mark this meal as cooked.", variant: "destructive" });
+      await loadPantryData();
+    } finally {
+      setMarkingCooked(false);
+    }
+  };
+
+  // Puts back what cooking the meal took from the pantry, unless those rows were changed again since,
+  // and clears the cooked mark in the same transaction.
+  const undoMealCooked = async (mealDay: MealDay) => {
+    if (!user || !mealDay.meal_date) return;
+    try {
+      const { data, error } = await supabase
+        .from('user_meal_history')
+        .select('pantry_changes')
+        .eq('user_id', user.id)
+        .eq('meal_date', mealDay.meal_date)
+        .eq('meal_slot', mealDay.meal_slot ?? 'dinner')
+        .maybeSingle();
+      if (error) throw error;
+
+      const rows = undoPantryChanges(pantryItems, (data?.pantry_changes ?? []) as PantryChange[]);
+      const { error: undoError } = await supabase.rpc('undo_meal_cooked', {
+        meal_date_param: mealDay.meal_date,
+        meal_slot_param: mealDay.meal_slot ?? 'dinner',
+        restored: rows as unknown as Json,
+      });
+      if (undoError) throw undoError;
+
+      setMealCookedAt(mealDay, null);
+      await loadPantryData();
+      toast({ title: "Undone", description: "The meal is no longer marked as cooked." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to undo cooking this meal.", variant: "destructive" });
+    }
+  };
+
   const downloadPDF = async (type: 'full' | 'shopping') => {
     if (!session) {
       toast({ title: "Authentication Error", description: "You must be signed in to download a PDF.", variant: "destructive" });
@@ -205,30 +366,38 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     
     setIsDownloading(true);
     try {
-      const shoppingListForPDF = Array.isArray(shoppingList) 
-        ? shoppingList 
-        : Object.entries(shoppingList).map(([category, items]) => ({ category, items: items as string[] }));
+      // The PDF prints the saved list, so make sure it is the one on screen.
+      await saveShoppingList();
 
       const sanitizedPayload = {
         type,
+        servings: householdServings,
         meals: weeklyPlan.map(meal => ({
           day: meal.day,
+          meal_slot: meal.meal_slot ?? 'dinner',
           main_dish: {
             title: meal.main_dish.title,
             ingredients: meal.main_dish.ingredients,
+            recipe_ingredients: meal.main_dish.recipe_ingredients,
             recipe: meal.main_dish.recipe,
+            recipe_steps: meal.main_dish.recipe_steps,
             calories: meal.main_dish.calories,
+            servings: meal.main_dish.servings,
           },
           side_dish: meal.side_dish ? {
             title: meal.side_dish.title,
             ingredients: meal.side_dish.ingredients,
+            recipe_ingredients: meal.side_dish.recipe_ingredients,
             recipe: meal.side_dish.recipe,
+            recipe_steps: meal.side_dish.recipe_steps,
             calories: meal.side_dish.calories,
+            servings: meal.side_dish.servings,
           } : null,
           total_time_to_cook: meal.total_time_to_cook,
           cooking_tips: meal.cooking_tips,
         })),
-        shoppingList: shoppingListForPDF,
+        planStart: shoppingListWindow?.start,
+        planEnd: shoppingListWindow?.end,
       };
 
       const { data, error } = await supabase.functions.invoke('generate-pdf', {
@@ -259,18 +428,68 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     }
   };
 
-  const addPantryItem = async (item: { name: string; quantity: string; expiry: string }) => {
+  const moveIngredientToAisle = async (ingredient: string, aisle: Aisle) => {
+    if (!user) return;
+    const previous = aisleOverrides;
+    setAisleOverrides({ ...previous, [ingredient]: aisle });
+    const { error } = await supabase
+      .from('ingredient_aisles')
+      .upsert({ user_id: user.id, ingredient, aisle, updated_at: new Date().toISOString() }, { onConflict: 'user_id,ingredient' });
+    if (error) {
+      setAisleOverrides(previous);
+      toast({ title: "Error", description: "Failed to move the ingredient.", variant: "destructive" });
+    }
+  };
+
+  const moveAisleSection = async (aisle: Aisle, other: Aisle) => {
+    if (!user) return;
+    const previous = aisleOrder;
+    const order = swapAisles(previous, aisle, other);
+    setAisleOrder(order);
+    const { error } = await supabase.from('profiles').update({ aisle_order: order }).eq('user_id', user.id);
+    if (error) {
+      setAisleOrder(previous);
+      toast({ title: "Error", description: "Failed to save your aisle order.", variant: "destructive" });
+    }
+  };
+
+  // "Done shopping": what was ticked off goes into the pantry, summed into what is already there.
+  const restockFromShoppingList = async (items: ShoppingListEntry[], setExpiry: boolean): Promise<boolean> => {
+    if (!user || items.length === 0) return false;
+    const rows = restockPantry(
+      pantryItems,
+      items,
+      { system: measurementSystem, purchasedOn: setExpiry ? today : null },
+    );
+    const { error } = await supabase
+      .from('pantry_items')
+      .upsert(rows.map(row => ({ ...row, user_id: user.id })), { defaultToNull: false });
+    if (error) {
+      toast({ title: "Error", description: "Failed to move your shopping into the pantry.", variant: "destructive" });
+      return false;
+    }
+    await loadPantryData();
+    toast({ title: "Pantry restocked", description: `${rows.length} ${rows.length === 1 ? 'item' : 'items'} added to your pantry.` });
+    return true;
+  };
+
+  const pantryInsertRow = (userId: string, item: PantryDraft) => ({
+    user_id: userId,
+    ingredient_name: item.name.trim(),
+    ingredient: pantryIngredient(item.name),
+    ...parsePantryQuantity(item.quantity),
+    location: item.location,
+    expiry_date: item.expiry || null,
+  });
+
+  const addPantryItem = async (item: PantryDraft) => {
     if (!user || !item.name.trim()) return;
     setPantryLoading(true);
     try {
-      await supabase
+      const { error } = await supabase
         .from('pantry_items')
-        .insert({
-          user_id: user.id,
-          ingredient_name: item.name.trim(),
-          quantity: item.quantity || '1',
-          expiry_date: item.expiry || null,
-        });
+        .insert(pantryInsertRow(user.id, item));
+      if (error) throw error;
       await loadPantryData();
       toast({ title: "Success", description: "Ingredient added to pantry" });
     } catch (error) {
@@ -280,14 +499,34 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     }
   };
 
-  const updatePantryItemQuantity = async (id: string, newQuantity: number) => {
-    if (newQuantity <= 0) {
+  const addPantryItems = async (items: PantryDraft[]): Promise<boolean> => {
+    if (!user || items.length === 0) return false;
+    setPantryLoading(true);
+    try {
+      const { error } = await supabase
+        .from('pantry_items')
+        .insert(items.map(item => pantryInsertRow(user.id, item)));
+      if (error) throw error;
+      await loadPantryData();
+      toast({ title: "Success", description: `${items.length} ${items.length === 1 ? 'ingredient' : 'ingredients'} added to pantry` });
+      return true;
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to add ingredients", variant: "destructive" });
+      return false;
+    } finally {
+      setPantryLoading(false);
+    }
+  };
+
+  const updatePantryItemQuantity = async (id: string, newAmount: number) => {
+    if (newAmount <= 0) {
       await removePantryItem(id);
       return;
     }
     setPantryLoading(true);
     try {
-      await supabase.from('pantry_items').update({ quantity: newQuantity.toString() }).eq('id', id);
+      const { error } = await supabase.from('pantry_items').update({ amount: newAmount }).eq('id', id);
+      if (error) throw error;
       await loadPantryData();
     } catch (error) {
       toast({ title: "Error", description: "Failed to update quantity", variant: "destructive" });
@@ -296,10 +535,21 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     }
   };
 
+  const movePantryItem = async (id: string, location: PantryLocation) => {
+    const previous = pantryItems;
+    setPantryItems(previous.map(item => item.id === id ? { ...item, location } : item));
+    const { error } = await supabase.from('pantry_items').update({ location }).eq('id', id);
+    if (error) {
+      setPantryItems(previous);
+      toast({ title: "Error", description: "Failed to move the item.", variant: "destructive" });
+    }
+  };
+
   const removePantryItem = async (id: string) => {
     setPantryLoading(true);
     try {
-      await supabase.from('pantry_items').delete().eq('id', id);
+      const { error } = await supabase.from('pantry_items').delete().eq('id', id);
+      if (error) throw error;
       await loadPantryData();
       toast({ title: "Success", description: "Ingredient removed" });
     } catch (error) {
@@ -309,57 +559,73 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
     }
   };
 
-  const adjustedShoppingList = useMemo(() => {
-    const allIngredients = weeklyPlan.flatMap(day => [
-        ...(day.main_dish?.ingredients || []),
-        ...(day.side_dish?.ingredients || []),
-    ]);
-
-    if (allIngredients.length === 0) {
-        return [];
+  // The week view shows one section per date with that day's meals in slot order.
+  const planByDay = useMemo(() => {
+    const days: { day: string; date?: string; meals: MealDay[] }[] = [];
+    for (const meal of weeklyPlan) {
+      const current = days[days.length - 1];
+      if (current && current.date === meal.meal_date && current.day === meal.day) {
+        current.meals.push(meal);
+      } else {
+        days.push({ day: meal.day, date: meal.meal_date, meals: [meal] });
+      }
     }
+    return days;
+  }, [weeklyPlan]);
+
+  // Cooking is done for the household, like shopping.
+  const cookingChanges = useMemo(() => cookingMeal
+    ? cookedPantryChanges(
+      pantryItems,
+      cookingMeal.side_dish ? [cookingMeal.main_dish, cookingMeal.side_dish] : [cookingMeal.main_dish],
+      { servings: householdServings, system: measurementSystem },
+    )
+    : [], [cookingMeal, pantryItems, householdServings, measurementSystem]);
+
+  // Recipes keep the quantities they were written for; shopping is done for the household.
+  const shoppingListOptions = useMemo<ShoppingListOptions>(() => ({
+    servings: householdServings,
+    system: measurementSystem,
+    aisles: { overrides: aisleOverrides, order: aisleOrder },
+  }), [householdServings, measurementSystem, aisleOverrides, aisleOrder]);
+
+  const adjustedShoppingList = useMemo(
+    () => planShoppingList(weeklyPlan, pantryItems, shoppingListOptions),
+    [weeklyPlan, pantryItems, shoppingListOptions],
+  );
 
-    const requiredItems = new Map<string, { quantity: number; unit: string }>();
-
-    for (const ingredientString of allIngredients) {
-        try {
-            const [parsed] = parseIngredient(ingredientString);
-            const name = parsed.ingredient.toLowerCase();
-            const quantity = parsed.quantity || 1; // Default to 1 if quantity is not parsed
-
-            if (requiredItems.has(name)) {
-                // Note: This doesn't handle unit conversion (e.g., tbsp to cup)
-                requiredItems.get(name)!.quantity += quantity;
-            } else {
-                requiredItems.set(name, { quantity, unit: parsed.unitOfMeasure || 'count' });
-            }
-        } catch (e) {
-            console.warn("Could not parse ingredient:", ingredientString);
-            // Handle un-parsable ingredients gracefully, maybe add them to a separate list
-        }
+  // The plan window the list is saved under: the saved list's window when the plan on screen falls in it.
+  const shoppingListWindow = useMemo(() => {
+    const first = weeklyPlan[0]?.meal_date;
+    const last = weeklyPlan[weeklyPlan.length - 1]?.meal_date;
+    if (!first || !last) return null;
+    return { start: savedShoppingList && savedShoppingList.start <= first ? savedShoppingList.start : first, end: last };
+  }, [weeklyPlan, savedShoppingList]);
+
+  // Saves the list on screen as the plan's list when it changes, so the PDF and the weekly email show the same one.
+  const saveShoppingList = useCallback(async () => {
+    if (!user || !shoppingListWindow) return;
+    const sections = JSON.stringify(adjustedShoppingList);
+    if (savedShoppingList?.start === shoppingListWindow.start && savedShoppingList.sections === sections) return;
+
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .upsert(
+        shoppingListRow(user.id, shoppingListWindow, adjustedShoppingList, pantryItems, shoppingListOptions),
+        { onConflict: 'user_id,week_start_date' },
+      )
+      .select('id')
+      .single();
+    if (error) {
+      console.error("Could not save shopping list", error.message);
+      return;
     }
+    setSavedShoppingList({ id: data.id, start: shoppingListWindow.start, sections });
+  }, [user, shoppingListWindow, adjustedShoppingList, savedShoppingList, pantryItems, shoppingListOptions]);
 
-    const pantryMap = new Map<string, number>();
-    pantryItems.forEach(item => {
-        pantryMap.set(item.ingredient_name.toLowerCase(), parseFloat(item.quantity) || 0);
-    });
-
-    const shoppingListItems: string[] = [];
-    requiredItems.forEach((item, name) => {
-        const needed = item.quantity;
-        const inPantry = pantryMap.get(name) || 0;
-        const toBuy = needed - inPantry;
-
-        if (toBuy > 0) {
-            shoppingListItems.push(`${toBuy} ${item.unit} ${name}`);
-        }
-    });
-    
-    // Simple categorization for display
-    const categorizedList = [{ category: "Shopping List", items: shoppingListItems }];
-
-    return categorizedList;
-  }, [weeklyPlan, pantryItems]);
+  useEffect(() => {
+    if (!loading) saveShoppingList();
+  }, [loading, saveShoppingList]);
   
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
@@ -384,16 +650,37 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
 
           <TabsContent value="meals" className="space-y-6 mt-6">
             <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold text-foreground">
-                This Week's Meal Plan
-              </h2>
+              <div className="flex items-center gap-2">
+                <h2 className="text-xl font-semibold text-foreground">
+                  Your Meal Plan
+                </h2>
+                {varietyScore !== null && weeklyPlan.length > 0 && (
+                  <Badge variant="secondary">Variety {varietyScore}/100</Badge>
+                )}
+              </div>
               <div className="flex items-center gap-3">
                 <Button onClick={() => downloadPDF('full')} disabled={isDownloading || loading || weeklyPlan.length === 0} variant="outline">
                   {isDownloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
                   Download Plan
                 </Button>
+                <Input
+                  type="date"
+                  className="w-40"
+                  aria-label="Plan start date"
+                  value={planStart}
+                  min={today}
+                  onChange={(e) => setPlanStart(e.target.value)}
+                />
+                <Select value={planLength} onValueChange={setPlanLength}>
+                  <SelectTrigger className="w-28" aria-label="Plan length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {planLengthOptions.map(days => <SelectItem key={days} value={days}>{days} days</SelectItem>)}
+                  </SelectContent>
+                </Select>
                 <div className="text-center">
-                  <Button onClick={generateMealPlan} disabled={generatingPlan}>
+                  <Button onClick={() => generateMealPlan('full')} disabled={generatingPlan || !!swappingMeal}>
                     <RefreshCw className={`w-4 h-4 mr-2 ${generatingPlan ? 'animate-spin' : ''}`} />
                     {generatingPlan ? "Generating..." : "New Plan"}
                   </Button>
@@ -411,24 +698,59 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
             ) : (
               <div className="space-y-8">
                 {weeklyPlan.length > 0 ? (
-                    weeklyPlan.map((mealDay) => (
-                      <div key={mealDay.day}>
-                        <h3 className="text-2xl font-bold text-foreground mb-4 border-b pb-2">{mealDay.day}</h3>
-                        <Card className="group cursor-pointer" onClick={() => setSelectedMealDay(mealDay)}>
-                           <div className="grid md:grid-cols-3">
-                            <div className="md:col-span-1 h-48 md:h-full bg-gradient-warm flex items-center justify-center rounded-l-lg">
-                              <span className="text-7xl opacity-70">🍽️</span>
-                            </div>
-                            <div className="md:col-span-2 p-6">
-                              <CardTitle className="group-hover:text-primary transition-colors">{mealDay.main_dish?.title}</CardTitle>
-                              {mealDay.side_dish && <CardDescription>with {mealDay.side_dish?.title}</CardDescription>}
-                              <div className="flex gap-2 mt-4">
-                                  <Badge variant="secondary">{mealDay.total_time_to_cook}</Badge>
-                                  <Badge variant="outline">🔥 {(mealDay.main_dish?.calories || 0) + (mealDay.side_dish?.calories || 0)} cal</Badge>
+                    planByDay.map(({ day, date, meals }) => (
+                      <div key={date ?? day} className="space-y-4">
+                        <h3 className="text-2xl font-bold text-foreground border-b pb-2">{day}</h3>
+                        {meals.map((mealDay) => (
+                          <Card key={mealKey(mealDay)} className="group cursor-pointer" onClick={() => setSelectedMealDay(mealDay)}>
+                             <div className="grid md:grid-cols-3">
+                              <div className="md:col-span-1 h-48 md:h-full bg-gradient-warm flex items-center justify-center rounded-l-lg">
+                                <span className="text-7xl opacity-70">{SLOT_EMOJI[mealDay.meal_slot ?? 'dinner']}</span>
+                              </div>
+                              <div className="md:col-span-2 p-6">
+                                <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">{MEAL_SLOT_LABELS[mealDay.meal_slot ?? 'dinner']}</p>
+                                <CardTitle className="group-hover:text-primary transition-colors">{mealDay.main_dish?.title}</CardTitle>
+                                {mealDay.side_dish && <CardDescription>with {mealDay.side_dish?.title}</CardDescription>}
+                                <div className="flex gap-2 mt-4">
+                                    <Badge variant="secondary">{mealDay.total_time_to_cook}</Badge>
+                                    <Badge variant="outline">🔥 {(mealDay.main_dish?.calories || 0) + (mealDay.side_dish?.calories || 0)} cal</Badge>
+                                    <Badge variant="outline">👥 Serves {householdServings}</Badge>
+                                    {mealDay.is_locked && <Badge variant="outline"><Lock className="w-3 h-3 mr-1" /> Locked</Badge>}
+                                    {mealDay.cooked_at && <Badge variant="outline"><ChefHat className="w-3 h-3 mr-1" /> Cooked</Badge>}
+                                </div>
+                                {mealDay.meal_date && (
+                                  <div className="flex flex-wrap gap-2 mt-4" onClick={(e) => e.stopPropagation()}>
+                                    <Button size="sm" variant="outline" onClick={() => generateMealPlan('day', mealDay)} disabled={generatingPlan || !!swappingMeal || !!mealDay.cooked_at}>
+                                      <RefreshCw className={`w-4 h-4 mr-2 ${swappingMeal === mealKey(mealDay) ? 'animate-spin' : ''}`} />
+                                      Swap meal
+                                    </Button>
+                                    {mealDay.side_dish && (
+                                      <Button size="sm" variant="outline" onClick={() => generateMealPlan('side', mealDay)} disabled={generatingPlan || !!swappingMeal || !!mealDay.cooked_at}>
+                                        <Shuffle className="w-4 h-4 mr-2" />
+                                        Swap side dish
+                                      </Button>
+                                    )}
+                                    <Button size="sm" variant={mealDay.is_locked ? "secondary" : "ghost"} onClick={() => toggleMealLock(mealDay)}>
+                                      {mealDay.is_locked ? <Lock className="w-4 h-4 mr-2" /> : <Unlock className="w-4 h-4 mr-2" />}
+                                      {mealDay.is_locked ? "Locked" : "Lock"}
+                                    </Button>
+                                    {mealDay.cooked_at ? (
+                                      <Button size="sm" variant="ghost" onClick={() => undoMealCooked(mealDay)}>
+                                        <Undo2 className="w-4 h-4 mr-2" />
+                                        Undo cooked
+                                      </Button>
+                                    ) : (
+                                      <Button size="sm" variant="ghost" onClick={() => setCookingMeal(mealDay)}>
+                                        <ChefHat className="w-4 h-4 mr-2" />
+                                        Cooked it
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
                               </div>
                             </div>
-                          </div>
-                        </Card>
+                          </Card>
+                        ))}
                       </div>
                     ))
                 ) : (
@@ -455,27 +777,15 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
                     </Button>
                 </CardHeader>
                 <CardContent>
-                    {loading ? <div className="text-center p-4">Loading...</div> : adjustedShoppingList.length > 0 ? (
-                        <div className="columns-2 md:columns-3 gap-8">
-                            {adjustedShoppingList.map((section) => (
-                                <div key={section.category} className="mb-4 break-inside-avoid">
-                                    <h4 className="font-semibold text-lg mb-2 text-primary">{section.category}</h4>
-                                    {section.items.length > 0 ? (
-                                      <ul className="space-y-2">
-                                          {section.items.map((item, index) => (
-                                              <li key={index} className="flex items-center gap-3 text-sm">
-                                                  <div className="w-4 h-4 border border-muted-foreground rounded-sm" />
-                                                  <span>{item.trim().replace(/^- ?/, '')}</span>
-                                              </li>
-                                          ))}
-                                      </ul>
-                                    ) : (
-                                      <p className="text-sm text-muted-foreground">No ingredients required.</p>
-                                    )}
-                                </div>
-                            ))}
-                        </div>
-                    ) : <p className="text-muted-foreground">Your shopping list is empty.</p>}
+                    <ShoppingList
+                      shoppingListId={savedShoppingList?.id ?? null}
+                      aisleOrder={aisleOrder}
+                      aisleOverrides={aisleOverrides}
+                      onMoveIngredient={moveIngredientToAisle}
+                      onMoveAisle={moveAisleSection}
+                      onDoneShopping={restockFromShoppingList}
+                      loading={loading}
+                    />
                 </CardContent>
              </Card>
           </TabsContent>
@@ -484,8 +794,12 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
             <PantryManager 
               items={pantryItems}
               onAddItem={addPantryItem}
+              onAddItems={addPantryItems}
               onUpdateItemQuantity={updatePantryItemQuantity}
+              onMoveItem={movePantryItem}
               onRemoveItem={removePantryItem}
+              aisleOverrides={aisleOverrides}
+              today={today}
               loading={pantryLoading}
             />
           </TabsContent>
@@ -497,14 +811,26 @@ export const Dashboard = ({ userProfile }: DashboardProps) => {
       </div>
       
       <ProfileModal isOpen={isProfileOpen} onClose={() => setProfileOpen(false)} />
+      <UpgradePrompt isOpen={isUpgradePromptOpen} onClose={() => setUpgradePromptOpen(false)} />
 
       {selectedMealDay && (
         <RecipeModal
           mealDay={selectedMealDay}
+          servings={householdServings}
           isOpen={!!selectedMealDay}
           onClose={() => setSelectedMealDay(null)}
+          onCookedIt={selectedMealDay.meal_date ? () => setCookingMeal(selectedMealDay) : undefined}
+          onUndoCooked={selectedMealDay.meal_date ? () => undoMealCooked(selectedMealDay) : undefined}
         />
       )}
+
+      <CookedMealDialog
+        mealDay={cookingMeal}
+        changes={cookingChanges}
+        onConfirm={() => cookingMeal && markMealCooked(cookingMeal, cookingChanges)}
+        onClose={() => setCookingMeal(null)}
+        loading={markingCooked}
+      />
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Trash2 } from "lucide-react";
+import { PANTRY_LOCATION_LABELS, PANTRY_LOCATIONS, PantryLocation } from "@/lib/pantry";
+import { PantryDraft } from "@/lib/pantry-import";
+
+// The location select's value for "wherever its aisle is usually kept".
+const AUTO_LOCATION = 'auto';
+
+interface PantryImportReviewProps {
+  drafts: PantryDraft[];
+  onChange: (drafts: PantryDraft[]) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  loading: boolean;
+}
+
+export const PantryImportReview = ({ drafts, onChange, onSave, onCancel, loading }: PantryImportReviewProps) => {
+  const updateDraft = (index: number, changes: Partial<PantryDraft>) => {
+    onChange(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const readyCount = drafts.filter(draft => draft.name.trim()).length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Check what was read before adding it. Leave the quantity blank for things you just have some of.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ingredient</TableHead>
+            <TableHead>Quantity</TableHead>
+            <TableHead>Kept in</TableHead>
+            <TableHead>Expiry</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {drafts.map((draft, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Input
+                  aria-label="Ingredient"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, { name: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  aria-label="Quantity"
+                  placeholder="On hand"
+                  value={draft.quantity}
+                  onChange={(e) => updateDraft(index, { quantity: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={draft.location ?? AUTO_LOCATION}
+                  onValueChange={(value) => updateDraft(index, { location: value === AUTO_LOCATION ? null : value as PantryLocation })}
+                >
+                  <SelectTrigger aria-label="Kept in">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_LOCATION}>Where it usually goes</SelectItem>
+                    {PANTRY_LOCATIONS.map(location => (
+                      <SelectItem key={location} value={location}>{PANTRY_LOCATION_LABELS[location]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Input
+                  aria-label="Expiry"
+                  type="date"
+                  value={draft.expiry}
+                  onChange={(e) => updateDraft(index, { expiry: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => onChange(drafts.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={onSave} disabled={loading || readyCount === 0}>
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Add {readyCount} {readyCount === 1 ? 'item' : 'items'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,103 +1,307 @@
-import { useState } from "react";
+import { useState, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Trash2, Plus, Minus } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Trash2, Plus, Minus, ArrowRightLeft, Download, Upload, ListPlus, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PantryImportReview } from "./PantryImportReview";
+import { compareExpiry, describeExpiry, expiringPantryItems, EXPIRY_SOON_DAYS, ExpiryStatus, expiryStatus, formatPantryAmount, PANTRY_LOCATION_LABELS, PANTRY_LOCATIONS, PantryLocation, pantryLocation, PantryRow, stepPantryAmount } from "@/lib/pantry";
+import { PantryDraft, parsePantryCsv, parsePantryText, pantryToCsv } from "@/lib/pantry-import";
+import { addDays } from "@/lib/plan-dates";
 
-interface PantryItem {
-  id: string;
-  ingredient_name: string;
-  quantity: string;
-  expiry_date?: string;
-}
+// The location select's value for "wherever its aisle is usually kept".
+const AUTO_LOCATION = 'auto';
+
+type PantrySort = 'name' | 'expiry';
+
+const EXPIRY_CLASSES: Record<ExpiryStatus, string> = {
+  expired: 'text-destructive font-medium',
+  soon: 'text-orange-600 font-medium',
+  fresh: 'text-muted-foreground',
+};
 
 interface PantryManagerProps {
-  items: PantryItem[];
-  onAddItem: (item: { name: string; quantity: string; expiry: string }) => Promise<void>;
-  onUpdateItemQuantity: (id: string, newQuantity: number) => Promise<void>;
+  items: PantryRow[];
+  onAddItem: (item: PantryDraft) => Promise<void>;
+  // Saves reviewed drafts from pasted text or a CSV file; resolves to whether they were saved.
+  onAddItems: (items: PantryDraft[]) => Promise<boolean>;
+  onUpdateItemQuantity: (id: string, newAmount: number) => Promise<void>;
+  onMoveItem: (id: string, location: PantryLocation) => Promise<void>;
   onRemoveItem: (id: string) => Promise<void>;
+  // The user's aisle choices, which decide where an item they haven't filed is shown.
+  aisleOverrides?: Record<string, string>;
+  // In the user's time zone; use-by dates are counted from it.
+  today: string;
   loading: boolean;
 }
 
-export const PantryManager = ({ items, onAddItem, onUpdateItemQuantity, onRemoveItem, loading }: PantryManagerProps) => {
-  const [newPantryItem, setNewPantryItem] = useState({ name: '', quantity: '', expiry: '' });
+export const PantryManager = ({ items, onAddItem, onAddItems, onUpdateItemQuantity, onMoveItem, onRemoveItem, aisleOverrides, today, loading }: PantryManagerProps) => {
+  const { toast } = useToast();
+  const [newPantryItem, setNewPantryItem] = useState({ name: '', quantity: '', location: AUTO_LOCATION, expiry: '' });
+  const [bulkMode, setBulkMode] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+  // Parsed items waiting for the user to check them; null when nothing is being reviewed.
+  const [drafts, setDrafts] = useState<PantryDraft[] | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [sortBy, setSortBy] = useState<PantrySort>('name');
 
   const handleAdd = async () => {
-    await onAddItem(newPantryItem);
-    setNewPantryItem({ name: '', quantity: '', expiry: '' });
+    const { location, ...item } = newPantryItem;
+    await onAddItem({ ...item, location: location === AUTO_LOCATION ? null : location as PantryLocation });
+    setNewPantryItem({ name: '', quantity: '', location: AUTO_LOCATION, expiry: '' });
+  };
+
+  const reviewText = () => {
+    const parsed = parsePantryText(bulkText);
+    if (parsed.length === 0) {
+      toast({ title: "Nothing to add", description: "Type or paste some ingredients first.", variant: "destructive" });
+      return;
+    }
+    setDrafts(parsed);
+  };
+
+  const importCsv = async (file: File) => {
+    try {
+      const parsed = parsePantryCsv(await file.text());
+      if (parsed.length === 0) throw new Error("The file has no pantry items in it.");
+      setDrafts(parsed);
+    } catch (error) {
+      toast({
+        title: "Could not read the file",
+        description: error instanceof Error ? error.message : "Please check it is a CSV file.",
+        variant: "destructive",
+      });
+    }
   };
 
+  const exportCsv = () => {
+    const url = window.URL.createObjectURL(new Blob([pantryToCsv(items)], { type: 'text/csv;charset=utf-8' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'pantry.csv';
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    a.remove();
+  };
+
+  const saveDrafts = async () => {
+    if (!drafts) return;
+    if (await onAddItems(drafts.filter(draft => draft.name.trim()))) {
+      setDrafts(null);
+      setBulkText('');
+      setBulkMode(false);
+    }
+  };
+
+  const itemsByLocation = useMemo(() => PANTRY_LOCATIONS
+    .map(location => ({
+      location,
+      items: items
+        .filter(item => pantryLocation(item, aisleOverrides) === location)
+        .sort((a, b) => (sortBy === 'expiry' ? compareExpiry(a, b) : 0) || a.ingredient_name.localeCompare(b.ingredient_name)),
+    }))
+    .filter(group => group.items.length > 0), [items, aisleOverrides, sortBy]);
+
+  const useSoon = useMemo(() => expiringPantryItems(items, addDays(today, EXPIRY_SOON_DAYS)), [items, today]);
+
   return (
     <Card className="w-full max-w-4xl mx-auto">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
         <CardTitle className="text-xl font-bold text-primary">
           Manage Your Pantry
         </CardTitle>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importCsv(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={loading}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportCsv} disabled={items.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Add Pantry Item</h3>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div>
-              <Label htmlFor="ingredient-name">Ingredient</Label>
-              <Input
-                id="ingredient-name"
-                placeholder="e.g., Onions"
-                value={newPantryItem.name}
-                onChange={(e) => setNewPantryItem(prev => ({ ...prev, name: e.target.value }))}
-              />
-            </div>
-            <div>
-              <Label htmlFor="quantity">Quantity (optional)</Label>
-              <Input
-                id="quantity"
-                placeholder="e.g., 2"
-                value={newPantryItem.quantity}
-                onChange={(e) => setNewPantryItem(prev => ({ ...prev, quantity: e.target.value }))}
-              />
-            </div>
-            <div>
-              <Label htmlFor="expiry">Expiry (optional)</Label>
-              <Input
-                id="expiry"
-                type="date"
-                value={newPantryItem.expiry}
-                onChange={(e) => setNewPantryItem(prev => ({ ...prev, expiry: e.target.value }))}
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">{drafts ? "Review Pantry Items" : bulkMode ? "Add Several Items" : "Add Pantry Item"}</h3>
+            {!drafts && (
+              <Button variant="ghost" size="sm" onClick={() => setBulkMode(!bulkMode)}>
+                {bulkMode ? <Plus className="w-4 h-4 mr-2" /> : <ListPlus className="w-4 h-4 mr-2" />}
+                {bulkMode ? "Add one item" : "Add several at once"}
+              </Button>
+            )}
+          </div>
+          {drafts ? (
+            <PantryImportReview
+              drafts={drafts}
+              onChange={setDrafts}
+              onSave={saveDrafts}
+              onCancel={() => setDrafts(null)}
+              loading={loading}
+            />
+          ) : bulkMode ? (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-items">Ingredients</Label>
+              <Textarea
+                id="bulk-items"
+                rows={4}
+                placeholder="e.g., 2 lbs chicken thighs, a dozen eggs, 1 bag spinach"
+                value={bulkText}
+                onChange={(e) => setBulkText(e.target.value)}
               />
+              <div className="flex justify-end">
+                <Button onClick={reviewText} disabled={loading || !bulkText.trim()}>
+                  Review items
+                </Button>
+              </div>
             </div>
-            <div className="flex items-end">
-              <Button onClick={handleAdd} disabled={loading || !newPantryItem.name.trim()}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add
-              </Button>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <Label htmlFor="ingredient-name">Ingredient</Label>
+                <Input
+                  id="ingredient-name"
+                  placeholder="e.g., Onions"
+                  value={newPantryItem.name}
+                  onChange={(e) => setNewPantryItem(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="quantity">Quantity (optional)</Label>
+                <Input
+                  id="quantity"
+                  placeholder="e.g., 2 or 500 g"
+                  value={newPantryItem.quantity}
+                  onChange={(e) => setNewPantryItem(prev => ({ ...prev, quantity: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="location">Kept in</Label>
+                <Select value={newPantryItem.location} onValueChange={(location) => setNewPantryItem(prev => ({ ...prev, location }))}>
+                  <SelectTrigger id="location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_LOCATION}>Where it usually goes</SelectItem>
+                    {PANTRY_LOCATIONS.map(location => (
+                      <SelectItem key={location} value={location}>{PANTRY_LOCATION_LABELS[location]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="expiry">Expiry (optional)</Label>
+                <Input
+                  id="expiry"
+                  type="date"
+                  value={newPantryItem.expiry}
+                  onChange={(e) => setNewPantryItem(prev => ({ ...prev, expiry: e.target.value }))}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleAdd} disabled={loading || !newPantryItem.name.trim()}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
         </div>
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Current Pantry Items</h3>
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">Current Pantry Items</h3>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as PantrySort)}>
+              <SelectTrigger className="w-[180px]" aria-label="Sort by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Sort by name</SelectItem>
+                <SelectItem value="expiry">Sort by expiry date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {useSoon.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-orange-200 bg-orange-50 text-sm">
+              <AlertTriangle className="w-4 h-4 mt-0.5 text-orange-600 shrink-0" />
+              <p>
+                <span className="font-medium">Use it up: </span>
+                {useSoon.map(item => `${item.ingredient_name} (${describeExpiry(item.expiry_date, today)?.toLowerCase()})`).join(", ")}.
+                {" "}New meal plans schedule these first.
+              </p>
+            </div>
+          )}
           {items.length === 0 ? (
             <p className="text-muted-foreground">No pantry items yet. Add some ingredients above!</p>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {items.map((item) => (
-                <div key={item.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                  <p className="font-medium">{item.ingredient_name}</p>
-                  <div className="flex items-center gap-2">
-                    <Button size="icon" variant="ghost" onClick={() => onUpdateItemQuantity(item.id, parseInt(item.quantity) - 1)}>
-                      <Minus className="w-4 h-4" />
-                    </Button>
-                    <span>{item.quantity}</span>
-                    <Button size="icon" variant="ghost" onClick={() => onUpdateItemQuantity(item.id, parseInt(item.quantity) + 1)}>
-                      <Plus className="w-4 h-4" />
-                    </Button>
-                    <Button variant="ghost" size="sm" onClick={() => onRemoveItem(item.id)} disabled={loading}>
-                      <Trash2 className="w-4 h-4 text-destructive" />
-                    </Button>
-                  </div>
+            itemsByLocation.map(({ location, items: locationItems }) => (
+              <div key={location} className="space-y-2">
+                <h4 className="font-semibold text-primary">{PANTRY_LOCATION_LABELS[location]}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {locationItems.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                      <div>
+                        <p className="font-medium">{item.ingredient_name}</p>
+                        {item.expiry_date && (
+                          <p className={`text-xs ${EXPIRY_CLASSES[expiryStatus(item.expiry_date, today)!]}`} title={`Use by ${item.expiry_date}`}>
+                            {describeExpiry(item.expiry_date, today)}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {item.amount ? (
+                          <>
+                            <Button size="icon" variant="ghost" onClick={() => onUpdateItemQuantity(item.id, stepPantryAmount(item, -1))}>
+                              <Minus className="w-4 h-4" />
+                            </Button>
+                            <span className="text-sm whitespace-nowrap">{formatPantryAmount(item)}</span>
+                            <Button size="icon" variant="ghost" onClick={() => onUpdateItemQuantity(item.id, stepPantryAmount(item, 1))}>
+                              <Plus className="w-4 h-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">{formatPantryAmount(item)}</span>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" title="Move to another place" disabled={loading}>
+                              <ArrowRightLeft className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Keep {item.ingredient_name} in</DropdownMenuLabel>
+                            <DropdownMenuRadioGroup value={location} onValueChange={(value) => onMoveItem(item.id, value as PantryLocation)}>
+                              {PANTRY_LOCATIONS.map(option => (
+                                <DropdownMenuRadioItem key={option} value={option}>{PANTRY_LOCATION_LABELS[option]}</DropdownMenuRadioItem>
+                              ))}
+                            </DropdownMenuRadioGroup>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button variant="ghost" size="sm" onClick={() => onRemoveItem(item.id)} disabled={loading}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </div>
+            ))
           )}
         </div>
       </CardContent>
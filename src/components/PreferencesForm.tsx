@@ -8,8 +8,10 @@ import { Label } from '@/components/ui/label';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Input } from '@/components/ui/input';
 import { Trash2, Plus, Loader2, Star } from 'lucide-react';
+import { MEAL_SLOT_LABELS, MEAL_SLOTS, mealSlotsFor } from '@/lib/meal-slots';
 
 const dietaryOptions = ['Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free', 'None'];
+const mealTypeOptions = MEAL_SLOTS.map(slot => MEAL_SLOT_LABELS[slot]);
 const cuisineOptions = ['Italian', 'Mexican', 'Asian', 'Mediterranean', 'American', 'Indian'];
 const timeOptions = ['15-30 minutes', '30-60 minutes', '1+ hours'];
 const skillOptions = ['Beginner', 'Intermediate', 'Advanced'];
@@ -17,11 +19,15 @@ const budgetOptions = ['Under $50', '$50-$100', '$100-$150', '$150+', 'No budget
 const equipmentOptions = ['Oven', 'Microwave', 'Air Fryer', 'Instant Pot', 'Slow Cooker'];
 const proteinOptions = ['Chicken', 'Beef', 'Pork', 'Fish', 'Tofu', 'Beans & Lentils'];
 const goalOptions = ['Weight Loss', 'Muscle Gain', 'General Wellness', 'Heart Health'];
+const lookbackOptions = [{ value: '0', label: 'Off' }, { value: '1', label: '1 week' }, { value: '2', label: '2 weeks' }, { value: '4', label: '4 weeks' }];
+const proteinRepeatOptions = ['1', '2', '3', '4'];
+const cuisineRepeatOptions = ['2', '3', '4', '7'];
 
 // --- THIS IS THE FIX ---
 // Create a local interface to match the full profiles table structure
 interface ProfileData {
     dietary_restrictions: string[];
+    meal_types: string[] | null;
     cuisine_preferences: string[];
     cooking_time: string;
     skill_level: string;
@@ -29,6 +35,9 @@ interface ProfileData {
     health_goals: string;
     kitchen_equipment: string[];
     protein_preferences: string[];
+    variety_lookback_weeks: number;
+    max_protein_repeats: number;
+    max_cuisine_repeats: number;
 }
 
 export const PreferencesForm = () => {
@@ -39,6 +48,7 @@ export const PreferencesForm = () => {
     const [subscriptionStatus, setSubscriptionStatus] = useState<'trial' | 'active' | null>(null);
 
     const [dietary, setDietary] = useState<string[]>([]);
+    const [mealTypes, setMealTypes] = useState<string[]>(['Dinner']);
     const [cuisine, setCuisine] = useState<string[]>([]);
     const [cookingTime, setCookingTime] = useState<string>('');
     const [skillLevel, setSkillLevel] = useState<string>('');
@@ -46,6 +56,9 @@ export const PreferencesForm = () => {
     const [healthGoals, setHealthGoals] = useState<string>('');
     const [kitchenEquipment, setKitchenEquipment] = useState<string[]>([]);
     const [proteinPreferences, setProteinPreferences] = useState<string[]>([]);
+    const [varietyLookbackWeeks, setVarietyLookbackWeeks] = useState<string>('2');
+    const [maxProteinRepeats, setMaxProteinRepeats] = useState<string>('2');
+    const [maxCuisineRepeats, setMaxCuisineRepeats] = useState<string>('3');
     
     const [disliked, setDisliked] = useState<{ id: string; ingredient_name: string }[]>([]);
     const [newDislikedItem, setNewDislikedItem] = useState('');
@@ -79,6 +92,8 @@ export const PreferencesForm = () => {
                     // Use the local interface for type safety
                     const typedProfile = profile as unknown as ProfileData;
                     setDietary(typedProfile.dietary_restrictions || []);
+                    // Show the meals that actually get planned, which ignores unknown values.
+                    setMealTypes(mealSlotsFor(typedProfile.meal_types).map(slot => MEAL_SLOT_LABELS[slot]));
                     setCuisine(typedProfile.cuisine_preferences || []);
                     setCookingTime(typedProfile.cooking_time || '');
                     setSkillLevel(typedProfile.skill_level || '');
@@ -86,6 +101,9 @@ export const PreferencesForm = () => {
                     setHealthGoals(typedProfile.health_goals || '');
                     setKitchenEquipment(typedProfile.kitchen_equipment || []);
                     setProteinPreferences(typedProfile.protein_preferences || []);
+                    setVarietyLookbackWeeks(String(typedProfile.variety_lookback_weeks ?? 2));
+                    setMaxProteinRepeats(String(typedProfile.max_protein_repeats ?? 2));
+                    setMaxCuisineRepeats(String(typedProfile.max_cuisine_repeats ?? 3));
                 }
 
                 const { data: dislikedItems, error: dislikedError } = await supabase
@@ -112,6 +130,7 @@ export const PreferencesForm = () => {
         try {
             const { error } = await supabase.from('profiles').update({
                 dietary_restrictions: dietary,
+                meal_types: mealTypes,
                 cuisine_preferences: cuisine,
                 cooking_time: cookingTime,
                 skill_level: skillLevel,
@@ -119,6 +138,9 @@ export const PreferencesForm = () => {
                 health_goals: healthGoals,
                 kitchen_equipment: kitchenEquipment,
                 protein_preferences: proteinPreferences,
+                variety_lookback_weeks: Number(varietyLookbackWeeks),
+                max_protein_repeats: Number(maxProteinRepeats),
+                max_cuisine_repeats: Number(maxCuisineRepeats),
                 updated_at: new Date().toISOString(),
             }).eq('user_id', user.id);
 
@@ -179,6 +201,13 @@ export const PreferencesForm = () => {
                 </ToggleGroup>
             </div>
             
+            <div className="space-y-2">
+                <Label className="text-base">Meals to Plan</Label>
+                <ToggleGroup type="multiple" value={mealTypes} onValueChange={(val) => val.length > 0 && setMealTypes(val)} className="flex-wrap justify-start">
+                    {mealTypeOptions.map(opt => <ToggleGroupItem key={opt} value={opt}>{opt}</ToggleGroupItem>)}
+                </ToggleGroup>
+            </div>
+
             <div className="space-y-2">
                 <Label className="text-base">Cuisine Preferences</Label>
                 <ToggleGroup type="multiple" value={cuisine} onValueChange={setCuisine} className="flex-wrap justify-start">
@@ -232,6 +261,33 @@ export const PreferencesForm = () => {
                 </div>
             </PremiumWrapper>
 
+            <Card>
+                <CardHeader>
+                    <CardTitle>Variety</CardTitle>
+                    <CardDescription>How much your plans should change from week to week.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                        <Label>Don't repeat dishes from the last</Label>
+                        <ToggleGroup type="single" value={varietyLookbackWeeks} onValueChange={(val) => val && setVarietyLookbackWeeks(val)} className="flex-wrap justify-start">
+                            {lookbackOptions.map(opt => <ToggleGroupItem key={opt.value} value={opt.value}>{opt.label}</ToggleGroupItem>)}
+                        </ToggleGroup>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Same main protein at most (times per week)</Label>
+                        <ToggleGroup type="single" value={maxProteinRepeats} onValueChange={(val) => val && setMaxProteinRepeats(val)} className="flex-wrap justify-start">
+                            {proteinRepeatOptions.map(opt => <ToggleGroupItem key={opt} value={opt}>{opt}</ToggleGroupItem>)}
+                        </ToggleGroup>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Same cuisine at most (times per week)</Label>
+                        <ToggleGroup type="single" value={maxCuisineRepeats} onValueChange={(val) => val && setMaxCuisineRepeats(val)} className="flex-wrap justify-start">
+                            {cuisineRepeatOptions.map(opt => <ToggleGroupItem key={opt} value={opt}>{opt === '7' ? 'No limit' : opt}</ToggleGroupItem>)}
+                        </ToggleGroup>
+                    </div>
+                </CardContent>
+            </Card>
+
             <Card>
                 <CardHeader>
                     <CardTitle>Disliked Ingredients</CardTitle>
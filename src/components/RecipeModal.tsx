@@ -3,37 +3,77 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Check, ThumbsUp, ThumbsDown } from "lucide-react";
+import { Check, ThumbsUp, ThumbsDown, Leaf, AlertTriangle, Minus, Plus, Thermometer, Timer, ChefHat, Undo2 } from "lucide-react";
 import { MealDay, Recipe } from "@/types";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
+import { checkIngredientsAgainstDiets } from "@/lib/diet-rules";
+import { MEAL_SLOT_LABELS } from "@/lib/meal-slots";
+import { DEFAULT_SERVINGS, MAX_SERVINGS, MIN_SERVINGS, scaleRecipe } from "@/lib/servings";
+import { RecipeIngredient, recipeIngredients } from "@/lib/recipe-ingredients";
+import { formatDuration, RecipeStep, recipeSteps } from "@/lib/recipe-steps";
 
 interface RecipeModalProps {
   mealDay: MealDay;
+  // The household size the recipe opens scaled to; the stepper changes it for this view only.
+  servings?: number;
   isOpen: boolean;
   onClose: () => void;
+  // Marking a planned meal as cooked (or undoing it); left out for recipes outside the plan.
+  onCookedIt?: () => void;
+  onUndoCooked?: () => void;
 }
 
 type FeedbackStatus = {
   [key: string]: { liked: boolean; disliked: boolean };
 };
 
-const formatListFromString = (listString: string | undefined): string[] => {
-  if (!listString) return [];
-  return listString.split(/\s*(?:\n|-)\s*/).filter(item => item.trim() !== '').map(item => item.trim());
-};
+// A countdown for a timed step; clicking again cancels it.
+const StepTimer = ({ minutes, label }: { minutes: number; label: string }) => {
+  const { toast } = useToast();
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [endsAt]);
+
+  const remaining = endsAt === null ? null : Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+  useEffect(() => {
+    if (remaining !== 0) return;
+    toast({ title: "Time's up", description: label });
+    setEndsAt(null);
+  }, [remaining, label, toast]);
+
+  const toggle = () => {
+    setNow(Date.now());
+    setEndsAt(endsAt === null ? Date.now() + minutes * 60_000 : null);
+  };
 
-const formatRecipeSteps = (steps: string | undefined): string[] => {
-  if (!steps) return [];
-  return steps.split(/\s*(?:\d+\.\s*)\s*/).filter(item => item.trim() !== '');
+  return (
+    <Button variant={endsAt === null ? "outline" : "secondary"} size="sm" className="h-7 px-2 text-xs" onClick={toggle}>
+      <Timer className="w-3 h-3 mr-1" />
+      {remaining === null ? formatDuration(minutes) : `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`}
+    </Button>
+  );
 };
 
-export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
+export const RecipeModal = ({ mealDay, servings: initialServings, isOpen, onClose, onCookedIt, onUndoCooked }: RecipeModalProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [feedbackStatus, setFeedbackStatus] = useState<FeedbackStatus>({});
+  const [diets, setDiets] = useState<string[]>([]);
+  const [servings, setServings] = useState(initialServings ?? mealDay.main_dish.servings ?? DEFAULT_SERVINGS);
+
+  const mainIngredients = recipeIngredients(scaleRecipe(mealDay.main_dish, servings));
+  const sideIngredients = mealDay.side_dish ? recipeIngredients(scaleRecipe(mealDay.side_dish, servings)) : [];
+  const mainSteps = recipeSteps(mealDay.main_dish);
+  const sideSteps = mealDay.side_dish ? recipeSteps(mealDay.side_dish) : [];
 
   const handleFeedback = async (recipeId: string, feedback: 'like' | 'dislike') => {
     if (!user) {
@@ -78,7 +118,7 @@ export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
     const checkFeedbackStatus = async () => {
       if (!user || !isOpen) return;
       
-      const recipeIds = [mealDay.main_dish.id, mealDay.side_dish.id];
+      const recipeIds = [mealDay.main_dish.id, mealDay.side_dish?.id].filter((id): id is string => !!id);
       
       const { data: liked } = await supabase
         .from('liked_recipes')
@@ -105,6 +145,55 @@ export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
     checkFeedbackStatus();
   }, [user, isOpen, mealDay]);
 
+  useEffect(() => {
+    const loadDiets = async () => {
+      if (!user || !isOpen) return;
+
+      const { data } = await supabase
+        .from('profiles')
+        .select('dietary_restrictions')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      setDiets((data?.dietary_restrictions || []).filter(diet => diet !== 'None'));
+    };
+
+    loadDiets();
+  }, [user, isOpen]);
+
+  const renderDietBadge = (recipe: Pick<Recipe, 'ingredients' | 'recipe_ingredients'>) => {
+    if (diets.length === 0) return null;
+    const violations = checkIngredientsAgainstDiets(recipeIngredients(recipe).map(item => item.original_text), diets);
+    if (violations.length === 0) {
+      return (
+        <Badge variant="secondary" className="mb-2">
+          <Leaf className="w-3 h-3 mr-1" /> Fits your diet
+        </Badge>
+      );
+    }
+    const terms = [...new Set(violations.map(v => v.term))];
+    return (
+      <Badge variant="destructive" className="mb-2" title={violations.map(v => `Not ${v.diet}: ${v.ingredient}`).join('\n')}>
+        <AlertTriangle className="w-3 h-3 mr-1" /> Contains {terms.join(', ')}
+      </Badge>
+    );
+  };
+
+  // Timer, temperature and the (scaled) ingredient lines a step uses.
+  const renderStepDetails = (step: RecipeStep, ingredients: RecipeIngredient[], title: string) => {
+    const used = ingredients.filter(item => step.ingredient_positions.includes(item.position));
+    if (!step.duration_minutes && !step.temperature && used.length === 0) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-2 mt-1">
+        {step.duration_minutes && <StepTimer minutes={step.duration_minutes} label={`${title}, step ${step.position + 1}`} />}
+        {step.temperature && (
+          <Badge variant="outline" className="text-xs"><Thermometer className="w-3 h-3 mr-1" />{step.temperature}°{step.temperature_unit}</Badge>
+        )}
+        {used.length > 0 && <span className="text-xs text-muted-foreground">Uses {used.map(item => item.original_text).join(', ')}</span>}
+      </div>
+    );
+  };
+
   const renderFeedbackButtons = (recipe: Recipe) => {
     const status = feedbackStatus[recipe.id] || { liked: false, disliked: false };
     return (
@@ -130,15 +219,36 @@ export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
             <DialogTitle className="text-3xl font-bold text-primary mb-1">
               {mealDay.main_dish.title}
             </DialogTitle>
-            <DialogDescription className="text-lg text-muted-foreground">
-              with {mealDay.side_dish.title}
-            </DialogDescription>
+            {mealDay.side_dish && (
+              <DialogDescription className="text-lg text-muted-foreground">
+                with {mealDay.side_dish.title}
+              </DialogDescription>
+            )}
           </DialogHeader>
 
           <div className="flex flex-wrap gap-2 mb-6">
+            {mealDay.meal_slot && <Badge>{MEAL_SLOT_LABELS[mealDay.meal_slot]}</Badge>}
             <Badge variant="secondary">⏱️ {mealDay.total_time_to_cook}</Badge>
-            <Badge variant="outline">🍽️ Serves {mealDay.main_dish.servings}</Badge>
-            <Badge variant="secondary">🔥 {mealDay.main_dish.calories + mealDay.side_dish.calories} total cal</Badge>
+            <div className="inline-flex items-center gap-1 rounded-full border px-1">
+              <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" aria-label="Fewer servings" disabled={servings <= MIN_SERVINGS} onClick={() => setServings(s => Math.max(MIN_SERVINGS, s - 1))}>
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="text-xs font-semibold">🍽️ Serves {servings}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" aria-label="More servings" disabled={servings >= MAX_SERVINGS} onClick={() => setServings(s => Math.min(MAX_SERVINGS, s + 1))}>
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+            <Badge variant="secondary">🔥 {mealDay.main_dish.calories + (mealDay.side_dish?.calories || 0)} total cal</Badge>
+            {mealDay.cooked_at && onUndoCooked && (
+              <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onUndoCooked}>
+                <Undo2 className="w-3 h-3 mr-1" /> Undo cooked
+              </Button>
+            )}
+            {!mealDay.cooked_at && onCookedIt && (
+              <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onCookedIt}>
+                <ChefHat className="w-3 h-3 mr-1" /> Cooked it
+              </Button>
+            )}
           </div>
           
           {mealDay.cooking_tips && (
@@ -156,26 +266,32 @@ export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
                   <h4 className="font-medium text-muted-foreground">{mealDay.main_dish.title}</h4>
                   {renderFeedbackButtons(mealDay.main_dish)}
                 </div>
+                {renderDietBadge(mealDay.main_dish)}
                 <ul className="space-y-2 mb-4">
-                  {formatListFromString(mealDay.main_dish.ingredients).map((item, index) => (
-                    <li key={`main-ing-${index}`} className="flex gap-2 items-start text-sm">
+                  {mainIngredients.map((item) => (
+                    <li key={`main-ing-${item.position}`} className={`flex gap-2 items-start text-sm ${item.is_optional ? 'text-muted-foreground' : ''}`}>
                       <Check className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
-                      <span>{item}</span>
-                    </li>
-                  ))}
-                </ul>
-                <div className="flex justify-between items-center mb-2">
-                  <h4 className="font-medium text-muted-foreground">{mealDay.side_dish.title}</h4>
-                  {renderFeedbackButtons(mealDay.side_dish)}
-                </div>
-                <ul className="space-y-2">
-                  {formatListFromString(mealDay.side_dish.ingredients).map((item, index) => (
-                    <li key={`side-ing-${index}`} className="flex gap-2 items-start text-sm">
-                      <Check className="w-4 h-4 text-secondary mt-0.5 flex-shrink-0" />
-                      <span>{item}</span>
+                      <span>{item.original_text}</span>
                     </li>
                   ))}
                 </ul>
+                {mealDay.side_dish && (
+                  <>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="font-medium text-muted-foreground">{mealDay.side_dish.title}</h4>
+                      {renderFeedbackButtons(mealDay.side_dish)}
+                    </div>
+                    {renderDietBadge(mealDay.side_dish)}
+                    <ul className="space-y-2">
+                      {sideIngredients.map((item) => (
+                        <li key={`side-ing-${item.position}`} className={`flex gap-2 items-start text-sm ${item.is_optional ? 'text-muted-foreground' : ''}`}>
+                          <Check className="w-4 h-4 text-secondary mt-0.5 flex-shrink-0" />
+                          <span>{item.original_text}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
               </div>
             </div>
 
@@ -184,32 +300,42 @@ export const RecipeModal = ({ mealDay, isOpen, onClose }: RecipeModalProps) => {
                 <h3 className="text-lg font-semibold mb-3 text-card-foreground">Instructions</h3>
                 <h4 className="font-medium mb-3 text-muted-foreground">{mealDay.main_dish.title}</h4>
                 <ol className="space-y-3">
-                  {formatRecipeSteps(mealDay.main_dish.recipe).map((step, index) => (
-                    <li key={`main-step-${index}`} className="flex gap-3 items-start">
+                  {mainSteps.map((step, index) => (
+                    <li key={`main-step-${step.position}`} className="flex gap-3 items-start">
                       <div className="w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0 mt-1">
                         {index + 1}
                       </div>
-                      <span className="text-sm text-card-foreground leading-relaxed">{step}</span>
+                      <div>
+                        <span className="text-sm text-card-foreground leading-relaxed">{step.instruction}</span>
+                        {renderStepDetails(step, mainIngredients, mealDay.main_dish.title)}
+                      </div>
                     </li>
                   ))}
                 </ol>
               </div>
 
-              <Separator />
+              {mealDay.side_dish && (
+                <>
+                  <Separator />
 
-              <div>
-                <h4 className="font-medium mb-3 text-muted-foreground">{mealDay.side_dish.title}</h4>
-                <ol className="space-y-3">
-                  {formatRecipeSteps(mealDay.side_dish.recipe).map((step, index) => (
-                    <li key={`side-step-${index}`} className="flex gap-3 items-start">
-                      <div className="w-6 h-6 bg-secondary text-secondary-foreground rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0 mt-1">
-                        {index + 1}
-                      </div>
-                      <span className="text-sm text-card-foreground leading-relaxed">{step}</span>
-                    </li>
-                  ))}
-                </ol>
-              </div>
+                  <div>
+                    <h4 className="font-medium mb-3 text-muted-foreground">{mealDay.side_dish.title}</h4>
+                    <ol className="space-y-3">
+                      {sideSteps.map((step, index) => (
+                        <li key={`side-step-${step.position}`} className="flex gap-3 items-start">
+                          <div className="w-6 h-6 bg-secondary text-secondary-foreground rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0 mt-1">
+                            {index + 1}
+                          </div>
+                          <div>
+                            <span className="text-sm text-card-foreground leading-relaxed">{step.instruction}</span>
+                            {renderStepDetails(step, sideIngredients, mealDay.side_dish.title)}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </ScrollArea>
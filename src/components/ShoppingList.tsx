@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { ChevronUp, ChevronDown, ArrowRightLeft, Pencil, Trash2, Plus, ShoppingBasket, Loader2 } from "lucide-react";
+import { groupShoppingListItems, ShoppingListEntry } from "@/lib/ingredient-utils";
+import { Aisle, AISLES, categorizeIngredient } from "@/lib/aisles";
+
+interface ShoppingListProps {
+  // The shopping_lists row the items belong to; null until the plan's list is saved.
+  shoppingListId: string | null;
+  aisleOrder: Aisle[];
+  aisleOverrides: Record<string, string>;
+  onMoveIngredient: (ingredient: string, aisle: Aisle) => Promise<void>;
+  onMoveAisle: (aisle: Aisle, other: Aisle) => Promise<void>;
+  // Puts the ticked lines in the pantry; resolves to whether it worked.
+  onDoneShopping: (items: ShoppingListEntry[], setExpiry: boolean) => Promise<boolean>;
+  loading: boolean;
+}
+
+const ITEM_COLUMNS = 'id, ingredient, text, category, is_checked, is_edited, is_removed';
+
+/**
+ * The plan's shopping list as rows that can be ticked off, edited, deleted and
+ * added to. Changes are saved straight away and arrive over Realtime from anyone
+ * else shopping from the same list. "Done shopping" moves the ticked lines into
+ * the pantry.
+ */
+export const ShoppingList = ({ shoppingListId, aisleOrder, aisleOverrides, onMoveIngredient, onMoveAisle, onDoneShopping, loading }: ShoppingListProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<ShoppingListEntry[]>([]);
+  const [itemsLoading, setItemsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [newItem, setNewItem] = useState('');
+  const [setExpiry, setSetExpiry] = useState(true);
+  const [restocking, setRestocking] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    if (!shoppingListId) return;
+    try {
+      const { data, error } = await supabase
+        .from('shopping_list_items')
+        .select(ITEM_COLUMNS)
+        .eq('shopping_list_id', shoppingListId)
+        .order('created_at');
+
+      if (error) throw error;
+      setItems(data);
+    } catch (error) {
+      console.error('Error fetching shopping list items:', error);
+    } finally {
+      setItemsLoading(false);
+    }
+  }, [shoppingListId]);
+
+  useEffect(() => {
+    if (!shoppingListId) {
+      setItems([]);
+      setItemsLoading(false);
+      return;
+    }
+
+    setItemsLoading(true);
+    fetchItems();
+
+    const channel: RealtimeChannel = supabase
+      .channel(`shopping_list_items_changes_${shoppingListId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'shopping_list_items', filter: `shopping_list_id=eq.${shoppingListId}` },
+        (payload) => {
+          // Saving the list touches many rows at once, so apply each change rather than refetching.
+          if (payload.eventType === 'DELETE') {
+            setItems(prev => prev.filter(item => item.id !== payload.old.id));
+            return;
+          }
+          const row = payload.new as ShoppingListEntry;
+          setItems(prev => prev.some(item => item.id === row.id)
+            ? prev.map(item => item.id === row.id ? row : item)
+            : [...prev, row]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shoppingListId, fetchItems]);
+
+  const sections = useMemo(() => groupShoppingListItems(items, aisleOrder), [items, aisleOrder]);
+  const checkedItems = useMemo(() => items.filter(item => item.is_checked && !item.is_removed), [items]);
+
+  // Shows the change at once; puts the list back as it is saved if the change fails.
+  const updateItem = async (id: string, changes: Partial<Omit<ShoppingListEntry, 'id'>>, failure: string) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    const { error } = await supabase
+      .from('shopping_list_items')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) {
+      toast({ title: "Error", description: failure, variant: "destructive" });
+      fetchItems();
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const text = editing.text.trim();
+    const item = items.find(entry => entry.id === editing.id);
+    setEditing(null);
+    if (!item || !text || text === item.text) return;
+    await updateItem(item.id, { text, is_edited: item.ingredient !== null }, "Failed to update the item.");
+  };
+
+  // Lines from the plan are hidden so they don't come back with the next change to the plan; the user's own are deleted.
+  const removeItem = async (item: ShoppingListEntry) => {
+    if (item.ingredient !== null) {
+      await updateItem(item.id, { is_removed: true }, "Failed to remove the item.");
+      return;
+    }
+    setItems(prev => prev.filter(entry => entry.id !== item.id));
+    const { error } = await supabase.from('shopping_list_items').delete().eq('id', item.id);
+    if (error) {
+      toast({ title: "Error", description: "Failed to remove the item.", variant: "destructive" });
+      fetchItems();
+    }
+  };
+
+  const addItem = async () => {
+    const text = newItem.trim();
+    if (!user || !shoppingListId || !text) return;
+    const { data, error } = await supabase
+      .from('shopping_list_items')
+      .insert({ shopping_list_id: shoppingListId, user_id: user.id, text, category: categorizeIngredient(text, aisleOverrides) })
+      .select(ITEM_COLUMNS)
+      .single();
+    if (error) {
+      toast({ title: "Error", description: "Failed to add the item.", variant: "destructive" });
+      return;
+    }
+    setItems(prev => prev.some(item => item.id === data.id) ? prev : [...prev, data]);
+    setNewItem('');
+  };
+
+  // Plan lines move by the user's aisle choice for the ingredient, so it sticks on later lists too.
+  const moveItem = async (item: ShoppingListEntry, aisle: Aisle) => {
+    if (item.ingredient !== null) {
+      await onMoveIngredient(item.ingredient, aisle);
+      return;
+    }
+    await updateItem(item.id, { category: aisle }, "Failed to move the item.");
+  };
+
+  // Once the ticked lines are in the pantry the user's own are done with; lines from the
+  // plan drop off when the list is next worked out against the restocked pantry.
+  const finishShopping = async () => {
+    setRestocking(true);
+    try {
+      if (!await onDoneShopping(checkedItems, setExpiry)) return;
+      const manualIds = checkedItems.filter(item => item.ingredient === null).map(item => item.id);
+      const planIds = checkedItems.filter(item => item.ingredient !== null).map(item => item.id);
+      setItems(prev => prev
+        .filter(item => !manualIds.includes(item.id))
+        .map(item => planIds.includes(item.id) ? { ...item, is_checked: false } : item));
+      const [{ error: deleteError }, { error: updateError }] = await Promise.all([
+        supabase.from('shopping_list_items').delete().in('id', manualIds),
+        supabase.from('shopping_list_items').update({ is_checked: false, updated_at: new Date().toISOString() }).in('id', planIds),
+      ]);
+      if (deleteError || updateError) fetchItems();
+    } finally {
+      setRestocking(false);
+    }
+  };
+
+  if (loading || itemsLoading) {
+    return <div className="text-center p-4">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {shoppingListId && (
+        <form
+          className="flex gap-2 max-w-md"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addItem();
+          }}
+        >
+          <Input
+            placeholder="Add an item, e.g. paper towels"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!newItem.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      )}
+      {checkedItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-4">
+          <Button onClick={finishShopping} disabled={restocking}>
+            {restocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingBasket className="w-4 h-4 mr-2" />}
+            Done shopping ({checkedItems.length})
+          </Button>
+          <div className="flex items-center gap-2">
+            <Checkbox id="set-expiry" checked={setExpiry} onCheckedChange={(checked) => setSetExpiry(checked === true)} />
+            <Label htmlFor="set-expiry" className="text-sm font-normal">Set expiry dates for fresh food</Label>
+          </div>
+        </div>
+      )}
+      {sections.length > 0 ? (
+        <div className="columns-2 md:columns-3 gap-8">
+          {sections.map((section, sectionIndex) => (
+            <div key={section.category} className="mb-4 break-inside-avoid">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-lg text-primary">{section.category}</h4>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="Earlier in the store" disabled={sectionIndex === 0} onClick={() => onMoveAisle(section.category as Aisle, sections[sectionIndex - 1].category as Aisle)}>
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="Later in the store" disabled={sectionIndex === sections.length - 1} onClick={() => onMoveAisle(section.category as Aisle, sections[sectionIndex + 1].category as Aisle)}>
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <ul className="space-y-2">
+                {section.items.map(item => (
+                  <li key={item.id} className="group flex items-center gap-3 text-sm">
+                    <Checkbox
+                      checked={item.is_checked}
+                      onCheckedChange={(checked) => updateItem(item.id, { is_checked: checked === true }, "Failed to update the item.")}
+                      aria-label={`Got ${item.text}`}
+                    />
+                    {editing?.id === item.id ? (
+                      <Input
+                        className="h-7 flex-1"
+                        value={editing.text}
+                        autoFocus
+                        onChange={(e) => setEditing({ id: item.id, text: e.target.value })}
+                        onBlur={saveEdit}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveEdit();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                      />
+                    ) : (
+                      <span className={`flex-1 ${item.is_checked ? 'line-through text-muted-foreground' : ''}`}>{item.text}</span>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100" title="Edit" onClick={() => setEditing({ id: item.id, text: item.text })}>
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100" title="Move to another aisle">
+                          <ArrowRightLeft className="w-3 h-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Move {item.ingredient ?? item.text} to</DropdownMenuLabel>
+                        <DropdownMenuRadioGroup value={section.category} onValueChange={(aisle) => moveItem(item, aisle as Aisle)}>
+                          {AISLES.map(aisle => <DropdownMenuRadioItem key={aisle} value={aisle}>{aisle}</DropdownMenuRadioItem>)}
+                        </DropdownMenuRadioGroup>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100" title="Remove" onClick={() => removeItem(item)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : <p className="text-muted-foreground">Your shopping list is empty.</p>}
+    </div>
+  );
+};
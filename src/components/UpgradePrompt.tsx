@@ -0,0 +1,67 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Star } from "lucide-react";
+
+interface UpgradePromptProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const UpgradePrompt = ({ isOpen, onClose }: UpgradePromptProps) => {
+  const { toast } = useToast();
+  const [redirecting, setRedirecting] = useState(false);
+
+  const startCheckout = async () => {
+    setRedirecting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-checkout', {
+        body: { planType: 'weekly' },
+      });
+      if (error) throw error;
+      window.location.href = data.url;
+    } catch (error) {
+      toast({ title: "Error", description: "Could not start checkout. Please try again.", variant: "destructive" });
+      setRedirecting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Star className="w-5 h-5 text-yellow-500" />
+            You're out of trial generations
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Your trial includes a limited number of meal plan generations. Upgrade to a Pro plan to keep generating new plans every week.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={redirecting}>Not now</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={redirecting}
+            onClick={(e) => {
+              e.preventDefault();
+              startCheckout();
+            }}
+          >
+            {redirecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Upgrade
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -64,6 +64,30 @@ export type Database = {
           },
         ]
       }
+      ingredient_aisles: {
+        Row: {
+          aisle: string
+          id: string
+          ingredient: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aisle: string
+          id?: string
+          ingredient: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aisle?: string
+          id?: string
+          ingredient?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       liked_recipes: {
         Row: {
           created_at: string | null
@@ -95,33 +119,43 @@ export type Database = {
       }
       pantry_items: {
         Row: {
+          amount: number | null
           created_at: string
           expiry_date: string | null
           id: string
+          ingredient: string
           ingredient_name: string
-          quantity: string | null
+          location: string | null
+          unit: string | null
           user_id: string | null
         }
         Insert: {
+          amount?: number | null
           created_at?: string
           expiry_date?: string | null
           id?: string
+          ingredient: string
           ingredient_name: string
-          quantity?: string | null
+          location?: string | null
+          unit?: string | null
           user_id?: string | null
         }
         Update: {
+          amount?: number | null
           created_at?: string
           expiry_date?: string | null
           id?: string
+          ingredient?: string
           ingredient_name?: string
-          quantity?: string | null
+          location?: string | null
+          unit?: string | null
           user_id?: string | null
         }
         Relationships: []
       }
       profiles: {
         Row: {
+          aisle_order: string[]
           budget: string | null
           can_comment: boolean | null
           cooking_time: string | null
@@ -129,22 +163,31 @@ export type Database = {
           cuisine_preferences: string[] | null
           dietary_restrictions: string[] | null
           display_name: string | null
+          expiry_alerts: boolean
           generations_remaining: number | null
+          generations_reserved: number
           health_goals: string | null
           id: string
           kitchen_equipment: string[] | null
+          max_cuisine_repeats: number
+          max_protein_repeats: number
+          measurement_system: string
           meal_types: string[] | null
           plan_addons: string[] | null
           plan_generation_day: string | null
+          plan_length_days: number
           protein_preferences: string[] | null
           serving_size: string | null
           skill_level: string | null
           subscription_status: string | null
           subscription_type: string | null
+          timezone: string
           updated_at: string
           user_id: string
+          variety_lookback_weeks: number
         }
         Insert: {
+          aisle_order?: string[]
           budget?: string | null
           can_comment?: boolean | null
           cooking_time?: string | null
@@ -152,22 +195,31 @@ export type Database = {
           cuisine_preferences?: string[] | null
           dietary_restrictions?: string[] | null
           display_name?: string | null
+          expiry_alerts?: boolean
           generations_remaining?: number | null
+          generations_reserved?: number
           health_goals?: string | null
           id?: string
           kitchen_equipment?: string[] | null
+          max_cuisine_repeats?: number
+          max_protein_repeats?: number
+          measurement_system?: string
           meal_types?: string[] | null
           plan_addons?: string[] | null
           plan_generation_day?: string | null
+          plan_length_days?: number
           protein_preferences?: string[] | null
           serving_size?: string | null
           skill_level?: string | null
           subscription_status?: string | null
           subscription_type?: string | null
+          timezone?: string
           updated_at?: string
           user_id: string
+          variety_lookback_weeks?: number
         }
         Update: {
+          aisle_order?: string[]
           budget?: string | null
           can_comment?: boolean | null
           cooking_time?: string | null
@@ -175,118 +227,294 @@ export type Database = {
           cuisine_preferences?: string[] | null
           dietary_restrictions?: string[] | null
           display_name?: string | null
+          expiry_alerts?: boolean
           generations_remaining?: number | null
+          generations_reserved?: number
           health_goals?: string | null
           id?: string
           kitchen_equipment?: string[] | null
+          max_cuisine_repeats?: number
+          max_protein_repeats?: number
+          measurement_system?: string
           meal_types?: string[] | null
           plan_addons?: string[] | null
           plan_generation_day?: string | null
+          plan_length_days?: number
           protein_preferences?: string[] | null
           serving_size?: string | null
           skill_level?: string | null
           subscription_status?: string | null
           subscription_type?: string | null
+          timezone?: string
           updated_at?: string
           user_id?: string
+          variety_lookback_weeks?: number
         }
         Relationships: []
       }
+      recipe_ingredients: {
+        Row: {
+          id: string
+          ingredient: string
+          is_optional: boolean
+          original_text: string
+          position: number
+          preparation: string | null
+          quantity: number | null
+          recipe_id: string
+          unit: string | null
+        }
+        Insert: {
+          id?: string
+          ingredient: string
+          is_optional?: boolean
+          original_text: string
+          position: number
+          preparation?: string | null
+          quantity?: number | null
+          recipe_id: string
+          unit?: string | null
+        }
+        Update: {
+          id?: string
+          ingredient?: string
+          is_optional?: boolean
+          original_text?: string
+          position?: number
+          preparation?: string | null
+          quantity?: number | null
+          recipe_id?: string
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ingredients_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_steps: {
+        Row: {
+          duration_minutes: number | null
+          id: string
+          ingredient_positions: number[]
+          instruction: string
+          position: number
+          recipe_id: string
+          temperature: number | null
+          temperature_unit: string | null
+        }
+        Insert: {
+          duration_minutes?: number | null
+          id?: string
+          ingredient_positions?: number[]
+          instruction: string
+          position: number
+          recipe_id: string
+          temperature?: number | null
+          temperature_unit?: string | null
+        }
+        Update: {
+          duration_minutes?: number | null
+          id?: string
+          ingredient_positions?: number[]
+          instruction?: string
+          position?: number
+          recipe_id?: string
+          temperature?: number | null
+          temperature_unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_steps_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipes: {
         Row: {
           calories: number | null
           created_at: string
           created_by_user: string | null
+          cuisine: string | null
           description: string | null
           embedding: string | null
           id: string
           ingredients: string
+          normalized_title: string | null
           recipe: string
-          servings: number | null
+          servings: number
           title: string
         }
         Insert: {
           calories?: number | null
           created_at?: string
           created_by_user?: string | null
+          cuisine?: string | null
           description?: string | null
           embedding?: string | null
           id?: string
           ingredients: string
+          normalized_title?: string | null
           recipe: string
-          servings?: number | null
+          servings?: number
           title: string
         }
         Update: {
           calories?: number | null
           created_at?: string
           created_by_user?: string | null
+          cuisine?: string | null
           description?: string | null
           embedding?: string | null
           id?: string
           ingredients?: string
+          normalized_title?: string | null
           recipe?: string
-          servings?: number | null
+          servings?: number
           title?: string
         }
         Relationships: []
       }
+      shopping_list_items: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          ingredient: string | null
+          is_checked: boolean
+          is_edited: boolean
+          is_removed: boolean
+          shopping_list_id: string
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          id?: string
+          ingredient?: string | null
+          is_checked?: boolean
+          is_edited?: boolean
+          is_removed?: boolean
+          shopping_list_id: string
+          text: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          ingredient?: string | null
+          is_checked?: boolean
+          is_edited?: boolean
+          is_removed?: boolean
+          shopping_list_id?: string
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_shopping_list_id_fkey"
+            columns: ["shopping_list_id"]
+            isOneToOne: false
+            referencedRelation: "shopping_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shopping_lists: {
         Row: {
           budget: string | null
           created_at: string
           id: string
+          measurement_system: string | null
+          pantry_snapshot: Json
+          servings: number | null
           shopping_list: Json | null
+          updated_at: string
           user_id: string
+          week_end_date: string
           week_start_date: string
         }
         Insert: {
           budget?: string | null
           created_at?: string
           id?: string
+          measurement_system?: string | null
+          pantry_snapshot?: Json
+          servings?: number | null
           shopping_list?: Json | null
+          updated_at?: string
           user_id: string
+          week_end_date: string
           week_start_date: string
         }
         Update: {
           budget?: string | null
           created_at?: string
           id?: string
+          measurement_system?: string | null
+          pantry_snapshot?: Json
+          servings?: number | null
           shopping_list?: Json | null
+          updated_at?: string
           user_id?: string
+          week_end_date?: string
           week_start_date?: string
         }
         Relationships: []
       }
       user_meal_history: {
         Row: {
+          cooked_at: string | null
           cooking_tips: string | null
           created_at: string
           id: string
+          is_locked: boolean
           main_dish_recipe_id: string
           meal_date: string
+          meal_slot: string
+          pantry_changes: Json | null
           rating: number | null
           side_dish_recipe_id: string | null
           total_time_to_cook: string | null
           user_id: string
         }
         Insert: {
+          cooked_at?: string | null
           cooking_tips?: string | null
           created_at?: string
           id?: string
+          is_locked?: boolean
           main_dish_recipe_id: string
           meal_date: string
+          meal_slot?: string
+          pantry_changes?: Json | null
           rating?: number | null
           side_dish_recipe_id?: string | null
           total_time_to_cook?: string | null
           user_id: string
         }
         Update: {
+          cooked_at?: string | null
           cooking_tips?: string | null
           created_at?: string
           id?: string
+          is_locked?: boolean
           main_dish_recipe_id?: string
           meal_date?: string
+          meal_slot?: string
+          pantry_changes?: Json | null
           rating?: number | null
           side_dish_recipe_id?: string | null
           total_time_to_cook?: string | null
@@ -374,6 +602,10 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      mark_meal_cooked: {
+        Args: { meal_date_param: string; meal_slot_param: string; changes: Json }
+        Returns: string
+      }
       match_recipe: {
         Args: {
           query_embedding: string
@@ -386,6 +618,84 @@ export type Database = {
           similarity: number
         }[]
       }
+      match_plan_recipes: {
+        Args: {
+          user_id_param: string
+          query_embedding: string
+          dish_role: string
+          match_count: number
+          exclude_ids?: string[]
+          meal_slot_param?: string
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          ingredients: string
+          recipe: string
+          calories: number
+          cuisine: string
+          servings: number
+          total_time_to_cook: string
+          cooking_tips: string
+          score: number
+        }[]
+      }
+      merge_recipes: {
+        Args: { keep_id: string; duplicate_ids: string[] }
+        Returns: undefined
+      }
+      pantry_ingredient_name: {
+        Args: { name: string }
+        Returns: string
+      }
+      parse_pantry_quantity: {
+        Args: { quantity: string }
+        Returns: {
+          amount: number
+          unit: string
+        }[]
+      }
+      parse_recipe_ingredients: {
+        Args: { recipe_id_param: string }
+        Returns: undefined
+      }
+      recipe_duplicate_candidates: {
+        Args: { match_threshold: number; per_recipe?: number }
+        Returns: {
+          recipe_id: string
+          candidate_id: string
+          similarity: number
+        }[]
+      }
+      recipe_json: {
+        Args: { recipe_id_param: string }
+        Returns: Json
+      }
+      refund_generation: {
+        Args: { user_id_param: string; amount?: number }
+        Returns: undefined
+      }
+      reserve_generation: {
+        Args: { user_id_param: string; amount?: number }
+        Returns: Json
+      }
+      save_meal_plan: {
+        Args: {
+          user_id_param: string
+          plan: Json
+          generations_to_charge?: number
+        }
+        Returns: Json
+      }
+      shopping_list_lines: {
+        Args: { list: Json }
+        Returns: {
+          ingredient: string
+          category: string
+          text: string
+        }[]
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -398,6 +708,14 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      undo_meal_cooked: {
+        Args: { meal_date_param: string; meal_slot_param: string; restored: Json }
+        Returns: undefined
+      }
+      upsert_plan_recipe: {
+        Args: { user_id_param: string; dish: Json }
+        Returns: string
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -0,0 +1,2 @@
+// The rules live next to the edge functions so generate-meal-plan and the app agree on what fits a diet.
+export * from "../../supabase/functions/_shared/diet-rules.ts";
@@ -0,0 +1,188 @@
+// Bulk pantry entry for the pantry tab: pasted shopping-style text is read with
+// parse-ingredient, and the whole pantry goes out to and comes back from CSV so
+// it can be moved to and from spreadsheets and other apps. Both produce drafts
+// the user reviews before anything is saved. Only the web app needs this, so it
+// lives here rather than in supabase/functions/_shared.
+import { parseIngredient } from "parse-ingredient";
+import { canonicalUnit } from "@/lib/recipe-ingredients";
+import { isPantryLocation, PantryAmount, PantryLocation, PantryRow } from "@/lib/pantry";
+
+/** One pantry item waiting to be saved, in the same shape as the single-item form. */
+export interface PantryDraft {
+  name: string;
+  // As typed: "500 g", "1 1/2 cup", or empty when the user only has some.
+  quantity: string;
+  location: PantryLocation | null;
+  expiry: string;
+}
+
+// Containers parse-ingredient knows that recipes call a package.
+const PACKAGE_UNITS = new Set(['bag', 'box', 'carton', 'container', 'pack', 'package']);
+
+// Counted in ones once parsed ("a dozen eggs" is 12 eggs). Size words such as
+// "large" and units the pantry doesn't track ("1 stick butter") are dropped too.
+const COUNT_UNITS: Record<string, number> = { dozen: 12, piece: 1 };
+
+const CSV_COLUMNS = ['name', 'amount', 'unit', 'location', 'expiry_date'] as const;
+
+// Header spellings accepted on import, mapped to the column they fill.
+const CSV_HEADERS: Record<string, keyof PantryDraft | 'amount' | 'unit'> = {
+  name: 'name', ingredient: 'name', ingredient_name: 'name', item: 'name', product: 'name',
+  quantity: 'quantity', qty: 'quantity',
+  amount: 'amount', unit: 'unit', units: 'unit', uom: 'unit',
+  location: 'location', stored: 'location', storage: 'location', where: 'location',
+  expiry: 'expiry', expiry_date: 'expiry', expires: 'expiry', expiration: 'expiry', expiration_date: 'expiry',
+  best_before: 'expiry', use_by: 'expiry',
+};
+
+/** "2" or "1.5 cup" for an amount; empty when there is none. */
+export function pantryQuantityText({ amount, unit }: PantryAmount): string {
+  if (!amount) return '';
+  const value = String(Math.round(amount * 100) / 100);
+  return unit ? `${value} ${unit}` : value;
+}
+
+/**
+ * Splits pasted text such as "2 lbs chicken thighs, a dozen eggs, 1 bag spinach"
+ * into drafts. Items may be separated by commas, semicolons or new lines; a
+ * leading "a" or "an" counts as one.
+ */
+export function parsePantryText(text: string): PantryDraft[] {
+  const lines = text
+    .split(/[\n,;]+/)
+    .map((line) => line.trim().replace(/^[-*•]\s*/, '').replace(/^an?\s+/i, '1 '))
+    .filter(Boolean);
+  if (lines.length === 0) return [];
+
+  return parseIngredient(lines.join('\n'), {
+    additionalUOMs: { dozen: { short: 'doz', plural: 'dozen', alternates: ['dozen', 'doz.'] } },
+  })
+    .filter((line) => !line.isGroupHeader && line.description.trim())
+    .map((line) => {
+      const id = line.unitOfMeasureID;
+      let amount = line.quantity;
+      let unit: string | null = null;
+      if (id && id in COUNT_UNITS) amount = amount === null ? null : amount * COUNT_UNITS[id];
+      else if (id && PACKAGE_UNITS.has(id)) unit = 'package';
+      else if (id) unit = canonicalUnit(id) ?? canonicalUnit(line.unitOfMeasure);
+
+      return {
+        name: line.description.trim(),
+        quantity: pantryQuantityText({ amount: amount && amount > 0 ? amount : null, unit }),
+        location: null,
+        expiry: '',
+      };
+    });
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, so such
+// cells are written with a leading apostrophe, which they show as plain text.
+const FORMULA_START = /^[=+\-@]/;
+
+function csvField(value: string | number | null): string {
+  const raw = value === null ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The whole pantry as CSV, one row per item with the amount and unit in their own columns. */
+export function pantryToCsv(items: PantryRow[]): string {
+  const rows = items.map((item) => [
+    item.ingredient_name,
+    item.amount,
+    item.unit,
+    item.location,
+    item.expiry_date,
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/** The rows of a CSV file, honouring quoted fields with commas, quotes and line breaks in them. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/** A cell's text without the apostrophe pantryToCsv puts before formula-like values. */
+function csvCell(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith("'") && FORMULA_START.test(trimmed.slice(1)) ? trimmed.slice(1) : trimmed;
+}
+
+function csvLocation(value: string): PantryLocation | null {
+  const location = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return isPantryLocation(location) ? location : null;
+}
+
+/** A date as YYYY-MM-DD, or empty when it can't be read. */
+function csvDate(value: string): string {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const date = trimmed ? new Date(trimmed) : null;
+  if (!date || Number.isNaN(date.getTime())) return '';
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+/**
+ * Drafts from a CSV file with a header row. Besides the columns pantryToCsv
+ * writes, a single quantity column ("500 g") and common header names from other
+ * apps are read; locations and dates that can't be read are left blank.
+ */
+export function parsePantryCsv(text: string): PantryDraft[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((cell) => CSV_HEADERS[cell.trim().toLowerCase().replace(/[\s-]+/g, '_')]);
+  if (!columns.includes('name')) {
+    throw new Error("The file needs a header row with a name or ingredient column.");
+  }
+
+  return rows
+    .map((cells) => {
+      const values: Partial<Record<string, string>> = {};
+      columns.forEach((column, index) => {
+        if (column && values[column] === undefined) values[column] = csvCell(cells[index] ?? '');
+      });
+      return {
+        name: values.name ?? '',
+        quantity: values.quantity || [values.amount, values.unit].filter(Boolean).join(' '),
+        location: csvLocation(values.location ?? ''),
+        expiry: csvDate(values.expiry ?? ''),
+      };
+    })
+    .filter((draft) => draft.name);
+}
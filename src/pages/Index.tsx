@@ -8,6 +8,7 @@ import { AuthPage } from "@/components/AuthPage";
 import { Quiz } from "@/components/Quiz";
 import { Dashboard } from "@/components/Dashboard";
 import { Skeleton } from "@/components/ui/skeleton";
+import { defaultMeasurementSystem } from "@/lib/ingredient-utils";
 
 // This interface defines the data structure used within the React app (camelCase)
 interface QuizData {
@@ -106,6 +107,9 @@ const Index = () => {
           skill_level: data.skillLevel,
           serving_size: data.servingSize,
           budget: data.budget,
+          // Plan dates are counted in this time zone; it can be changed later under Account.
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          measurement_system: defaultMeasurementSystem(navigator.language),
           updated_at: new Date().toISOString(),
         },
         { onConflict: 'user_id' }
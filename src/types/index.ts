@@ -1,23 +1,38 @@
 // src/types/index.ts
+import type { MealSlot } from "@/lib/meal-slots";
+import type { RecipeIngredient } from "@/lib/recipe-ingredients";
+import type { RecipeStep } from "@/lib/recipe-steps";
 
 // This represents a single recipe from your 'recipes' table
 export interface Recipe {
   id: string;
   title: string;
   ingredients: string;
+  // One row per ingredient line; loaded with the recipe when the query asks for it.
+  recipe_ingredients?: RecipeIngredient[];
   recipe: string;
+  // One row per step, with its timer, temperature and ingredients; loaded like recipe_ingredients.
+  recipe_steps?: RecipeStep[];
   calories: number;
+  // How many people the ingredient quantities are written for.
   servings?: number;
   total_time_to_cook?: string;
   cooking_tips?: string;
 }
 
-// This represents the combined meal for a single day,
+// This represents one planned meal (a day and a meal slot),
 // which is what your UI components will use.
 export interface MealDay {
   day: string;
+  meal_date?: string;
+  // Plans saved before meal slots existed are all dinners.
+  meal_slot?: MealSlot;
+  // Locked meals are kept when the whole plan is regenerated.
+  is_locked?: boolean;
+  // Set once the meal was marked as cooked and its ingredients taken out of the pantry.
+  cooked_at?: string | null;
   main_dish: Recipe;
-  side_dish: Omit<Recipe, 'id' | 'servings'>; // A side dish doesn't need its own ID or servings
+  side_dish: Omit<Recipe, 'id'> | null; // A side dish doesn't need its own ID; breakfasts and snacks often have none
   total_time_to_cook: string;
   cooking_tips?: string;
 }
@@ -25,6 +40,9 @@ export interface MealDay {
 export interface PantryItem {
   id: string;
   ingredient_name: string;
-  quantity?: string;
+  ingredient: string;
+  amount: number | null;
+  unit: string | null;
+  location: string | null;
   expiry_date?: string;
 }
\ No newline at end of file
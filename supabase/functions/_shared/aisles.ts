@@ -0,0 +1,105 @@
+// Grocery aisles for the shopping list, shared by the edge functions and the web app.
+// Ingredients are placed by keyword, a user can move any ingredient to another aisle
+// (remembered in ingredient_aisles) and reorder the aisles to match their store
+// (profiles.aisle_order).
+
+import { normalizeIngredientText } from './ingredient-names.ts';
+
+export type Aisle =
+  | 'Produce'
+  | 'Meat & Seafood'
+  | 'Dairy & Eggs'
+  | 'Bakery'
+  | 'Pantry'
+  | 'Spices & Seasonings'
+  | 'Frozen'
+  | 'Beverages'
+  | 'Other';
+
+// The default walk through a store; "Other" is always last unless the user moves it.
+export const AISLES: Aisle[] = [
+  'Produce', 'Meat & Seafood', 'Dairy & Eggs', 'Bakery', 'Pantry', 'Spices & Seasonings', 'Frozen', 'Beverages', 'Other',
+];
+
+export const isAisle = (value: unknown): value is Aisle =>
+  typeof value === 'string' && (AISLES as string[]).includes(value);
+
+// Normalized ingredient words for each aisle. The longest match wins, so "peanut
+// butter" is Pantry rather than Dairy and "chicken broth" is Pantry rather than Meat.
+const AISLE_KEYWORDS: Record<Exclude<Aisle, 'Other'>, string[]> = {
+  'Produce': [
+    'apple', 'arugula', 'asparagus', 'avocado', 'banana', 'basil', 'bean sprout', 'beet', 'bell pepper', 'berry',
+    'blueberry', 'bok choy', 'broccoli', 'brussels sprout', 'cabbage', 'carrot', 'cauliflower', 'celery', 'chard',
+    'cherry tomato', 'chili pepper', 'cilantro', 'corn on the cob', 'cucumber', 'dill', 'eggplant', 'garlic',
+    'ginger', 'grape', 'green bean', 'green onion', 'herb', 'jalapeno', 'kale', 'leek', 'lemon', 'lettuce', 'lime',
+    'mango', 'mint', 'mushroom', 'onion', 'orange', 'parsley', 'pear', 'pineapple', 'poblano', 'potato', 'radish',
+    'raspberry', 'rosemary', 'sage', 'salad green', 'shallot', 'snap pea', 'spinach', 'squash', 'strawberry',
+    'sweet potato', 'thyme', 'tomato', 'zucchini', 'cremini', 'portobello', 'shiitake',
+  ],
+  'Meat & Seafood': [
+    'bacon', 'beef', 'chicken', 'chorizo', 'cod', 'crab', 'duck', 'fish', 'ground beef', 'ground turkey', 'halibut',
+    'ham', 'lamb', 'lobster', 'mussel', 'pancetta', 'pork', 'prosciutto', 'salmon', 'sausage', 'scallop', 'shrimp',
+    'steak', 'tilapia', 'trout', 'tuna steak', 'turkey', 'clam', 'chicken breast', 'chicken thigh',
+  ],
+  'Dairy & Eggs': [
+    'butter', 'buttermilk', 'cheddar', 'cheese', 'cottage cheese', 'cream', 'cream cheese', 'egg', 'feta',
+    'goat cheese', 'greek yogurt', 'gruyere', 'half-and-half', 'heavy cream', 'milk', 'mozzarella', 'parmesan',
+    'ricotta', 'sour cream', 'yogurt', 'ghee',
+  ],
+  'Bakery': ['bagel', 'baguette', 'bread', 'bun', 'ciabatta', 'croissant', 'naan', 'pita', 'roll', 'tortilla', 'wrap'],
+  'Pantry': [
+    'almond', 'baking powder', 'baking soda', 'bean', 'beef broth', 'black bean', 'breadcrumb', 'broth', 'brown sugar',
+    'canned tomato', 'cashew', 'chicken broth', 'chicken stock', 'chickpea', 'chocolate', 'cocoa powder', 'coconut milk',
+    'cornstarch', 'couscous', 'flour', 'honey', 'vegetable broth',
+    'hot sauce', 'jam', 'ketchup', 'kidney bean', 'lentil', 'maple syrup', 'marinara', 'mayonnaise', 'mustard',
+    'noodle', 'nut', 'oat', 'oil', 'olive oil', 'panko', 'pasta', 'peanut', 'peanut butter', 'pecan', 'quinoa', 'rice',
+    'salsa', 'sesame oil', 'soy sauce', 'spaghetti', 'stock', 'sugar', 'tahini', 'tomato paste', 'tomato sauce',
+    'tuna', 'vanilla', 'vinegar', 'walnut', 'worcestershire sauce', 'fish sauce', 'curry paste', 'seed', 'coconut',
+  ],
+  'Spices & Seasonings': [
+    'bay leaf', 'black pepper', 'cayenne', 'chili flake', 'chili powder', 'cinnamon', 'clove', 'coriander seed', 'cumin',
+    'curry powder', 'garam masala', 'garlic powder', 'italian seasoning', 'nutmeg', 'onion powder', 'oregano', 'paprika',
+    'pepper', 'red pepper flake', 'salt', 'seasoning', 'smoked paprika', 'spice', 'turmeric', 'dried thyme',
+    'dried oregano', 'dried basil',
+  ],
+  'Frozen': ['frozen', 'ice cream', 'frozen pea', 'frozen corn', 'frozen berry', 'puff pastry'],
+  'Beverages': ['coffee', 'juice', 'soda', 'sparkling water', 'tea', 'wine', 'beer'],
+};
+
+// Every keyword with its aisle, longest first.
+const KEYWORDS = (Object.entries(AISLE_KEYWORDS) as [Aisle, string[]][])
+  .flatMap(([aisle, words]) => words.map((word) => ({ word: normalizeIngredientText(word), aisle })))
+  .sort((a, b) => b.word.length - a.word.length);
+
+/**
+ * The aisle an ingredient is shopped in: the user's own choice when they made
+ * one, otherwise the aisle of the longest keyword it contains as a whole word
+ * or phrase, otherwise "Other".
+ */
+export function categorizeIngredient(ingredient: string, overrides: Record<string, string> = {}): Aisle {
+  const name = normalizeIngredientText(ingredient);
+  const override = overrides[name] ?? overrides[ingredient];
+  if (isAisle(override)) return override;
+
+  const padded = ` ${name} `;
+  return KEYWORDS.find(({ word }) => padded.includes(` ${word} `))?.aisle ?? 'Other';
+}
+
+/** The user's aisle order with unknown names dropped and any aisle they haven't placed appended in the default order. */
+export function orderAisles(order: string[] | null | undefined): Aisle[] {
+  const chosen = [...new Set((order ?? []).filter(isAisle))];
+  return [...chosen, ...AISLES.filter((aisle) => !chosen.includes(aisle))];
+}
+
+/**
+ * `order` with two aisles trading places. The list only shows aisles that have
+ * something in them, so moving one up swaps it with the aisle shown above it.
+ */
+export function swapAisles(order: Aisle[], aisle: Aisle, other: Aisle): Aisle[] {
+  const from = order.indexOf(aisle);
+  const to = order.indexOf(other);
+  if (from === -1 || to === -1) return order;
+  const swapped = [...order];
+  [swapped[from], swapped[to]] = [swapped[to], swapped[from]];
+  return swapped;
+}
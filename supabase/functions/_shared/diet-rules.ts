@@ -0,0 +1,122 @@
+// Deterministic dietary-restriction rules shared by generate-meal-plan (to reject
+// violating dishes) and the web app (to badge recipes).
+import { normalizeIngredientText } from './ingredient-names.ts';
+
+export type IngredientCategory =
+  | 'meat'
+  | 'poultry'
+  | 'fish'
+  | 'shellfish'
+  | 'egg'
+  | 'dairy'
+  | 'honey'
+  | 'gelatin'
+  | 'gluten';
+
+// Singular, lowercase terms that put an ingredient line in a category.
+const CATEGORY_TERMS: Record<IngredientCategory, string[]> = {
+  meat: [
+    'beef', 'pork', 'lamb', 'veal', 'venison', 'bacon', 'ham', 'sausage', 'prosciutto', 'pancetta', 'chorizo',
+    'salami', 'pepperoni', 'steak', 'brisket', 'short rib', 'lard', 'meatball',
+  ],
+  poultry: ['chicken', 'turkey', 'duck', 'goose', 'quail'],
+  fish: [
+    'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'anchovy', 'sardine', 'mackerel', 'snapper',
+    'bass', 'fish sauce', 'worcestershire sauce', 'bonito',
+  ],
+  shellfish: ['shrimp', 'crab', 'lobster', 'scallop', 'mussel', 'clam', 'oyster', 'oyster sauce', 'squid', 'calamari', 'octopus'],
+  egg: ['egg', 'egg yolk', 'egg white', 'mayonnaise', 'mayo', 'aioli', 'meringue'],
+  dairy: [
+    'milk', 'butter', 'cheese', 'cream', 'yogurt', 'ghee', 'parmesan', 'cheddar', 'mozzarella', 'feta', 'ricotta',
+    'gouda', 'mascarpone', 'paneer', 'buttermilk', 'half-and-half', 'whey', 'creme fraiche', 'sour cream',
+  ],
+  honey: ['honey'],
+  gelatin: ['gelatin'],
+  gluten: [
+    'wheat', 'flour', 'all-purpose flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'penne', 'fettuccine',
+    'linguine', 'macaroni', 'lasagna', 'orzo', 'couscous', 'noodle', 'barley', 'rye', 'bulgur', 'farro', 'semolina',
+    'seitan', 'soy sauce', 'teriyaki sauce', 'hoisin sauce', 'beer', 'pita', 'naan', 'crouton', 'pizza dough',
+    'cracker', 'udon', 'ramen', 'bun', 'bagel', 'malt', 'flour tortilla',
+  ],
+};
+
+// Phrases that contain a category term but don't belong to it ("coconut milk" is not dairy).
+const CATEGORY_EXCEPTIONS: Partial<Record<IngredientCategory, string[]>> = {
+  dairy: [
+    'coconut milk', 'almond milk', 'soy milk', 'oat milk', 'rice milk', 'cashew milk', 'coconut cream',
+    'peanut butter', 'almond butter', 'cashew butter', 'sunflower butter', 'apple butter', 'cocoa butter',
+    'cream of tartar', 'vegan butter', 'vegan cheese',
+  ],
+  egg: ['eggplant'],
+  gluten: [
+    'rice noodle', 'rice flour', 'almond flour', 'coconut flour', 'chickpea flour', 'corn tortilla', 'rice paper',
+    'tamari', 'buckwheat',
+  ],
+};
+
+// Labels that clear a whole category for the line they appear on.
+const CATEGORY_FREE_MARKERS: Partial<Record<IngredientCategory, string[]>> = {
+  dairy: ['dairy-free', 'dairy free', 'non-dairy', 'vegan', 'plant-based'],
+  egg: ['egg-free', 'vegan'],
+  gluten: ['gluten-free', 'gluten free'],
+};
+
+/** The diets users can pick in the app, mapped to the ingredient categories they rule out. */
+export const DIET_FORBIDDEN_CATEGORIES: Record<string, IngredientCategory[]> = {
+  'Vegetarian': ['meat', 'poultry', 'fish', 'shellfish', 'gelatin'],
+  'Vegan': ['meat', 'poultry', 'fish', 'shellfish', 'gelatin', 'egg', 'dairy', 'honey'],
+  'Gluten-Free': ['gluten'],
+  'Dairy-Free': ['dairy'],
+};
+
+export interface DietViolation {
+  diet: string;
+  category: IngredientCategory;
+  // The term that matched, e.g. "fish sauce".
+  term: string;
+  // The ingredient line it was found in.
+  ingredient: string;
+}
+
+const containsPhrase = (normalizedLine: string, phrase: string) =>
+  ` ${normalizedLine} `.includes(` ${normalizeIngredientText(phrase)} `);
+
+/** The first term from the category found in the line, or null when the line is clear of it. */
+function findCategoryTerm(ingredientLine: string, category: IngredientCategory): string | null {
+  let line = normalizeIngredientText(ingredientLine);
+  if ((CATEGORY_FREE_MARKERS[category] ?? []).some((marker) => ingredientLine.toLowerCase().includes(marker))) {
+    return null;
+  }
+  for (const exception of CATEGORY_EXCEPTIONS[category] ?? []) {
+    line = ` ${line} `.split(` ${normalizeIngredientText(exception)} `).join(' ').trim();
+  }
+  // Prefer the longest matching term so "fish sauce" is reported rather than "fish".
+  const terms = [...CATEGORY_TERMS[category]].sort((a, b) => b.length - a.length);
+  return terms.find((term) => containsPhrase(line, term)) ?? null;
+}
+
+/** Every category an ingredient line belongs to. */
+export function categorizeIngredientLine(ingredientLine: string): IngredientCategory[] {
+  return (Object.keys(CATEGORY_TERMS) as IngredientCategory[])
+    .filter((category) => findCategoryTerm(ingredientLine, category) !== null);
+}
+
+/**
+ * Checks a recipe's ingredient lines against the user's diets. Unknown diets
+ * (and "None") impose no rules. Returns one violation per diet, category and
+ * offending line.
+ */
+export function checkIngredientsAgainstDiets(ingredientLines: string[], diets: string[]): DietViolation[] {
+  const violations: DietViolation[] = [];
+  for (const diet of diets) {
+    for (const category of DIET_FORBIDDEN_CATEGORIES[diet] ?? []) {
+      for (const ingredient of ingredientLines) {
+        const term = findCategoryTerm(ingredient, category);
+        if (term) {
+          violations.push({ diet, category, term, ingredient });
+        }
+      }
+    }
+  }
+  return violations;
+}
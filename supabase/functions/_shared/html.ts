@@ -0,0 +1,14 @@
+// HTML helpers for the markup the edge functions build: the plan emails and the PDF.
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Text made safe to place in HTML; pantry names, list lines and recipes can come from users. */
+export function escapeHtml(text: string | number | null | undefined): string {
+  return String(text ?? '').replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
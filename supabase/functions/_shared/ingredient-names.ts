@@ -0,0 +1,107 @@
+// Ingredient name normalization shared by the edge functions and the web app.
+
+// Words that end in "s" but are already singular.
+const SINGULAR_EXCEPTIONS = new Set([
+  'hummus', 'asparagus', 'couscous', 'molasses', 'swiss', 'citrus', 'octopus', 'bass', 'grass', 'watercress', 'series', 'species', 'gras',
+]);
+
+// Alternate names mapped to the name used everywhere else in the app.
+const SYNONYMS: Record<string, string> = {
+  'coriander leaf': 'cilantro',
+  'coriander': 'cilantro',
+  'prawn': 'shrimp',
+  'aubergine': 'eggplant',
+  'courgette': 'zucchini',
+  'scallion': 'green onion',
+  'spring onion': 'green onion',
+  'garbanzo bean': 'chickpea',
+  'garbanzo': 'chickpea',
+  'capsicum': 'bell pepper',
+  'rocket': 'arugula',
+  'minced beef': 'ground beef',
+  'beef mince': 'ground beef',
+  'icing sugar': 'powdered sugar',
+  'caster sugar': 'sugar',
+  'double cream': 'heavy cream',
+  'heavy whipping cream': 'heavy cream',
+  'plain flour': 'all-purpose flour',
+  'all purpose flour': 'all-purpose flour',
+  'cornflour': 'cornstarch',
+  'corn starch': 'cornstarch',
+};
+
+// Specific kinds that count as the general ingredient, e.g. disliking "mushroom" rules out cremini.
+const INGREDIENT_FAMILIES: Record<string, string[]> = {
+  'mushroom': ['cremini', 'portobello', 'shiitake', 'porcini', 'chanterelle', 'oyster mushroom'],
+  'onion': ['shallot', 'green onion', 'leek'],
+  'shellfish': ['shrimp', 'crab', 'lobster', 'scallop', 'mussel', 'clam', 'oyster'],
+  'fish': ['salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'anchovy', 'sardine', 'mackerel', 'fish sauce'],
+  'nut': ['almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'peanut', 'pine nut'],
+  'pepper': ['bell pepper', 'jalapeno', 'chili pepper', 'poblano'],
+  'cheese': ['parmesan', 'cheddar', 'mozzarella', 'feta', 'ricotta', 'gouda', 'goat cheese'],
+};
+
+// Plurals that don't follow the simple suffix rules below.
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: 'leaf',
+  halves: 'half',
+  loaves: 'loaf',
+  knives: 'knife',
+};
+
+export function singularize(word: string): string {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_PLURALS[lower]) return IRREGULAR_PLURALS[lower];
+  if (lower.length <= 3 || SINGULAR_EXCEPTIONS.has(lower) || lower.endsWith('ss') || lower.endsWith('us')) return lower;
+  if (lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.endsWith('oes')) return lower.slice(0, -2);
+  if (/(ch|sh|x|z)es$/.test(lower)) return lower.slice(0, -2);
+  if (lower.endsWith('s')) return lower.slice(0, -1);
+  return lower;
+}
+
+// Words ending in "o" that take "es" ("tomatoes"); others just take "s" ("avocados").
+const O_ES_PLURALS = new Set(['tomato', 'potato', 'mango']);
+
+/** The plural of a singular word, e.g. for "3 eggs" on the shopping list. */
+export function pluralize(word: string): string {
+  const lower = word.toLowerCase();
+  const irregular = Object.keys(IRREGULAR_PLURALS).find((plural) => IRREGULAR_PLURALS[plural] === lower);
+  if (irregular) return irregular;
+  if (SINGULAR_EXCEPTIONS.has(lower)) return lower;
+  if (/(s|x|z|ch|sh)$/.test(lower) || O_ES_PLURALS.has(lower)) return `${lower}es`;
+  if (/[^aeiou]y$/.test(lower)) return `${lower.slice(0, -1)}ies`;
+  return `${lower}s`;
+}
+
+/**
+ * Lowercases, strips punctuation and digits, singularizes every word and maps
+ * known synonyms, so "2 Spring Onions, sliced" and "scallion" compare equal
+ * on their ingredient words.
+ */
+export function normalizeIngredientText(text: string): string {
+  let normalized = text
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+
+  // Longest synonyms first so "coriander leaf" wins over "coriander".
+  for (const alias of Object.keys(SYNONYMS).sort((a, b) => b.length - a.length)) {
+    normalized = ` ${normalized} `.replace(new RegExp(` ${alias} `, 'g'), ` ${SYNONYMS[alias]} `).trim();
+  }
+  return normalized;
+}
+
+/**
+ * True when the ingredient line mentions the given ingredient, one of its
+ * synonyms, or a more specific kind of it, as a whole word or phrase.
+ */
+export function mentionsIngredient(ingredientLine: string, ingredientName: string): boolean {
+  const name = normalizeIngredientText(ingredientName);
+  if (!name) return false;
+  const line = ` ${normalizeIngredientText(ingredientLine)} `;
+  return [name, ...(INGREDIENT_FAMILIES[name] ?? [])].some((term) => line.includes(` ${term} `));
+}
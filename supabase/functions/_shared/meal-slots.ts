@@ -0,0 +1,39 @@
+// The meals of the day a plan can cover, shared by generate-meal-plan, generate-pdf
+// and the web app.
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// In the order they are eaten; plans and PDFs list a day's meals in this order.
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snacks',
+};
+
+export const isMealSlot = (value: unknown): value is MealSlot =>
+  typeof value === 'string' && (MEAL_SLOTS as string[]).includes(value);
+
+/**
+ * The slots to plan for a profile's `meal_types` ("Breakfast", "Snacks", ...),
+ * in serving order. Unknown values are ignored; a profile without any known
+ * meal type gets dinner only, which is what every plan used to be.
+ */
+export function mealSlotsFor(mealTypes: string[] | null | undefined): MealSlot[] {
+  const wanted = new Set(
+    (mealTypes ?? []).map((type) => type.trim().toLowerCase().replace(/s$/, '')),
+  );
+  const slots = MEAL_SLOTS.filter((slot) => wanted.has(slot));
+  return slots.length > 0 ? slots : ['dinner'];
+}
+
+/** Sorts plan entries by date, then by slot within the day. Entries without a slot count as dinner. */
+export function compareMealEntries(
+  a: { meal_date?: string; meal_slot?: string | null },
+  b: { meal_date?: string; meal_slot?: string | null },
+): number {
+  const slotIndex = (slot: string | null | undefined) => MEAL_SLOTS.indexOf(isMealSlot(slot) ? slot : 'dinner');
+  return (a.meal_date ?? '').localeCompare(b.meal_date ?? '') || slotIndex(a.meal_slot) - slotIndex(b.meal_slot);
+}
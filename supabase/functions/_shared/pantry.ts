@@ -0,0 +1,352 @@
+// Pantry items and keeping them in step with shopping and cooking, shared by the
+// edge functions and the web app. Each pantry_items row holds a numeric amount and
+// a canonical unit, the canonical ingredient it matches recipes on and where it is
+// stored. Ticked shopping-list lines are added to the row already held for the
+// same ingredient, and fresh food can be given a use-by date from its aisle.
+// Cooking a meal takes its ingredients back out, and use-by dates decide what the
+// pantry tab, the meal planner and the daily digest treat as needing using up.
+
+import { Aisle, categorizeIngredient, isAisle } from './aisles.ts';
+import { addDays, daysBetween } from './plan-dates.ts';
+import { canonicalUnit, parseIngredientLine, RecipeIngredient, recipeIngredients, splitQuantity } from './recipe-ingredients.ts';
+import { formatQuantity, scaleRecipe } from './servings.ts';
+import {
+  addMeasure,
+  convertQuantity,
+  formatMeasure,
+  Measure,
+  MeasurementSystem,
+  ShoppingListEntry,
+  subtractMeasure,
+  toMeasure,
+  unitLabel,
+} from './shopping-list.ts';
+
+export type PantryLocation = 'fridge' | 'freezer' | 'pantry' | 'spice_rack';
+
+// In the order the pantry tab lists them.
+export const PANTRY_LOCATIONS: PantryLocation[] = ['fridge', 'freezer', 'pantry', 'spice_rack'];
+
+export const PANTRY_LOCATION_LABELS: Record<PantryLocation, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+  pantry: 'Pantry',
+  spice_rack: 'Spice Rack',
+};
+
+export const isPantryLocation = (value: unknown): value is PantryLocation =>
+  typeof value === 'string' && (PANTRY_LOCATIONS as string[]).includes(value);
+
+// Where food from each aisle is usually kept; anything else goes in the pantry.
+const AISLE_LOCATIONS: Partial<Record<Aisle, PantryLocation>> = {
+  'Produce': 'fridge',
+  'Meat & Seafood': 'fridge',
+  'Dairy & Eggs': 'fridge',
+  'Frozen': 'freezer',
+  'Spices & Seasonings': 'spice_rack',
+};
+
+// How many days food from each aisle keeps once bought; aisles not listed keep for months.
+export const SHELF_LIFE_DAYS: Partial<Record<Aisle, number>> = {
+  'Produce': 7,
+  'Meat & Seafood': 3,
+  'Dairy & Eggs': 14,
+  'Bakery': 5,
+  'Frozen': 180,
+};
+
+// Items expiring within this many days are flagged in the pantry and the daily digest.
+export const EXPIRY_SOON_DAYS = 3;
+
+export type ExpiryStatus = 'expired' | 'soon' | 'fresh';
+
+// How far one press of the pantry stepper moves an amount in each unit; whole things move by one.
+const STEPS: Record<string, number> = {
+  g: 50, kg: 0.1, ml: 50, l: 0.1, oz: 1, lb: 0.25, cup: 0.25, tbsp: 1, tsp: 0.5, pint: 0.5, quart: 0.5, gallon: 0.25,
+};
+
+/** A pantry_items row as the app and the edge functions read it. */
+export interface PantryRow {
+  id: string;
+  ingredient_name: string;
+  ingredient: string;
+  // Null when the user only noted that they have some.
+  amount: number | null;
+  unit: string | null;
+  location: string | null;
+  expiry_date: string | null;
+}
+
+/** An amount as pantry_items stores it. */
+export type PantryAmount = {
+  amount: number | null;
+  unit: string | null;
+};
+
+/** A pantry_items row to save; rows with an id update what the pantry already holds. */
+export interface PantryRestock extends PantryAmount {
+  id?: string;
+  ingredient_name: string;
+  ingredient: string;
+  location: string | null;
+  expiry_date: string | null;
+}
+
+export interface RestockOptions {
+  system: MeasurementSystem;
+  // The day of the trip; when set, rows without a use-by date get one from SHELF_LIFE_DAYS.
+  purchasedOn?: string | null;
+}
+
+/** "500 g", "1/2 cup" or "2" as an amount and canonical unit; no amount when there is no number. */
+export function parsePantryQuantity(text: string | null | undefined): PantryAmount {
+  const parsed = parseIngredientLine(text ?? '');
+  return parsed.quantity && parsed.quantity > 0
+    ? { amount: parsed.quantity, unit: parsed.unit }
+    : { amount: null, unit: null };
+}
+
+/**
+ * The canonical ingredient a pantry entry such as "Red Onions" is matched on.
+ * Stored names are read through it too, since rows parsed in SQL only had the
+ * simpler rules applied.
+ */
+export function pantryIngredient(name: string): string {
+  return parseIngredientLine(name).ingredient;
+}
+
+/** Where an item is stored: where the user put it, otherwise where food from its aisle is usually kept. */
+export function pantryLocation(
+  item: Pick<PantryRow, 'ingredient' | 'location'>,
+  aisleOverrides: Record<string, string> = {},
+): PantryLocation {
+  if (isPantryLocation(item.location)) return item.location;
+  return AISLE_LOCATIONS[categorizeIngredient(item.ingredient, aisleOverrides)] ?? 'pantry';
+}
+
+/** "500 g", "1/2 cup", "3 cloves"; "On hand" when no amount was noted. */
+export function formatPantryAmount({ amount, unit }: PantryAmount): string {
+  if (!amount) return 'On hand';
+  let value: string;
+  if (unit === 'g' || unit === 'ml') value = String(Math.max(1, Math.round(amount)));
+  else if (unit === 'kg' || unit === 'l' || Number.isInteger(amount)) value = String(Math.round(amount * 100) / 100);
+  else value = formatQuantity(amount);
+  return unit ? `${value} ${unitLabel(unit, amount)}` : value;
+}
+
+/** The amount one press of the stepper up (1) or down (-1) gives; zero or less means it is used up. */
+export function stepPantryAmount({ amount, unit }: PantryAmount, direction: 1 | -1): number {
+  const step = STEPS[unit ?? ''] ?? 1;
+  // Land on the step's multiples, so 30 g goes to 50 g or 0 g rather than 80 g or -20 g.
+  const steps = (amount ?? 0) / step;
+  const next = direction === 1 ? Math.floor(steps + 1e-9) + 1 : Math.ceil(steps - 1e-9) - 1;
+  return Math.round(next * step * 1000) / 1000;
+}
+
+/** How close a use-by date is on `today`; null for items without one. */
+export function expiryStatus(expiryDate: string | null | undefined, today: string): ExpiryStatus | null {
+  if (!expiryDate) return null;
+  const days = daysBetween(today, expiryDate);
+  if (days < 0) return 'expired';
+  return days <= EXPIRY_SOON_DAYS ? 'soon' : 'fresh';
+}
+
+/** "Expired 2 days ago", "Expires today", "Expires in 3 days"; null for items without a use-by date. */
+export function describeExpiry(expiryDate: string | null | undefined, today: string): string | null {
+  if (!expiryDate) return null;
+  const days = daysBetween(today, expiryDate);
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return 'Expired yesterday';
+  if (days === 0) return 'Expires today';
+  if (days === 1) return 'Expires tomorrow';
+  return `Expires in ${days} days`;
+}
+
+/** Soonest use-by date first; items without one go last. */
+export function compareExpiry(a: Pick<PantryRow, 'expiry_date'>, b: Pick<PantryRow, 'expiry_date'>): number {
+  if (a.expiry_date === b.expiry_date) return 0;
+  if (!a.expiry_date) return 1;
+  if (!b.expiry_date) return -1;
+  return a.expiry_date < b.expiry_date ? -1 : 1;
+}
+
+/** Items whose use-by date is on or before `until`, soonest first; expired items are included. */
+export function expiringPantryItems<T extends Pick<PantryRow, 'expiry_date'>>(items: T[], until: string): T[] {
+  return items
+    .filter((item) => item.expiry_date && item.expiry_date <= until)
+    .sort(compareExpiry);
+}
+
+/** The measure a pantry row holds; null when it has no amount. */
+function pantryMeasure(row: PantryAmount): Measure | null {
+  return row.amount ? toMeasure(row.amount, row.unit) : null;
+}
+
+/**
+ * A measure as a pantry amount: in `unit` when it converts, so a row keeps the
+ * unit the user chose, otherwise in the user's system rounded like the
+ * shopping list.
+ */
+function measureAmount(measure: Measure, system: MeasurementSystem, ingredient: string, unit?: string | null): PantryAmount {
+  const converted = unit === undefined ? null : convertQuantity(measure.amount, measure.unit, unit, ingredient);
+  if (converted !== null && converted > 0) return { amount: Math.round(converted * 100) / 100, unit: unit ?? null };
+  return parsePantryQuantity(formatMeasure(measure, system, ingredient));
+}
+
+/**
+ * What a bought list line adds to the pantry. A line from the plan may join
+ * amounts in units that don't convert ("2 cloves garlic + 1 head garlic"); the
+ * user's own lines are read like a recipe line ("2 rolls paper towels").
+ */
+function purchasedMeasures(item: Pick<ShoppingListEntry, 'ingredient' | 'text'>): { ingredient: string; name: string; measures: Measure[] } {
+  const lines = item.text.split(' + ').map((line) => parseIngredientLine(line));
+  const ingredient = item.ingredient ?? lines[0]?.ingredient ?? item.text;
+  const measures = lines
+    .filter((line) => line.quantity)
+    .reduce<Measure[]>((total, line) => addMeasure(total, toMeasure(line.quantity!, line.unit), ingredient), []);
+  return { ingredient, name: purchasedName(item.text.split(' + ')[0]) || ingredient, measures };
+}
+
+/** A bought line as the user reads it, without its amount: "2 rolls paper towels" is "rolls paper towels". */
+function purchasedName(line: string): string {
+  let rest = (splitQuantity(line.trim())?.rest ?? line).trim();
+  const [word] = rest.split(/\s+/);
+  if (canonicalUnit(word)) rest = rest.slice(word.length).trim().replace(/^of\s+/i, '');
+  return rest.replace(/\([^)]*\)/g, ' ').split(',')[0].replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The pantry_items rows that put bought list lines in the pantry. A line is
+ * added to the row already held for its ingredient when the amounts convert;
+ * when they don't, the row takes the amount just bought, since that is the one
+ * known to be there. Rows keep their own name, use-by date and place; new stock
+ * is named as its list line reads and put where its aisle is usually kept, and
+ * fresh food gets a use-by date from its aisle when `purchasedOn` is given.
+ */
+export function restockPantry(
+  pantry: PantryRow[],
+  purchases: Pick<ShoppingListEntry, 'ingredient' | 'text' | 'category'>[],
+  options: RestockOptions,
+): PantryRestock[] {
+  const bought = new Map<string, { name: string; measures: Measure[]; category: string }>();
+  purchases.forEach((item) => {
+    const { ingredient, name, measures } = purchasedMeasures(item);
+    const existing = bought.get(ingredient);
+    bought.set(ingredient, {
+      name: existing?.name ?? name,
+      measures: measures.reduce((total, measure) => addMeasure(total, measure, ingredient), existing?.measures ?? []),
+      category: existing?.category ?? item.category,
+    });
+  });
+
+  return [...bought.entries()].map(([ingredient, { name, measures, category }]) => {
+    const row = pantry.find((entry) => pantryIngredient(entry.ingredient) === ingredient);
+    const held = row ? pantryMeasure(row) : null;
+    const total = held ? measures.reduce((sum, measure) => addMeasure(sum, measure, ingredient), [held]) : measures;
+    const kept = total.length === 1 ? total : measures;
+    const aisle = isAisle(category) ? category : categorizeIngredient(ingredient);
+    const shelfLife = SHELF_LIFE_DAYS[aisle];
+
+    return {
+      ...(row ? { id: row.id } : {}),
+      ingredient_name: row?.ingredient_name ?? name,
+      ingredient,
+      ...(kept.length === 1 ? measureAmount(kept[0], options.system, ingredient, row?.unit) : { amount: null, unit: null }),
+      location: row?.location ?? AISLE_LOCATIONS[aisle] ?? 'pantry',
+      expiry_date: row?.expiry_date ?? (options.purchasedOn && shelfLife ? addDays(options.purchasedOn, shelfLife) : null),
+    };
+  });
+}
+
+/**
+ * One pantry row a cooked meal used. Saved with the meal in
+ * user_meal_history.pantry_changes so cooking it can be undone.
+ */
+export type PantryChange = {
+  id: string;
+  ingredient_name: string;
+  ingredient: string;
+  location: string | null;
+  expiry_date: string | null;
+  before: PantryAmount;
+  // Null when the meal used it up and the row was deleted.
+  after: PantryAmount | null;
+};
+
+type CookedRecipe = { ingredients?: string; recipe_ingredients?: RecipeIngredient[] | null; servings?: number | null };
+
+/**
+ * What cooking the recipes for `servings` people takes out of the pantry. Each
+ * measured ingredient is taken from the rows held for it in turn, converting
+ * units where it can; a row never goes below zero and is used up when nothing
+ * is left. Rows with no amount, or only a plain number ("1"), say the
+ * ingredient is on hand and stay as they are unless the recipe counts whole
+ * items ("3 eggs").
+ */
+export function cookedPantryChanges(
+  pantry: PantryRow[],
+  recipes: CookedRecipe[],
+  options: { servings: number; system: MeasurementSystem },
+): PantryChange[] {
+  const needed = new Map<string, Measure[]>();
+  recipes
+    .flatMap((recipe) => recipeIngredients(scaleRecipe(recipe, options.servings)))
+    .filter((item) => item.quantity)
+    .forEach((item) => {
+      const measure = toMeasure(item.quantity!, item.unit);
+      needed.set(item.ingredient, addMeasure(needed.get(item.ingredient) ?? [], measure, item.ingredient));
+    });
+
+  return pantry.flatMap((row) => {
+    const ingredient = pantryIngredient(row.ingredient);
+    const held = pantryMeasure(row);
+    const need = needed.get(ingredient);
+    if (!held || !need) return [];
+
+    let left = [held];
+    const stillNeeded = need.flatMap((measure) => {
+      const before = left;
+      left = subtractMeasure(left, measure, ingredient);
+      return before.reduce((rest, have) => subtractMeasure(rest, have, ingredient), [measure]);
+    });
+    needed.set(ingredient, stillNeeded);
+
+    if (left.length === 1 && left[0].amount === held.amount) return [];
+    return [{
+      id: row.id,
+      ingredient_name: row.ingredient_name,
+      ingredient,
+      location: row.location,
+      expiry_date: row.expiry_date,
+      before: { amount: row.amount, unit: row.unit },
+      after: left.length > 0 ? measureAmount(left[0], options.system, ingredient, row.unit) : null,
+    }];
+  });
+}
+
+/**
+ * The pantry_items rows that undo a cooked meal's changes. Rows changed again
+ * since the meal was cooked are left alone, so undoing never overwrites a later
+ * edit.
+ */
+export function undoPantryChanges(
+  pantry: Pick<PantryRow, 'id' | 'amount' | 'unit'>[],
+  changes: PantryChange[],
+): (PantryRestock & { id: string })[] {
+  const current = new Map(pantry.map((row) => [row.id, row]));
+  const unchanged = (change: PantryChange) => {
+    const row = current.get(change.id);
+    if (change.after === null) return !row;
+    return !!row && row.amount === change.after.amount && row.unit === change.after.unit;
+  };
+
+  return changes.filter(unchanged).map((change) => ({
+    id: change.id,
+    ingredient_name: change.ingredient_name,
+    ingredient: change.ingredient,
+    amount: change.before.amount,
+    unit: change.before.unit,
+    location: change.location,
+    expiry_date: change.expiry_date,
+  }));
+}
@@ -0,0 +1,134 @@
+import { assertEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import {
+  cookedPantryChanges,
+  describeExpiry,
+  expiringPantryItems,
+  expiryStatus,
+  formatPantryAmount,
+  PantryRow,
+  pantryIngredient,
+  pantryLocation,
+  parsePantryQuantity,
+  restockPantry,
+  stepPantryAmount,
+  undoPantryChanges,
+} from './pantry.ts';
+
+const row = (changes: Partial<PantryRow>): PantryRow => ({
+  id: 'row-1',
+  ingredient_name: 'Milk',
+  ingredient: 'milk',
+  amount: null,
+  unit: null,
+  location: null,
+  expiry_date: null,
+  ...changes,
+});
+
+Deno.test("parsePantryQuantity reads an amount and its canonical unit", () => {
+  assertEquals(parsePantryQuantity('500 g'), { amount: 500, unit: 'g' });
+  assertEquals(parsePantryQuantity('1 1/2 cups'), { amount: 1.5, unit: 'cup' });
+  assertEquals(parsePantryQuantity('2'), { amount: 2, unit: null });
+  assertEquals(parsePantryQuantity('some'), { amount: null, unit: null });
+  assertEquals(parsePantryQuantity(''), { amount: null, unit: null });
+  assertEquals(parsePantryQuantity(null), { amount: null, unit: null });
+});
+
+Deno.test("pantryIngredient matches entries on the canonical name", () => {
+  assertEquals(pantryIngredient('Eggs'), pantryIngredient('egg'));
+  assertEquals(pantryIngredient('Scallions'), pantryIngredient('spring onion'));
+});
+
+Deno.test("pantryLocation falls back to where the aisle is usually kept", () => {
+  assertEquals(pantryLocation({ ingredient: 'milk', location: 'pantry' }), 'pantry');
+  assertEquals(pantryLocation({ ingredient: 'milk', location: null }), 'fridge');
+  assertEquals(pantryLocation({ ingredient: 'paper towel', location: 'garage' }), 'pantry');
+});
+
+Deno.test("formatPantryAmount writes what the pantry holds", () => {
+  assertEquals(formatPantryAmount({ amount: 500, unit: 'g' }), '500 g');
+  assertEquals(formatPantryAmount({ amount: 0.5, unit: 'cup' }), '1/2 cup');
+  assertEquals(formatPantryAmount({ amount: 3, unit: 'clove' }), '3 cloves');
+  assertEquals(formatPantryAmount({ amount: null, unit: null }), 'On hand');
+});
+
+Deno.test("stepPantryAmount lands on the unit's step", () => {
+  assertEquals(stepPantryAmount({ amount: 30, unit: 'g' }, 1), 50);
+  assertEquals(stepPantryAmount({ amount: 30, unit: 'g' }, -1), 0);
+  assertEquals(stepPantryAmount({ amount: 2, unit: null }, -1), 1);
+});
+
+Deno.test("restockPantry adds to existing rows and names new ones as the list reads", () => {
+  const pantry = [row({ amount: 250, unit: 'ml' })];
+  const restock = restockPantry(
+    pantry,
+    [
+      { ingredient: 'milk', text: '1 l milk', category: 'Dairy & Eggs' },
+      { ingredient: 'egg', text: '6 eggs', category: 'Dairy & Eggs' },
+    ],
+    { system: 'metric' },
+  );
+  assertEquals(restock.find((item) => item.id === 'row-1')?.amount, 1250);
+  const eggs = restock.find((item) => item.ingredient === 'egg');
+  assertEquals(eggs?.ingredient_name, 'eggs');
+  assertEquals(eggs?.amount, 6);
+});
+
+Deno.test("restockPantry gives fresh food a use-by date from its aisle", () => {
+  const [spinach] = restockPantry(
+    [],
+    [{ ingredient: 'spinach', text: '1 bag spinach', category: 'Produce' }],
+    { system: 'imperial', purchasedOn: '2025-10-01' },
+  );
+  assertEquals(spinach.location, 'fridge');
+  assertEquals(spinach.expiry_date, '2025-10-08');
+});
+
+Deno.test("cookedPantryChanges takes the scaled recipe out of the pantry", () => {
+  const pantry = [
+    row({ id: 'milk', amount: 1, unit: 'l' }),
+    row({ id: 'eggs', ingredient_name: 'Eggs', ingredient: 'egg', amount: 2, unit: null }),
+    row({ id: 'salt', ingredient_name: 'Salt', ingredient: 'salt' }),
+  ];
+  const changes = cookedPantryChanges(
+    pantry,
+    [{ ingredients: '1 cup milk\n3 eggs\n1 tsp salt', servings: 2 }],
+    { servings: 4, system: 'metric' },
+  );
+  assertEquals(changes.map(({ id, before, after }) => ({ id, before, after })), [
+    { id: 'milk', before: { amount: 1, unit: 'l' }, after: { amount: 0.53, unit: 'l' } },
+    { id: 'eggs', before: { amount: 2, unit: null }, after: null },
+  ]);
+});
+
+Deno.test("undoPantryChanges restores rows unless they changed again", () => {
+  const changes = cookedPantryChanges(
+    [row({ id: 'milk', amount: 500, unit: 'ml' }), row({ id: 'rice', ingredient_name: 'Rice', ingredient: 'rice', amount: 200, unit: 'g' })],
+    [{ ingredients: '100 ml milk\n200 g rice', servings: 4 }],
+    { servings: 4, system: 'metric' },
+  );
+  // The milk was topped up after cooking; the rice row was used up and deleted.
+  const undo = undoPantryChanges([{ id: 'milk', amount: 1000, unit: 'ml' }], changes);
+  assertEquals(undo.map(({ id, amount, unit }) => ({ id, amount, unit })), [{ id: 'rice', amount: 200, unit: 'g' }]);
+});
+
+Deno.test("expiry dates are described relative to today", () => {
+  const today = '2025-10-01';
+  assertEquals(expiryStatus('2025-09-30', today), 'expired');
+  assertEquals(expiryStatus('2025-10-04', today), 'soon');
+  assertEquals(expiryStatus('2025-10-05', today), 'fresh');
+  assertEquals(expiryStatus(null, today), null);
+  assertEquals(describeExpiry('2025-09-28', today), 'Expired 3 days ago');
+  assertEquals(describeExpiry('2025-10-01', today), 'Expires today');
+  assertEquals(describeExpiry('2025-10-02', today), 'Expires tomorrow');
+});
+
+Deno.test("expiringPantryItems lists items up to a date, soonest first", () => {
+  const items = [
+    row({ id: 'a', expiry_date: '2025-10-05' }),
+    row({ id: 'b', expiry_date: null }),
+    row({ id: 'c', expiry_date: '2025-09-29' }),
+    row({ id: 'd', expiry_date: '2025-10-09' }),
+  ];
+  assertEquals(expiringPantryItems(items, '2025-10-07').map((item) => item.id), ['c', 'a']);
+});
@@ -0,0 +1,74 @@
+// Plan window arithmetic shared by generate-meal-plan, send-weekly-plan and the web
+// app. Dates are YYYY-MM-DD strings in the user's own time zone, so a plan made on a
+// US evening starts on the user's today rather than on tomorrow in UTC.
+
+export const MIN_PLAN_DAYS = 3;
+export const MAX_PLAN_DAYS = 14;
+export const DEFAULT_PLAN_DAYS = 7;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The calendar date and hour at `now` in `timeZone`; unknown time zones fall back to UTC. */
+export function localDateTime(timeZone: string | null | undefined, now = new Date()): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')) };
+}
+
+/** Today's date in `timeZone`. */
+export const todayIn = (timeZone: string | null | undefined, now = new Date()) => localDateTime(timeZone, now).date;
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/** Whole days from `from` to `to`; negative when `to` is earlier. */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** "Monday" for a Monday date. */
+export const weekdayOf = (date: string) => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+/**
+ * Where a new plan starts by default: the next `startDay` on or after `today`,
+ * so a plan made on the user's generation day starts that day and one made
+ * mid-week covers the coming week. Any day is accepted when `startDay` isn't a
+ * weekday name.
+ */
+export function defaultPlanStart(today: string, startDay: string | null | undefined): string {
+  const target = WEEKDAYS.indexOf(startDay ?? '');
+  if (target === -1) return today;
+  const offset = (target - WEEKDAYS.indexOf(weekdayOf(today)) + 7) % 7;
+  return addDays(today, offset);
+}
+
+/** The `days` consecutive dates starting at `startDate`. */
+export function planDatesFrom(startDate: string, days: number): string[] {
+  return Array.from({ length: days }, (_, index) => addDays(startDate, index));
+}
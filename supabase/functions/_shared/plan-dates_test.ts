@@ -0,0 +1,46 @@
+import { assert, assertEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import { addDays, daysBetween, defaultPlanStart, isDateString, planDatesFrom, todayIn, weekdayOf } from './plan-dates.ts';
+
+Deno.test("addDays crosses month and year ends", () => {
+  assertEquals(addDays('2025-01-31', 1), '2025-02-01');
+  assertEquals(addDays('2024-12-31', 1), '2025-01-01');
+  assertEquals(addDays('2024-03-01', -1), '2024-02-29');
+});
+
+Deno.test("daysBetween is negative when the second date is earlier", () => {
+  assertEquals(daysBetween('2025-10-01', '2025-10-04'), 3);
+  assertEquals(daysBetween('2025-10-04', '2025-10-01'), -3);
+  // Daylight saving changes don't matter for calendar dates.
+  assertEquals(daysBetween('2025-03-08', '2025-03-10'), 2);
+});
+
+Deno.test("isDateString accepts only real YYYY-MM-DD dates", () => {
+  assert(isDateString('2025-10-01'));
+  assert(!isDateString('2025-02-30'));
+  assert(!isDateString('2025-10-1'));
+  assert(!isDateString('2025-10-01T00:00:00Z'));
+  assert(!isDateString(null));
+});
+
+Deno.test("todayIn reads the date in the user's time zone", () => {
+  const now = new Date('2025-10-01T02:00:00Z');
+  assertEquals(todayIn('America/New_York', now), '2025-09-30');
+  assertEquals(todayIn('Asia/Tokyo', now), '2025-10-01');
+  assertEquals(todayIn('Not/AZone', now), '2025-10-01');
+  assertEquals(todayIn(null, now), '2025-10-01');
+});
+
+Deno.test("defaultPlanStart picks the next start day on or after today", () => {
+  // 2025-10-01 is a Wednesday.
+  assertEquals(weekdayOf('2025-10-01'), 'Wednesday');
+  assertEquals(defaultPlanStart('2025-10-01', 'Wednesday'), '2025-10-01');
+  assertEquals(defaultPlanStart('2025-10-01', 'Monday'), '2025-10-06');
+  assertEquals(defaultPlanStart('2025-10-01', 'Thursday'), '2025-10-02');
+  assertEquals(defaultPlanStart('2025-10-01', null), '2025-10-01');
+  assertEquals(defaultPlanStart('2025-10-01', 'Someday'), '2025-10-01');
+});
+
+Deno.test("planDatesFrom lists consecutive dates", () => {
+  assertEquals(planDatesFrom('2025-12-30', 3), ['2025-12-30', '2025-12-31', '2026-01-01']);
+  assertEquals(planDatesFrom('2025-12-30', 0), []);
+});
@@ -0,0 +1,74 @@
+// Decides whether two recipes are the same dish, for generate-meal-plan (before
+// saving a new recipe) and the dedupe-recipes backfill job.
+import { normalizeIngredientText, singularize } from './ingredient-names.ts';
+
+/**
+ * Two recipes are the same dish when their ingredient sets overlap by at least
+ * `ingredientOverlap` AND either their normalized titles match or their
+ * embeddings have a cosine similarity of at least `embeddingSimilarity`.
+ * The ingredient check is always required, so two different dishes that happen
+ * to share a title are never merged.
+ */
+export const DEDUP_THRESHOLDS = {
+  ingredientOverlap: 0.6,
+  embeddingSimilarity: 0.92,
+};
+
+export interface DedupRecipe {
+  title: string;
+  ingredients: string[];
+}
+
+const TITLE_STOP_WORDS = new Set(['with', 'and', 'the', 'a', 'an', 'in', 'of', 'on', 'style', 'easy', 'simple', 'quick']);
+
+// Words in an ingredient line that describe amount or preparation rather than the ingredient.
+const INGREDIENT_NOISE_WORDS = new Set([
+  'cup', 'tbsp', 'tablespoon', 'tsp', 'teaspoon', 'oz', 'ounce', 'lb', 'pound', 'g', 'gram', 'kg', 'ml', 'l', 'liter',
+  'pinch', 'dash', 'handful', 'can', 'jar', 'package', 'bunch', 'clove', 'slice', 'piece', 'sprig', 'stalk', 'head',
+  'large', 'medium', 'small', 'fresh', 'dried', 'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded',
+  'crushed', 'ground', 'finely', 'roughly', 'thinly', 'peeled', 'boneless', 'skinless', 'bone-in', 'to', 'taste',
+  'of', 'for', 'serving', 'optional', 'about', 'plus', 'more', 'extra', 'a', 'an', 'the', 'and', 'or',
+]);
+
+/** Word order, punctuation and plurals don't matter: "Garlic-Lemon Chickens" → "chicken garlic lemon". */
+export function normalizeRecipeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !TITLE_STOP_WORDS.has(word))
+    .map(singularize)
+    .sort()
+    .join(' ');
+}
+
+/** The ingredient a line is about, without amounts or preparation: "2 cloves garlic, minced" → "garlic". */
+export function ingredientCoreName(ingredientLine: string): string {
+  // Preparation notes usually follow a comma or sit in parentheses.
+  const [namePart] = ingredientLine.replace(/\([^)]*\)/g, ' ').split(',');
+  return normalizeIngredientText(namePart)
+    .split(' ')
+    .filter((word) => word && !INGREDIENT_NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+/** Jaccard overlap of the two recipes' ingredient names, from 0 (nothing shared) to 1 (same set). */
+export function ingredientOverlap(a: string[], b: string[]): number {
+  const namesA = new Set(a.map(ingredientCoreName).filter(Boolean));
+  const namesB = new Set(b.map(ingredientCoreName).filter(Boolean));
+  if (namesA.size === 0 || namesB.size === 0) return 0;
+  const shared = [...namesA].filter((name) => namesB.has(name)).length;
+  return shared / new Set([...namesA, ...namesB]).size;
+}
+
+/**
+ * True when `candidate` is the same dish as `recipe`. `embeddingSimilarity` is
+ * the cosine similarity between the two recipes' embeddings, when known.
+ */
+export function isDuplicateRecipe(recipe: DedupRecipe, candidate: DedupRecipe, embeddingSimilarity?: number): boolean {
+  if (ingredientOverlap(recipe.ingredients, candidate.ingredients) < DEDUP_THRESHOLDS.ingredientOverlap) {
+    return false;
+  }
+  return normalizeRecipeTitle(recipe.title) === normalizeRecipeTitle(candidate.title)
+    || (embeddingSimilarity ?? 0) >= DEDUP_THRESHOLDS.embeddingSimilarity;
+}
@@ -0,0 +1,148 @@
+// Structured ingredient lines shared by generate-meal-plan, generate-pdf and the web
+// app. Recipes store one recipe_ingredients row per line; parseIngredientLine splits
+// "2 cloves garlic, minced (optional)" into its quantity, unit, canonical ingredient
+// and preparation note, and keeps the original text for display.
+
+import { normalizeIngredientText } from './ingredient-names.ts';
+
+/** One line of a recipe's ingredient list, as stored in recipe_ingredients. */
+export interface RecipeIngredient {
+  position: number;
+  // The low end of a range ("2-3 cloves" is 2); null when the line has no amount ("salt to taste").
+  quantity: number | null;
+  unit: string | null;
+  ingredient: string;
+  preparation: string | null;
+  is_optional: boolean;
+  original_text: string;
+}
+
+// Every spelling of a unit mapped to the one stored in recipe_ingredients.unit.
+const UNIT_ALIASES: Record<string, string> = {
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  pint: 'pint', pints: 'pint', quart: 'quart', quarts: 'quart', gallon: 'gallon', gallons: 'gallon',
+  pinch: 'pinch', pinches: 'pinch', dash: 'dash', dashes: 'dash',
+  clove: 'clove', cloves: 'clove', can: 'can', cans: 'can', jar: 'jar', jars: 'jar',
+  slice: 'slice', slices: 'slice', stalk: 'stalk', stalks: 'stalk', head: 'head', heads: 'head',
+  bunch: 'bunch', bunches: 'bunch', sprig: 'sprig', sprigs: 'sprig', package: 'package', packages: 'package',
+};
+
+// Size words that don't change what is bought ("2 large eggs" and "1 egg" are both eggs).
+const SIZE_WORDS = /\b(?:extra-large|large|medium|small)\b/gi;
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 1 / 4, '½': 1 / 2, '¾': 3 / 4, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+const QUANTITY = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?(?:\s?[¼½¾⅓⅔⅛⅜⅝⅞])?|[¼½¾⅓⅔⅛⅜⅝⅞])`;
+
+// An optional list bullet, a quantity or range ("2", "1 1/2", "½", "2-3"), then the rest of the line.
+const INGREDIENT_LINE = new RegExp(
+  String.raw`^(\s*(?:[-*•]\s*)?)(${QUANTITY})(?:\s*(?:-|–|to)\s*(${QUANTITY}))?(?=[\s(a-zA-Z]|$)(.*)$`,
+);
+
+const LIST_BULLET = /^\s*[-*•]\s*/;
+
+/** The canonical unit for a word such as "Tablespoons" or "lbs."; null when it isn't a unit. */
+export function canonicalUnit(word: string | null | undefined): string | null {
+  return UNIT_ALIASES[(word ?? '').toLowerCase().replace(/\.$/, '')] ?? null;
+}
+
+/** The numeric value of "1 1/2", "3/4", "0.5", "2½" or "½"; NaN for anything else. */
+export function parseQuantity(text: string): number {
+  const trimmed = text.trim();
+  const fraction = trimmed.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[1] ?? 0) + Number(fraction[2]) / Number(fraction[3]);
+  }
+  const unicode = trimmed.match(/^(\d+(?:\.\d+)?)?\s?([¼½¾⅓⅔⅛⅜⅝⅞])$/);
+  if (unicode) {
+    return Number(unicode[1] ?? 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+  return /^\d+(?:\.\d+)?$/.test(trimmed) ? Number(trimmed) : NaN;
+}
+
+/** Splits the leading quantity (or range) off an ingredient line; null when the line doesn't start with one. */
+export function splitQuantity(line: string): { prefix: string; from: string; to: string | null; rest: string } | null {
+  const match = line.match(INGREDIENT_LINE);
+  if (!match) return null;
+  const [, prefix, from, to, rest] = match;
+  return { prefix, from, to: to ?? null, rest };
+}
+
+/**
+ * Splits one ingredient line into its parts. Notes in parentheses or after the
+ * first comma become the preparation; "optional" sets the flag and is dropped
+ * from the name. The ingredient is normalized (singular, known synonyms) so the
+ * same thing is named the same way across recipes.
+ */
+export function parseIngredientLine(line: string, position = 0): RecipeIngredient {
+  const originalText = line.replace(LIST_BULLET, '').trim();
+  const split = splitQuantity(originalText);
+  const quantity = split ? parseQuantity(split.from) : NaN;
+  let rest = split ? split.rest : originalText;
+
+  const isOptional = /\boptional\b/i.test(rest);
+  rest = rest.replace(/\(\s*optional\s*\)|,?\s*\boptional\b:?/gi, ' ');
+
+  const notes: string[] = [];
+  rest = rest.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return ' ';
+  });
+
+  const [word] = rest.trim().split(/\s+/);
+  const unit = canonicalUnit(word);
+  if (unit) rest = rest.trim().slice(word.length);
+  rest = rest.trim().replace(/^of\s+/i, '');
+
+  const comma = rest.indexOf(',');
+  if (comma !== -1) {
+    notes.unshift(rest.slice(comma + 1).trim());
+    rest = rest.slice(0, comma);
+  }
+  if (/\bto taste\b/i.test(rest)) {
+    notes.push('to taste');
+    rest = rest.replace(/\bto taste\b/gi, ' ');
+  }
+
+  const ingredient = normalizeIngredientText(rest.replace(SIZE_WORDS, ' ')) || normalizeIngredientText(originalText) || originalText.toLowerCase();
+  const preparation = notes.filter(Boolean).join(', ');
+
+  return {
+    position,
+    quantity: Number.isNaN(quantity) ? null : quantity,
+    unit,
+    ingredient,
+    preparation: preparation || null,
+    is_optional: isOptional,
+    original_text: originalText,
+  };
+}
+
+/** Parses a newline-separated ingredient list (or its lines), skipping blank lines. */
+export function parseIngredientList(ingredients: string | string[]): RecipeIngredient[] {
+  const lines = Array.isArray(ingredients) ? ingredients : ingredients.split('\n');
+  return lines
+    .filter((line) => line.replace(LIST_BULLET, '').trim() !== '')
+    .map((line, position) => parseIngredientLine(line, position));
+}
+
+/**
+ * A recipe's ingredients in list order: its recipe_ingredients rows when they
+ * were loaded, otherwise parsed from the ingredients text.
+ */
+export function recipeIngredients(recipe: { ingredients?: string | null; recipe_ingredients?: RecipeIngredient[] | null }): RecipeIngredient[] {
+  if (recipe.recipe_ingredients && recipe.recipe_ingredients.length > 0) {
+    return [...recipe.recipe_ingredients].sort((a, b) => a.position - b.position);
+  }
+  return parseIngredientList(recipe.ingredients ?? '');
+}
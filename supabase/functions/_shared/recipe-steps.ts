@@ -0,0 +1,147 @@
+// Structured recipe steps shared by generate-meal-plan, generate-pdf, the
+// backfill-recipe-steps job and the web app. Recipes store one recipe_steps row per
+// step with an optional timer, temperature and the ingredient lines it uses.
+// parseRecipeSteps turns the older free-text recipes into the same shape.
+
+import { mentionsIngredient } from './ingredient-names.ts';
+import { RecipeIngredient, recipeIngredients } from './recipe-ingredients.ts';
+
+export type TemperatureUnit = 'F' | 'C';
+
+/** One step of a recipe, as stored in recipe_steps. */
+export interface RecipeStep {
+  position: number;
+  instruction: string;
+  duration_minutes: number | null;
+  temperature: number | null;
+  temperature_unit: TemperatureUnit | null;
+  // Positions of the recipe_ingredients rows this step uses.
+  ingredient_positions: number[];
+}
+
+// "1. ", "2) " or "Step 3: " at the start of a step.
+const STEP_NUMBER = /^\s*(?:step\s*)?(\d+)\s*[.):]\s*/i;
+
+const DURATION = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(hours?|hrs?|minutes?|mins?)\b/i;
+const TEMPERATURE = /(\d{2,3})\s*(?:(?:°|º|degrees?)\s*(fahrenheit|celsius|f|c)?\b|(f|c)\b)/i;
+const OVEN_TEMPERATURE = /\boven to (\d{3})\b/i;
+
+// Oven temperatures above this are Fahrenheit when the recipe doesn't say.
+const MAX_CELSIUS_OVEN = 260;
+
+/** Drops a leading "1." style number, but only when it is the step's own number. */
+function stripStepNumber(text: string, expected: number): string {
+  const match = text.match(STEP_NUMBER);
+  return match && Number(match[1]) === expected ? text.slice(match[0].length) : text;
+}
+
+/**
+ * Splits "1. Preheat to 400. 2. Bake 20 minutes" at the next expected step
+ * number only, so "400." or "2 minutes" inside a step never starts a new one.
+ * Text that doesn't open with "1." is a single step.
+ */
+function splitNumberedParagraph(paragraph: string): string[] {
+  if (!STEP_NUMBER.test(paragraph) || paragraph.match(STEP_NUMBER)?.[1] !== '1') return [paragraph];
+
+  const steps: string[] = [];
+  let rest = stripStepNumber(paragraph, 1);
+  for (let next = 2; ; next++) {
+    const marker = new RegExp(String.raw`(?:^|\s)(?:step\s*)?${next}\s*[.):]\s+(?=\S)`, 'i').exec(rest);
+    if (!marker) break;
+    steps.push(rest.slice(0, marker.index));
+    rest = rest.slice(marker.index + marker[0].length);
+  }
+  return [...steps, rest];
+}
+
+/** The step's first timed instruction in minutes ("8-10 minutes" is 8); null when it isn't timed. */
+export function parseDuration(instruction: string): number | null {
+  const match = instruction.match(DURATION);
+  if (!match) return null;
+  const minutes = Number(match[1]) * (/^h/i.test(match[2]) ? 60 : 1);
+  return minutes > 0 ? Math.round(minutes) : null;
+}
+
+/** The oven or pan temperature a step names; the unit is guessed from the number when it's missing. */
+export function parseTemperature(instruction: string): { temperature: number; temperature_unit: TemperatureUnit } | null {
+  const match = instruction.match(TEMPERATURE) ?? instruction.match(OVEN_TEMPERATURE);
+  if (!match) return null;
+  const temperature = Number(match[1]);
+  const unit = (match[2] ?? match[3] ?? '').charAt(0).toUpperCase();
+  return {
+    temperature,
+    temperature_unit: unit === 'F' || unit === 'C' ? unit : temperature > MAX_CELSIUS_OVEN ? 'F' : 'C',
+  };
+}
+
+/**
+ * The ingredient lines a step mentions, by their canonical name or, for names of
+ * more than one word, by the last word ("chicken thigh" is found in "sear the thighs").
+ */
+function referencedIngredients(instruction: string, ingredients: RecipeIngredient[]): number[] {
+  return ingredients
+    .filter(({ ingredient }) => {
+      const headNoun = ingredient.split(' ').pop() ?? '';
+      return mentionsIngredient(instruction, ingredient) || (headNoun.length > 3 && headNoun !== ingredient && mentionsIngredient(instruction, headNoun));
+    })
+    .map(({ position }) => position);
+}
+
+/** Splits free-text recipe instructions into steps, reading timers, temperatures and ingredient references from each. */
+export function parseRecipeSteps(text: string, ingredients: RecipeIngredient[] = []): RecipeStep[] {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  const instructions = lines.length === 1
+    ? splitNumberedParagraph(lines[0])
+    : lines.map((line, index) => stripStepNumber(line, index + 1));
+
+  return instructions
+    .map((instruction) => instruction.trim())
+    .filter(Boolean)
+    .map((instruction, position) => {
+      const temperature = parseTemperature(instruction);
+      return {
+        position,
+        instruction,
+        duration_minutes: parseDuration(instruction),
+        temperature: temperature?.temperature ?? null,
+        temperature_unit: temperature?.temperature_unit ?? null,
+        ingredient_positions: referencedIngredients(instruction, ingredients),
+      };
+    });
+}
+
+/** The numbered text kept in recipes.recipe for anything that still reads it. */
+export function formatStepsText(steps: Pick<RecipeStep, 'instruction'>[]): string {
+  return steps.map((step, index) => `${index + 1}. ${step.instruction}`).join('\n');
+}
+
+/** "45 min", "1 hr 30 min". */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours > 0 ? `${hours} hr` : '', rest > 0 ? `${rest} min` : ''].filter(Boolean).join(' ');
+}
+
+/** The timer and temperature of a step as short labels, e.g. ["20 min", "400°F"]. */
+export function stepDetails(step: Pick<RecipeStep, 'duration_minutes' | 'temperature' | 'temperature_unit'>): string[] {
+  return [
+    step.duration_minutes ? formatDuration(step.duration_minutes) : '',
+    step.temperature ? `${step.temperature}°${step.temperature_unit ?? ''}` : '',
+  ].filter(Boolean);
+}
+
+/**
+ * A recipe's steps in order: its recipe_steps rows when they were loaded,
+ * otherwise parsed from the recipe text.
+ */
+export function recipeSteps(recipe: {
+  recipe?: string | null;
+  recipe_steps?: RecipeStep[] | null;
+  ingredients?: string | null;
+  recipe_ingredients?: RecipeIngredient[] | null;
+}): RecipeStep[] {
+  if (recipe.recipe_steps && recipe.recipe_steps.length > 0) {
+    return [...recipe.recipe_steps].sort((a, b) => a.position - b.position);
+  }
+  return parseRecipeSteps(recipe.recipe ?? '', recipeIngredients(recipe));
+}
@@ -0,0 +1,128 @@
+// Recipe scaling shared by generate-pdf and the web app. Every recipe records the
+// number of servings its quantities were written for; scaleRecipe rewrites the
+// leading quantity of each ingredient line for another household size and rounds
+// it to something a cook can measure.
+
+import { canonicalUnit, parseQuantity, RecipeIngredient, splitQuantity } from './recipe-ingredients.ts';
+
+// Recipes saved before servings were recorded are assumed to serve this many.
+export const DEFAULT_SERVINGS = 4;
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 24;
+
+/** "2 people", "4" and "Family (4+)" all become a number of servings; null when there's no number. */
+export function parseServings(value: string | number | null | undefined): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 1 ? Math.round(value) : null;
+  const match = value?.match(/\d+/);
+  return match && Number(match[0]) >= 1 ? Number(match[0]) : null;
+}
+
+// Units weighed or poured in metric, rounded to whole numbers rather than fractions.
+const SMALL_METRIC_UNITS = new Set(['g', 'ml']);
+const LARGE_METRIC_UNITS = new Set(['kg', 'l']);
+
+// Spoon, cup and imperial weight measures; any other quantity counts whole things (eggs, cans, cloves).
+const MEASURED_UNITS = new Set(['tsp', 'tbsp', 'cup', 'oz', 'lb', 'pint', 'quart', 'gallon', 'pinch', 'dash']);
+
+// Units and countable ingredients whose name changes with the amount ("1 clove", "2 cloves").
+const PLURALS: Record<string, string> = {
+  cup: 'cups', teaspoon: 'teaspoons', tablespoon: 'tablespoons', ounce: 'ounces', pound: 'pounds', pint: 'pints',
+  quart: 'quarts', gallon: 'gallons', pinch: 'pinches', dash: 'dashes', clove: 'cloves', can: 'cans', jar: 'jars',
+  slice: 'slices', stalk: 'stalks', head: 'heads', bunch: 'bunches', sprig: 'sprigs', fillet: 'fillets',
+  package: 'packages', egg: 'eggs', lemon: 'lemons', lime: 'limes', onion: 'onions', tomato: 'tomatoes',
+  potato: 'potatoes', carrot: 'carrots', apple: 'apples', banana: 'bananas',
+};
+const SINGULARS = Object.fromEntries(Object.entries(PLURALS).map(([singular, plural]) => [plural, singular]));
+
+// Kitchen fractions a quantity is rounded to, as [value, label].
+const FRACTIONS: [number, string][] = [
+  [0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, ''],
+];
+
+/**
+ * Writes a quantity the way a recipe would: "1 1/2", "2/3", "12". Amounts under
+ * ten are rounded to the nearest kitchen fraction and never to nothing; larger
+ * ones to whole numbers.
+ */
+export function formatQuantity(value: number): string {
+  if (value >= 10) return String(Math.round(value));
+
+  let whole = Math.floor(value);
+  const [nearest, label] = FRACTIONS.reduce((best, candidate) =>
+    Math.abs(value - whole - candidate[0]) < Math.abs(value - whole - best[0]) ? candidate : best);
+  if (nearest === 1) whole += 1;
+  if (whole === 0 && !label) return '1/8';
+  return [whole > 0 ? String(whole) : '', label].filter(Boolean).join(' ');
+}
+
+function formatScaled(original: number, scaled: number, unit: string | null): string {
+  if (unit && SMALL_METRIC_UNITS.has(unit)) {
+    return String(scaled >= 50 ? Math.round(scaled / 5) * 5 : Math.max(1, Math.round(scaled)));
+  }
+  if (unit && LARGE_METRIC_UNITS.has(unit)) {
+    return String(Math.max(0.1, Math.round(scaled * 10) / 10));
+  }
+  // Whole things stay whole: two eggs for four become one egg for two, not 1/2 egg for one.
+  if (!(unit && MEASURED_UNITS.has(unit)) && Number.isInteger(original)) {
+    return String(Math.max(1, Math.round(scaled)));
+  }
+  return formatQuantity(scaled);
+}
+
+/** The ingredient line with its leading quantity (or range) multiplied by `factor`; lines without one are unchanged. */
+export function scaleIngredientLine(line: string, factor: number): string {
+  const split = splitQuantity(line);
+  if (!split || factor === 1) return line;
+
+  const { prefix, from, to, rest } = split;
+  const [word] = rest.trim().split(/[\s(]+/);
+  const unit = canonicalUnit(word);
+  const scale = (quantity: string) => {
+    const value = parseQuantity(quantity);
+    return Number.isNaN(value) ? quantity : formatScaled(value, value * factor, unit);
+  };
+
+  const scaledFrom = scale(from);
+  const scaledTo = to ? scale(to) : null;
+  const amount = scaledTo ? `${scaledFrom}${/\s/.test(scaledFrom + scaledTo) ? ' to ' : '-'}${scaledTo}` : scaledFrom;
+
+  // "1 cup" becomes "2 cups" and "3 cloves" becomes "1 clove".
+  const plural = parseQuantity(scaledTo ?? scaledFrom) > 1;
+  const renamed = plural ? PLURALS[word] : SINGULARS[word];
+  return `${prefix}${amount}${renamed ? rest.replace(word, renamed) : rest}`;
+}
+
+/** The ingredient row for `factor` times the amount: its quantity and the text shown for it. */
+export function scaleIngredient<T extends Pick<RecipeIngredient, 'quantity' | 'original_text'>>(ingredient: T, factor: number): T {
+  if (factor === 1) return ingredient;
+  return {
+    ...ingredient,
+    quantity: ingredient.quantity === null ? null : ingredient.quantity * factor,
+    original_text: scaleIngredientLine(ingredient.original_text, factor),
+  };
+}
+
+/** Scales every line of a newline-separated ingredient list. */
+export function scaleIngredients(ingredients: string, factor: number): string {
+  return ingredients.split('\n').map((line) => scaleIngredientLine(line, factor)).join('\n');
+}
+
+/**
+ * The recipe with its ingredients (text and recipe_ingredients rows) rewritten to
+ * serve `servings`, and `servings` set to match. Recipes without a base count are
+ * taken to serve DEFAULT_SERVINGS.
+ */
+export function scaleRecipe<T extends { ingredients?: string; recipe_ingredients?: RecipeIngredient[] | null; servings?: number | null }>(
+  recipe: T,
+  servings: number,
+) {
+  const base = parseServings(recipe.servings) ?? DEFAULT_SERVINGS;
+  if (base === servings) return { ...recipe, servings };
+  const factor = servings / base;
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients ? scaleIngredients(recipe.ingredients, factor) : recipe.ingredients,
+    recipe_ingredients: recipe.recipe_ingredients?.map((ingredient) => scaleIngredient(ingredient, factor)) ?? recipe.recipe_ingredients,
+    servings,
+  };
+}
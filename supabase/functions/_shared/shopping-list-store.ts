@@ -0,0 +1,119 @@
+// Loading and saving shopping lists for the edge functions. Unlike the other files
+// in _shared this one talks to the database, so only Deno loads it; the web app
+// builds the same rows with shoppingListRow from shopping-list.ts.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { isAisle } from './aisles.ts';
+import { DEFAULT_SERVINGS, parseServings } from './servings.ts';
+import {
+  groupShoppingListItems,
+  PantryEntry,
+  PlanMeal,
+  planShoppingList,
+  readShoppingList,
+  ShoppingListEntry,
+  ShoppingListOptions,
+  shoppingListRow,
+  ShoppingListSection,
+} from './shopping-list.ts';
+
+export interface PlanWindow {
+  start: string;
+  end: string;
+}
+
+export interface SavedShoppingList {
+  window: PlanWindow;
+  sections: ShoppingListSection[];
+  budget: string | null;
+}
+
+/** The household size, units and aisle choices a user's lists are built with. */
+async function loadShoppingListOptions(client: SupabaseClient, userId: string): Promise<ShoppingListOptions> {
+  const [{ data: profile, error: profileError }, { data: aisles, error: aislesError }] = await Promise.all([
+    client.from('profiles').select('serving_size, measurement_system, aisle_order').eq('user_id', userId).maybeSingle(),
+    client.from('ingredient_aisles').select('ingredient, aisle').eq('user_id', userId),
+  ]);
+  if (profileError) throw new Error(`Failed to load shopping list settings: ${profileError.message}`);
+  if (aislesError) throw new Error(`Failed to load ingredient aisles: ${aislesError.message}`);
+
+  return {
+    servings: parseServings(profile?.serving_size) ?? DEFAULT_SERVINGS,
+    system: profile?.measurement_system === 'metric' ? 'metric' : 'imperial',
+    aisles: {
+      overrides: Object.fromEntries((aisles ?? []).filter((row) => isAisle(row.aisle)).map((row) => [row.ingredient, row.aisle])),
+      order: profile?.aisle_order ?? [],
+    },
+  };
+}
+
+/**
+ * The saved list whose plan window contains `date`, if there is one. Once its
+ * lines are in shopping_list_items it is what is still to buy there: the user's
+ * edits and own lines included, ticked and deleted lines left out.
+ */
+export async function findShoppingList(client: SupabaseClient, userId: string, date: string): Promise<SavedShoppingList | null> {
+  const { data, error } = await client
+    .from('shopping_lists')
+    .select('week_start_date, week_end_date, shopping_list, budget, shopping_list_items(ingredient, text, category, is_checked, is_removed)')
+    .eq('user_id', userId)
+    .lte('week_start_date', date)
+    .gte('week_end_date', date)
+    .order('week_start_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load shopping list: ${error.message}`);
+  if (!data) return null;
+
+  const sections = readShoppingList(data.shopping_list);
+  const items = (data.shopping_list_items ?? []) as Omit<ShoppingListEntry, 'id' | 'is_edited'>[];
+  return {
+    window: { start: data.week_start_date, end: data.week_end_date },
+    sections: items.length === 0 ? sections : groupShoppingListItems(
+      items.filter((item) => !item.is_checked),
+      sections.map((section) => section.category),
+    ).map(({ category, items }) => ({
+      category,
+      items: items.map((item) => ({ ingredient: item.ingredient ?? item.text, text: item.text })),
+    })),
+    budget: data.budget,
+  };
+}
+
+/**
+ * Rebuilds the list for the meals planned from `from` (the window start by
+ * default) to the end of the window against the current pantry, and saves it
+ * as the window's list.
+ */
+export async function refreshShoppingList(
+  client: SupabaseClient,
+  userId: string,
+  window: PlanWindow,
+  from = window.start,
+): Promise<ShoppingListSection[]> {
+  const [options, { data: meals, error: mealsError }, { data: pantry, error: pantryError }] = await Promise.all([
+    loadShoppingListOptions(client, userId),
+    client
+      .from('user_meal_history')
+      .select(`
+        main_dish:recipes!main_dish_recipe_id(ingredients, servings, recipe_ingredients(*)),
+        side_dish:recipes!side_dish_recipe_id(ingredients, servings, recipe_ingredients(*))
+      `)
+      .eq('user_id', userId)
+      .gte('meal_date', from)
+      .lte('meal_date', window.end),
+    client.from('pantry_items').select('ingredient_name, ingredient, amount, unit').eq('user_id', userId),
+  ]);
+  if (mealsError) throw new Error(`Failed to load the plan for the shopping list: ${mealsError.message}`);
+  if (pantryError) throw new Error(`Failed to load pantry items: ${pantryError.message}`);
+
+  const pantryItems = (pantry ?? []) as PantryEntry[];
+  const sections = planShoppingList((meals ?? []) as unknown as PlanMeal[], pantryItems, options);
+
+  const { error: saveError } = await client
+    .from('shopping_lists')
+    .upsert(shoppingListRow(userId, window, sections, pantryItems, options), { onConflict: 'user_id,week_start_date' });
+  if (saveError) throw new Error(`Failed to save shopping list: ${saveError.message}`);
+
+  return sections;
+}
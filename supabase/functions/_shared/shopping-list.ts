@@ -0,0 +1,389 @@
+// The shopping-list engine shared by the web app, generate-meal-plan, generate-pdf
+// and send-weekly-plan. It totals a plan's ingredients across units (volume, weight
+// and counts, with densities for common ingredients), takes away the pantry and
+// groups what is left by aisle. Lists are saved to shopping_lists per plan window
+// with the pantry they were computed against, and each line is mirrored into
+// shopping_list_items where it can be ticked, edited or removed.
+
+import { categorizeIngredient, isAisle, orderAisles } from './aisles.ts';
+import { pluralize } from './ingredient-names.ts';
+import { canonicalUnit, parseIngredientLine, RecipeIngredient, recipeIngredients } from './recipe-ingredients.ts';
+import { formatQuantity, scaleRecipe } from './servings.ts';
+
+export type MeasurementSystem = 'imperial' | 'metric';
+
+export const DEFAULT_MEASUREMENT_SYSTEM: MeasurementSystem = 'imperial';
+
+// Countries that shop in cups, ounces and pounds; everyone else gets grams and millilitres.
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+/** The system a new user probably shops in, from a locale such as "en-US". */
+export function defaultMeasurementSystem(locale: string): MeasurementSystem {
+  const region = locale.split(/[-_]/)[1]?.toUpperCase();
+  return region && !IMPERIAL_REGIONS.has(region) ? 'metric' : DEFAULT_MEASUREMENT_SYSTEM;
+}
+
+type Dimension = 'volume' | 'weight' | 'count';
+
+/**
+ * An amount in its dimension's base unit: millilitres for volume, grams for
+ * weight, and for counts the number of `unit` (null for "2 eggs"). Counts only
+ * combine with the same unit; a clove of garlic is not a head of garlic.
+ */
+export interface Measure {
+  dimension: Dimension;
+  amount: number;
+  unit: string | null;
+}
+
+const VOLUME_ML: Record<string, number> = {
+  ml: 1, l: 1000, tsp: 4.929, tbsp: 14.787, cup: 236.588, pint: 473.176, quart: 946.353, gallon: 3785.41,
+  pinch: 0.31, dash: 0.62,
+};
+
+const WEIGHT_G: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+// Grams per millilitre, so a cup of flour and 200 g of flour can be added up.
+// Keys are normalized ingredient names; "unsalted butter" finds "butter".
+const DENSITIES: Record<string, number> = {
+  'water': 1, 'milk': 1.03, 'buttermilk': 1.03, 'heavy cream': 1.01, 'sour cream': 1.01, 'yogurt': 1.03,
+  'butter': 0.911, 'oil': 0.92, 'olive oil': 0.91, 'honey': 1.42, 'maple syrup': 1.32, 'soy sauce': 1.15,
+  'vinegar': 1.01, 'broth': 1, 'stock': 1, 'coconut milk': 0.98, 'peanut butter': 1.08,
+  'all-purpose flour': 0.53, 'flour': 0.53, 'sugar': 0.85, 'brown sugar': 0.93, 'powdered sugar': 0.56,
+  'cornstarch': 0.54, 'cocoa powder': 0.42, 'salt': 1.2, 'baking soda': 0.92, 'baking powder': 0.9,
+  'rice': 0.85, 'oat': 0.41, 'breadcrumb': 0.45, 'parmesan': 0.42, 'cheddar': 0.45, 'mozzarella': 0.45,
+  'cheese': 0.45, 'lentil': 0.8, 'quinoa': 0.72, 'chickpea': 0.66, 'black bean': 0.7, 'pea': 0.6,
+};
+
+// Dry goods and fats that metric kitchens weigh rather than measure by volume.
+const WEIGHED_INGREDIENTS = new Set([
+  'butter', 'all-purpose flour', 'flour', 'sugar', 'brown sugar', 'powdered sugar', 'cornstarch', 'cocoa powder',
+  'rice', 'oat', 'breadcrumb', 'parmesan', 'cheddar', 'mozzarella', 'cheese', 'lentil', 'quinoa', 'chickpea',
+  'black bean', 'pea', 'peanut butter',
+]);
+
+// Units written the same for one or many ("2 tbsp", "2 oz").
+const ABBREVIATED_UNITS = new Set(['tsp', 'tbsp', 'oz', 'lb', 'g', 'kg', 'ml', 'l']);
+
+// The longest known name the ingredient is, or ends with.
+const knownName = (ingredient: string, names: string[]) =>
+  names.filter((name) => ingredient === name || ingredient.endsWith(` ${name}`)).sort((a, b) => b.length - a.length)[0];
+
+function densityOf(ingredient: string): number | null {
+  const match = knownName(ingredient, Object.keys(DENSITIES));
+  return match ? DENSITIES[match] : null;
+}
+
+/** `quantity` of `unit` (any spelling) in its dimension's base unit. */
+export function toMeasure(quantity: number, unit: string | null): Measure {
+  const canonical = canonicalUnit(unit) ?? unit;
+  if (canonical && VOLUME_ML[canonical]) return { dimension: 'volume', amount: quantity * VOLUME_ML[canonical], unit: 'ml' };
+  if (canonical && WEIGHT_G[canonical]) return { dimension: 'weight', amount: quantity * WEIGHT_G[canonical], unit: 'g' };
+  return { dimension: 'count', amount: quantity, unit: canonical };
+}
+
+/**
+ * The measure's amount in the base unit of `target`'s dimension; null when
+ * they can't be compared (different count units, or volume and weight of an
+ * ingredient without a known density).
+ */
+function amountIn(measure: Measure, target: Measure, ingredient: string): number | null {
+  if (measure.dimension === target.dimension) {
+    return measure.dimension !== 'count' || measure.unit === target.unit ? measure.amount : null;
+  }
+  const density = densityOf(ingredient);
+  if (!density) return null;
+  if (measure.dimension === 'volume' && target.dimension === 'weight') return measure.amount * density;
+  if (measure.dimension === 'weight' && target.dimension === 'volume') return measure.amount / density;
+  return null;
+}
+
+/** Converts between any two units, e.g. 8 tbsp to 0.5 cup, or 1 cup of flour to 125 g; null when it can't. */
+export function convertQuantity(quantity: number, from: string | null, to: string | null, ingredient = ''): number | null {
+  const target = toMeasure(1, to);
+  const amount = amountIn(toMeasure(quantity, from), target, ingredient);
+  return amount === null ? null : amount / target.amount;
+}
+
+/** Adds `measure` into the list, merging it with the first measure it can be converted to. */
+export function addMeasure(measures: Measure[], measure: Measure, ingredient: string): Measure[] {
+  const index = measures.findIndex((existing) => amountIn(measure, existing, ingredient) !== null);
+  if (index === -1) return [...measures, measure];
+  return measures.map((existing, i) =>
+    i === index ? { ...existing, amount: existing.amount + amountIn(measure, existing, ingredient)! } : existing);
+}
+
+/** What is left of `measures` after using up `available`; measures it can't be compared with are untouched. */
+export function subtractMeasure(measures: Measure[], available: Measure, ingredient: string): Measure[] {
+  let remaining = available;
+  return measures.flatMap((measure) => {
+    const have = amountIn(remaining, measure, ingredient);
+    if (have === null || remaining.amount <= 0) return [measure];
+    const used = Math.min(have, measure.amount);
+    remaining = { ...remaining, amount: remaining.amount * (1 - used / have) };
+    return measure.amount - used > 1e-9 ? [{ ...measure, amount: measure.amount - used }] : [];
+  });
+}
+
+// The unit an amount in millilitres or grams reads best in, largest first.
+const DISPLAY_UNITS: Record<MeasurementSystem, Record<'volume' | 'weight', [string, number][]>> = {
+  imperial: {
+    volume: [['quart', 4 * VOLUME_ML.quart], ['cup', VOLUME_ML.cup / 4], ['tbsp', VOLUME_ML.tbsp], ['tsp', 0]],
+    weight: [['lb', WEIGHT_G.lb], ['oz', 0]],
+  },
+  metric: {
+    volume: [['l', VOLUME_ML.l], ['ml', 0]],
+    weight: [['kg', WEIGHT_G.kg], ['g', 0]],
+  },
+};
+
+/** "cup" or "cups" for the amount; abbreviations are the same either way. */
+export function unitLabel(unit: string, amount: number) {
+  if (ABBREVIATED_UNITS.has(unit) || amount <= 1) return unit;
+  return /(ch|sh)$/.test(unit) ? `${unit}es` : `${unit}s`;
+}
+
+/**
+ * The measure as "1 1/2 cups", "450 g" or "3 cloves" in the chosen system.
+ * Metric amounts are rounded like a scale reads, and dry goods are weighed;
+ * counts are rounded up, since half a lemon is still bought as one.
+ */
+export function formatMeasure(measure: Measure, system: MeasurementSystem, ingredient = ''): string {
+  const density = densityOf(ingredient);
+  if (system === 'metric' && measure.dimension === 'volume' && density && knownName(ingredient, [...WEIGHED_INGREDIENTS])) {
+    return formatMeasure({ dimension: 'weight', amount: measure.amount * density, unit: 'g' }, system);
+  }
+  if (measure.dimension === 'count') {
+    const count = Math.max(1, Math.ceil(measure.amount - 1e-9));
+    return [String(count), measure.unit ? unitLabel(measure.unit, count) : ''].filter(Boolean).join(' ');
+  }
+
+  const units = DISPLAY_UNITS[system][measure.dimension];
+  const [unit] = units.find(([, from]) => measure.amount >= from) ?? units[units.length - 1];
+  const value = measure.amount / (measure.dimension === 'volume' ? VOLUME_ML[unit] : WEIGHT_G[unit]);
+
+  let amount: string;
+  if (unit === 'g' || unit === 'ml') {
+    amount = String(value >= 50 ? Math.round(value / 5) * 5 : Math.max(1, Math.round(value)));
+  } else if (unit === 'kg' || unit === 'l') {
+    amount = String(Math.max(0.1, Math.round(value * 10) / 10));
+  } else {
+    amount = formatQuantity(value);
+  }
+  // Label by the amount as written, so 1.02 cups reads "1 cup".
+  return `${amount} ${unitLabel(unit, Number(amount) || value)}`;
+}
+
+// Types rather than interfaces so a list can be stored as JSON as it is.
+export type ShoppingListItem = {
+  // The normalized name, which aisle overrides are keyed on.
+  ingredient: string;
+  text: string;
+};
+
+export type ShoppingListSection = {
+  category: string;
+  items: ShoppingListItem[];
+};
+
+export interface AislePreferences {
+  // Normalized ingredient name to the aisle the user moved it to.
+  overrides?: Record<string, string>;
+  order?: string[] | null;
+}
+
+/** A pantry row as the engine reads it; saved with each list as its pantry snapshot. */
+export interface PantryEntry {
+  ingredient_name: string;
+  // The canonical name; ingredient_name is parsed when it is missing.
+  ingredient?: string | null;
+  // Null when the user only noted that they have some.
+  amount?: number | null;
+  unit?: string | null;
+}
+
+type RecipeLike = { ingredients?: string; recipe_ingredients?: RecipeIngredient[] | null; servings?: number | null };
+
+/** The dishes of one planned meal. */
+export interface PlanMeal {
+  main_dish: RecipeLike;
+  side_dish?: RecipeLike | null;
+}
+
+interface AggregatedIngredient {
+  measures: Measure[];
+  // Some line named it without an amount ("salt to taste").
+  unmeasured: boolean;
+}
+
+/**
+ * How a list line names its ingredient: plural for more than one of a plain
+ * count ("3 eggs"), otherwise the canonical name it was merged on ("2 cups flour").
+ */
+function lineName(ingredient: string, measure: Measure): string {
+  if (measure.dimension !== 'count' || measure.unit || Math.ceil(measure.amount - 1e-9) <= 1) return ingredient;
+  const words = ingredient.split(' ');
+  return [...words.slice(0, -1), pluralize(words[words.length - 1])].join(' ');
+}
+
+/**
+ * Totals the recipes' ingredients across units, takes away what the pantry
+ * holds and writes each remaining amount in `system`, grouped by aisle in the
+ * user's store order. A pantry entry without an amount, or with a plain number
+ * and no unit ("1"), means the ingredient is on hand, so it covers measured
+ * amounts too.
+ */
+export function generateShoppingListFromRecipes(
+  recipes: Pick<RecipeLike, 'ingredients' | 'recipe_ingredients'>[],
+  pantryItems: PantryEntry[],
+  system: MeasurementSystem = DEFAULT_MEASUREMENT_SYSTEM,
+  aisles: AislePreferences = {},
+): ShoppingListSection[] {
+  if (!recipes || recipes.length === 0) {
+    return [];
+  }
+
+  const requiredMap = new Map<string, AggregatedIngredient>();
+
+  recipes.flatMap((recipe) => recipeIngredients(recipe)).forEach((item) => {
+    const existing = requiredMap.get(item.ingredient) ?? { measures: [], unmeasured: false };
+    requiredMap.set(item.ingredient, item.quantity
+      ? { ...existing, measures: addMeasure(existing.measures, toMeasure(item.quantity, item.unit), item.ingredient) }
+      : { ...existing, unmeasured: true });
+  });
+
+  pantryItems.forEach((item) => {
+    const ingredient = parseIngredientLine(item.ingredient || item.ingredient_name).ingredient;
+    const required = requiredMap.get(ingredient);
+    if (!required) return;
+
+    const onHand = item.amount ? toMeasure(item.amount, item.unit ?? null) : null;
+    let measures: Measure[] = [];
+    if (onHand && (onHand.dimension !== 'count' || onHand.unit)) {
+      measures = subtractMeasure(required.measures, onHand, ingredient);
+    } else if (onHand) {
+      // A bare number only takes away from plain counts ("3 eggs"); it covers everything else.
+      measures = subtractMeasure(required.measures, onHand, ingredient)
+        .filter((measure) => measure.dimension === 'count' && !measure.unit);
+    }
+    requiredMap.set(ingredient, { measures, unmeasured: false });
+  });
+
+  const shoppingList = new Map<string, ShoppingListItem[]>();
+
+  for (const [ingredient, required] of requiredMap.entries()) {
+    const lines = required.measures.length > 0
+      ? required.measures.map((measure) => `${formatMeasure(measure, system, ingredient)} ${lineName(ingredient, measure)}`)
+      : required.unmeasured ? [ingredient] : [];
+    if (lines.length === 0) continue;
+
+    const category = categorizeIngredient(ingredient, aisles.overrides);
+    shoppingList.set(category, [...(shoppingList.get(category) ?? []), ...lines.map((text) => ({ ingredient, text }))]);
+  }
+
+  return orderAisles(aisles.order)
+    .filter((category) => shoppingList.has(category))
+    .map((category) => ({ category, items: shoppingList.get(category)!.sort((a, b) => a.ingredient.localeCompare(b.ingredient)) }));
+}
+
+export interface ShoppingListOptions {
+  // Household size every recipe is scaled to.
+  servings: number;
+  system: MeasurementSystem;
+  aisles: AislePreferences;
+}
+
+/** The shopping list for a plan's meals, with every dish scaled to the household first. */
+export function planShoppingList(
+  meals: PlanMeal[],
+  pantryItems: PantryEntry[],
+  options: ShoppingListOptions,
+): ShoppingListSection[] {
+  const recipes = meals.flatMap((meal) => meal.side_dish ? [meal.main_dish, meal.side_dish] : [meal.main_dish]);
+  return generateShoppingListFromRecipes(
+    recipes.map((recipe) => scaleRecipe(recipe, options.servings)),
+    pantryItems,
+    options.system,
+    options.aisles,
+  );
+}
+
+/**
+ * The shopping_lists row for a plan window: the list plus the pantry and
+ * settings it was computed with, so it can be reproduced later.
+ */
+export function shoppingListRow(
+  userId: string,
+  window: { start: string; end: string },
+  shoppingList: ShoppingListSection[],
+  pantryItems: PantryEntry[],
+  options: ShoppingListOptions,
+) {
+  return {
+    user_id: userId,
+    week_start_date: window.start,
+    week_end_date: window.end,
+    shopping_list: shoppingList,
+    pantry_snapshot: pantryItems.map(({ ingredient_name, ingredient, amount, unit }) => ({
+      ingredient_name,
+      ingredient: ingredient ?? null,
+      amount: amount ?? null,
+      unit: unit ?? null,
+    })),
+    servings: options.servings,
+    measurement_system: options.system,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * A saved shopping_list value as sections. Lists saved before the engine was
+ * shared are `{ category: items[] }` objects or sections of plain strings.
+ */
+export function readShoppingList(saved: unknown): ShoppingListSection[] {
+  const sections = Array.isArray(saved)
+    ? saved as { category: string; items: unknown[] }[]
+    : saved && typeof saved === 'object'
+      ? Object.entries(saved).map(([category, items]) => ({ category, items: Array.isArray(items) ? items : [] }))
+      : [];
+  return sections.map(({ category, items }) => ({
+    category,
+    items: (items ?? []).map((item) => typeof item === 'string' ? { ingredient: item, text: item } : item as ShoppingListItem),
+  }));
+}
+
+/**
+ * A shopping_list_items row. Lines of the saved list carry their ingredient;
+ * lines the user added themselves ("paper towels") have none.
+ */
+export type ShoppingListEntry = {
+  id: string;
+  ingredient: string | null;
+  text: string;
+  category: string;
+  is_checked: boolean;
+  is_edited: boolean;
+  is_removed: boolean;
+};
+
+/**
+ * A list's item rows grouped by aisle in the user's store order, without the
+ * lines they deleted. Rows in an aisle that no longer exists go under "Other".
+ */
+export function groupShoppingListItems<T extends Pick<ShoppingListEntry, 'ingredient' | 'text' | 'category' | 'is_removed'>>(
+  items: T[],
+  order?: string[] | null,
+): { category: string; items: T[] }[] {
+  const groups = new Map<string, T[]>();
+  items.filter((item) => !item.is_removed).forEach((item) => {
+    const category = isAisle(item.category) ? item.category : 'Other';
+    groups.set(category, [...(groups.get(category) ?? []), item]);
+  });
+
+  return orderAisles(order)
+    .filter((category) => groups.has(category))
+    .map((category) => ({
+      category,
+      items: groups.get(category)!.sort((a, b) => (a.ingredient ?? a.text).localeCompare(b.ingredient ?? b.text)),
+    }));
+}
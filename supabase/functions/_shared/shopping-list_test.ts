@@ -0,0 +1,117 @@
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import {
+  addMeasure,
+  convertQuantity,
+  defaultMeasurementSystem,
+  formatMeasure,
+  generateShoppingListFromRecipes,
+  planShoppingList,
+  readShoppingList,
+  shoppingListRow,
+  subtractMeasure,
+  toMeasure,
+} from './shopping-list.ts';
+
+Deno.test("convertQuantity converts within volume and weight", () => {
+  assertAlmostEquals(convertQuantity(8, 'tbsp', 'cup')!, 0.5, 0.001);
+  assertAlmostEquals(convertQuantity(3, 'teaspoons', 'tablespoon')!, 1, 0.001);
+  assertAlmostEquals(convertQuantity(1, 'lb', 'g')!, 453.592, 0.001);
+  assertAlmostEquals(convertQuantity(2, 'lbs.', 'oz')!, 32, 0.001);
+});
+
+Deno.test("convertQuantity crosses volume and weight only for known densities", () => {
+  assertAlmostEquals(convertQuantity(1, 'cup', 'g', 'flour')!, 125.39, 0.01);
+  assertAlmostEquals(convertQuantity(1, 'cup', 'g', 'all-purpose flour')!, 125.39, 0.01);
+  assertEquals(convertQuantity(1, 'cup', 'g', 'chicken'), null);
+  assertEquals(convertQuantity(1, 'cup', 'g'), null);
+});
+
+Deno.test("convertQuantity keeps different count units apart", () => {
+  assertEquals(convertQuantity(2, 'clove', 'head', 'garlic'), null);
+  assertEquals(convertQuantity(2, 'clove', 'cloves', 'garlic'), 2);
+  assertEquals(convertQuantity(2, null, 'clove', 'garlic'), null);
+});
+
+Deno.test("addMeasure merges measures that convert and keeps the rest", () => {
+  const measures = addMeasure([toMeasure(1, 'cup')], toMeasure(4, 'tbsp'), 'flour');
+  assertEquals(measures.length, 1);
+  assertEquals(formatMeasure(measures[0], 'imperial', 'flour'), '1 1/4 cups');
+
+  const garlic = addMeasure([toMeasure(2, 'clove')], toMeasure(1, 'head'), 'garlic');
+  assertEquals(garlic.map((measure) => formatMeasure(measure, 'imperial', 'garlic')), ['2 cloves', '1 head']);
+});
+
+Deno.test("subtractMeasure takes away what is available", () => {
+  const left = subtractMeasure([toMeasure(2, 'cup')], toMeasure(250, 'ml'), 'milk');
+  assertEquals(formatMeasure(left[0], 'imperial', 'milk'), '1 cup');
+  assertEquals(subtractMeasure([toMeasure(1, 'cup')], toMeasure(1, 'l'), 'milk'), []);
+});
+
+Deno.test("formatMeasure writes amounts in the chosen system", () => {
+  assertEquals(formatMeasure(toMeasure(3, 'cups'), 'imperial'), '3 cups');
+  assertEquals(formatMeasure(toMeasure(2, 'tbsp'), 'imperial'), '2 tbsp');
+  assertEquals(formatMeasure(toMeasure(1, 'cup'), 'metric', 'milk'), '235 ml');
+  assertEquals(formatMeasure(toMeasure(2, 'cup'), 'metric', 'flour'), '250 g');
+  assertEquals(formatMeasure(toMeasure(3, 'lb'), 'metric'), '1.4 kg');
+  assertEquals(formatMeasure(toMeasure(2.5, 'clove'), 'imperial'), '3 cloves');
+});
+
+Deno.test("defaultMeasurementSystem follows the locale's region", () => {
+  assertEquals(defaultMeasurementSystem('en-US'), 'imperial');
+  assertEquals(defaultMeasurementSystem('en-GB'), 'metric');
+  assertEquals(defaultMeasurementSystem('de_DE'), 'metric');
+  assertEquals(defaultMeasurementSystem('en'), 'imperial');
+});
+
+Deno.test("generateShoppingListFromRecipes totals lines and takes away the pantry", () => {
+  const list = generateShoppingListFromRecipes(
+    [
+      { ingredients: '2 eggs\n1 cup milk\n1 cup flour' },
+      { ingredients: '1 egg\n4 tbsp flour\nsalt to taste' },
+    ],
+    [{ ingredient_name: 'salt', amount: null, unit: null }, { ingredient_name: 'milk', amount: 250, unit: 'ml' }],
+  );
+  const lines = list.flatMap((section) => section.items.map((item) => item.text)).sort();
+  assertEquals(lines, ['1 1/4 cups flour', '3 eggs']);
+});
+
+const listLines = (sections: { items: { text: string }[] }[]) =>
+  sections.flatMap((section) => section.items.map((item) => item.text)).sort();
+
+Deno.test("planShoppingList scales every dish to the household first", () => {
+  const list = planShoppingList(
+    [
+      { main_dish: { ingredients: '2 eggs\n1 cup rice', servings: 2 }, side_dish: { ingredients: '1 lemon', servings: 4 } },
+      { main_dish: { ingredients: '1 egg', servings: 4 }, side_dish: null },
+    ],
+    [],
+    { servings: 4, system: 'imperial', aisles: {} },
+  );
+  assertEquals(listLines(list), ['1 lemon', '2 cups rice', '5 eggs']);
+});
+
+Deno.test("shoppingListRow saves the list with the pantry and settings it used", () => {
+  const options = { servings: 2, system: 'metric' as const, aisles: {} };
+  const row = shoppingListRow(
+    'user-1',
+    { start: '2025-10-06', end: '2025-10-12' },
+    [],
+    [{ ingredient_name: 'Milk', amount: 500, unit: 'ml' }],
+    options,
+  );
+  assertEquals(row.week_start_date, '2025-10-06');
+  assertEquals(row.week_end_date, '2025-10-12');
+  assertEquals(row.pantry_snapshot, [{ ingredient_name: 'Milk', ingredient: null, amount: 500, unit: 'ml' }]);
+  assertEquals(row.servings, 2);
+  assertEquals(row.measurement_system, 'metric');
+});
+
+Deno.test("readShoppingList reads lists saved in older shapes", () => {
+  assertEquals(readShoppingList({ Produce: ['2 lemons'] }), [
+    { category: 'Produce', items: [{ ingredient: '2 lemons', text: '2 lemons' }] },
+  ]);
+  assertEquals(readShoppingList([{ category: 'Pantry', items: ['rice'] }]), [
+    { category: 'Pantry', items: [{ ingredient: 'rice', text: 'rice' }] },
+  ]);
+  assertEquals(readShoppingList(null), []);
+});
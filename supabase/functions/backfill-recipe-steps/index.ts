@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.192.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { RecipeIngredient } from "../_shared/recipe-ingredients.ts";
+import { parseRecipeSteps } from "../_shared/recipe-steps.ts";
+
+// Backfill job: splits the free-text instructions of recipes saved before recipe_steps
+// existed into steps with their timers, temperatures and ingredient references. Invoke
+// with the FUNCTION_SECRET bearer token; send { "dryRun": true } to only count them.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 500;
+
+interface RecipeRow {
+  id: string;
+  recipe: string;
+  recipe_ingredients: RecipeIngredient[];
+  recipe_steps: { id: string }[];
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[BACKFILL-RECIPE-STEPS] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+/** Parses and saves the steps of every recipe that has none yet, a page at a time. */
+async function backfillSteps(adminClient: SupabaseClient, dryRun: boolean): Promise<{ recipes: number; steps: number }> {
+  let recipes = 0;
+  let steps = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('recipes')
+      .select('id, recipe, recipe_ingredients(*), recipe_steps(id)')
+      .order('created_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load recipes: ${error.message}`);
+
+    const pending = ((data ?? []) as RecipeRow[]).filter((row) => row.recipe_steps.length === 0);
+    const rows = pending.flatMap((row) =>
+      parseRecipeSteps(row.recipe, row.recipe_ingredients).map((step) => ({ ...step, recipe_id: row.id }))
+    );
+
+    if (!dryRun && rows.length > 0) {
+      const { error: insertError } = await adminClient.from('recipe_steps').insert(rows);
+      if (insertError) throw new Error(`Failed to save recipe steps: ${insertError.message}`);
+    }
+
+    recipes += pending.length;
+    steps += rows.length;
+    logStep("Processed page", { from, recipes, steps });
+    if (!data || data.length < PAGE_SIZE) return { recipes, steps };
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const functionSecret = Deno.env.get("FUNCTION_SECRET");
+
+    if (!supabaseUrl || !serviceRoleKey || !functionSecret) {
+      throw new Error("Missing required environment variables.");
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${functionSecret}`) {
+      logStep("ERROR: Unauthorized access attempt");
+      return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+    }
+
+    const { dryRun = false } = await req.json().catch(() => ({}));
+    logStep("Function invoked with valid secret", { dryRun });
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey);
+    const { recipes, steps } = await backfillSteps(adminClient, dryRun);
+    logStep("Steps backfilled", { recipes, steps });
+
+    return new Response(JSON.stringify({ success: true, dryRun, recipes, steps }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "An unknown server error occurred.";
+    const stack = error instanceof Error ? error.stack : undefined;
+    logStep("FATAL ERROR", { message, stack });
+    return new Response(JSON.stringify({ error: message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
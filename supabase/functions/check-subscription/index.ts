@@ -47,10 +47,20 @@ serve(async (req: Request) => {
 
     const generations_remaining = profile?.generations_remaining ?? 3;
 
+    // generate-meal-plan meters quota from the profile, so mirror the Stripe status there.
+    const syncSubscriptionStatus = async (status: 'trial' | 'active') => {
+      const { error } = await supabaseClient
+        .from('profiles')
+        .update({ subscription_status: status })
+        .eq('user_id', user.id);
+      if (error) logStep("Failed to sync subscription status", { message: error.message });
+    };
+
     const customers = await stripe.customers.list({ email: user.email, limit: 1 });
 
     if (customers.data.length === 0) {
       logStep("No customer found, user is on trial");
+      await syncSubscriptionStatus('trial');
       return new Response(JSON.stringify({
         status: 'trial',
         planType: 'weekly',
@@ -72,6 +82,7 @@ serve(async (req: Request) => {
 
     if (subscriptions.data.length === 0) {
       logStep("No active subscription found, user is on trial");
+      await syncSubscriptionStatus('trial');
       return new Response(JSON.stringify({
         status: 'trial',
         planType: 'weekly',
@@ -90,6 +101,7 @@ serve(async (req: Request) => {
       subscriptionId: subscription.id,
       planType,
     });
+    await syncSubscriptionStatus('active');
 
     return new Response(JSON.stringify({
       status: 'active',
@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.192.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DEDUP_THRESHOLDS, isDuplicateRecipe, normalizeRecipeTitle } from "../_shared/recipe-dedup.ts";
+import { getProvider } from "../generate-meal-plan/providers.ts";
+import { recipeEmbeddingText } from "../generate-meal-plan/library.ts";
+
+// Backfill job: embeds recipes saved before embeddings existed and fills in their
+// normalized titles, then merges duplicate recipes into the oldest copy (see merge_recipes). Invoke with the FUNCTION_SECRET
+// bearer token; send { "dryRun": true } to only report what would be merged.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EMBEDDING_BATCH_SIZE = 50;
+const PAGE_SIZE = 1000;
+
+interface LibraryRow {
+  id: string;
+  title: string;
+  description: string | null;
+  ingredients: string;
+  normalized_title: string | null;
+  created_at: string;
+}
+
+interface Merge {
+  keep: { id: string; title: string };
+  duplicates: { id: string; title: string }[];
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[DEDUPE-RECIPES] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const ingredientLines = (row: LibraryRow) => row.ingredients.split('\n').map((line) => line.trim()).filter(Boolean);
+
+/** Embeds every recipe that has no embedding yet, in batches. Returns how many were embedded. */
+async function backfillEmbeddings(adminClient: SupabaseClient, dryRun: boolean): Promise<number> {
+  const provider = getProvider();
+  let embedded = 0;
+
+  while (true) {
+    const { data: rows, error } = await adminClient
+      .from('recipes')
+      .select('id, title, normalized_title, description, ingredients, created_at')
+      .is('embedding', null)
+      .order('created_at')
+      .range(dryRun ? embedded : 0, (dryRun ? embedded : 0) + EMBEDDING_BATCH_SIZE - 1);
+    if (error) throw new Error(`Failed to load recipes without embeddings: ${error.message}`);
+    if (!rows || rows.length === 0) return embedded;
+
+    if (!dryRun) {
+      const embeddings = await provider.embed(rows.map((row: LibraryRow) => recipeEmbeddingText({
+        title: row.title,
+        description: row.description ?? "",
+        ingredients: ingredientLines(row),
+      })));
+      for (const [index, row] of rows.entries()) {
+        const { error: updateError } = await adminClient
+          .from('recipes')
+          .update({ embedding: JSON.stringify(embeddings[index]) })
+          .eq('id', row.id);
+        if (updateError) throw new Error(`Failed to save embedding for ${row.id}: ${updateError.message}`);
+      }
+    }
+
+    embedded += rows.length;
+    logStep("Embedded batch", { embedded });
+  }
+}
+
+async function loadLibrary(adminClient: SupabaseClient): Promise<LibraryRow[]> {
+  const rows: LibraryRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('recipes')
+      .select('id, title, description, ingredients, normalized_title, created_at')
+      .order('created_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load recipes: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Saves the normalized title generate-meal-plan looks recipes up by on every
+ * recipe whose stored one is missing or out of date. Returns how many changed.
+ */
+async function backfillNormalizedTitles(adminClient: SupabaseClient, library: LibraryRow[], dryRun: boolean): Promise<number> {
+  const stale = library.filter((row) => row.normalized_title !== (normalizeRecipeTitle(row.title) || null));
+  if (!dryRun) {
+    for (const row of stale) {
+      const { error } = await adminClient
+        .from('recipes')
+        .update({ normalized_title: normalizeRecipeTitle(row.title) || null })
+        .eq('id', row.id);
+      if (error) throw new Error(`Failed to save the normalized title for ${row.id}: ${error.message}`);
+    }
+  }
+  return stale.length;
+}
+
+/**
+ * Walks the library oldest first. Each recipe that hasn't already been merged
+ * keeps its id and absorbs every later recipe that is the same dish, found
+ * either by normalized title or by embedding neighbours.
+ */
+async function findMerges(adminClient: SupabaseClient, library: LibraryRow[]): Promise<Merge[]> {
+  const { data: pairs, error } = await adminClient.rpc('recipe_duplicate_candidates', {
+    match_threshold: DEDUP_THRESHOLDS.embeddingSimilarity,
+  });
+  if (error) throw new Error(`Failed to find duplicate candidates: ${error.message}`);
+
+  const similarities = new Map<string, Map<string, number>>();
+  for (const { recipe_id, candidate_id, similarity } of (pairs ?? []) as { recipe_id: string; candidate_id: string; similarity: number }[]) {
+    for (const [a, b] of [[recipe_id, candidate_id], [candidate_id, recipe_id]]) {
+      if (!similarities.has(a)) similarities.set(a, new Map());
+      similarities.get(a)!.set(b, similarity);
+    }
+  }
+
+  const byTitle = new Map<string, LibraryRow[]>();
+  for (const row of library) {
+    const key = normalizeRecipeTitle(row.title);
+    byTitle.set(key, [...(byTitle.get(key) ?? []), row]);
+  }
+  const byId = new Map(library.map((row) => [row.id, row]));
+
+  const settled = new Set<string>();
+  const merges: Merge[] = [];
+  for (const recipe of library) {
+    if (settled.has(recipe.id)) continue;
+    settled.add(recipe.id);
+
+    const neighbours = similarities.get(recipe.id) ?? new Map<string, number>();
+    const candidates = new Map<string, LibraryRow>();
+    for (const row of byTitle.get(normalizeRecipeTitle(recipe.title)) ?? []) candidates.set(row.id, row);
+    for (const id of neighbours.keys()) {
+      const row = byId.get(id);
+      if (row) candidates.set(id, row);
+    }
+
+    const duplicates = [...candidates.values()].filter((candidate) =>
+      !settled.has(candidate.id) &&
+      isDuplicateRecipe(
+        { title: recipe.title, ingredients: ingredientLines(recipe) },
+        { title: candidate.title, ingredients: ingredientLines(candidate) },
+        neighbours.get(candidate.id),
+      )
+    );
+    if (duplicates.length === 0) continue;
+
+    duplicates.forEach((duplicate) => settled.add(duplicate.id));
+    merges.push({
+      keep: { id: recipe.id, title: recipe.title },
+      duplicates: duplicates.map(({ id, title }) => ({ id, title })),
+    });
+  }
+  return merges;
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const functionSecret = Deno.env.get("FUNCTION_SECRET");
+
+    if (!supabaseUrl || !serviceRoleKey || !functionSecret) {
+      throw new Error("Missing required environment variables.");
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${functionSecret}`) {
+      logStep("ERROR: Unauthorized access attempt");
+      return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+    }
+
+    const { dryRun = false } = await req.json().catch(() => ({}));
+    logStep("Function invoked with valid secret", { dryRun });
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const embedded = await backfillEmbeddings(adminClient, dryRun);
+    logStep("Embeddings backfilled", { embedded });
+
+    const library = await loadLibrary(adminClient);
+    const normalized = await backfillNormalizedTitles(adminClient, library, dryRun);
+    logStep("Normalized titles backfilled", { normalized });
+
+    const merges = await findMerges(adminClient, library);
+    logStep("Found duplicate groups", { recipes: library.length, groups: merges.length });
+
+    if (!dryRun) {
+      for (const merge of merges) {
+        const { error } = await adminClient.rpc('merge_recipes', {
+          keep_id: merge.keep.id,
+          duplicate_ids: merge.duplicates.map((duplicate) => duplicate.id),
+        });
+        if (error) throw new Error(`Failed to merge into ${merge.keep.id}: ${error.message}`);
+        logStep("Merged duplicates", { keep: merge.keep, duplicates: merge.duplicates });
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, dryRun, embedded, normalized, merges }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "An unknown server error occurred.";
+    const stack = error instanceof Error ? error.stack : undefined;
+    logStep("FATAL ERROR", { message, stack });
+    return new Response(JSON.stringify({ error: message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
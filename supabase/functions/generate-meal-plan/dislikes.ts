@@ -0,0 +1,77 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { mentionsIngredient, singularize } from "../_shared/ingredient-names.ts";
+import { Recipe } from "./schema.ts";
+import { log } from "./utils.ts";
+
+export interface Dislikes {
+  ingredients: string[];
+  recipeTitles: string[];
+}
+
+/** Loads what the user has told us they don't want: disliked ingredients and thumbs-down recipes. */
+export async function loadDislikes(supabaseClient: SupabaseClient, userId: string): Promise<Dislikes> {
+  const [ingredientsResult, recipesResult] = await Promise.all([
+    supabaseClient
+      .from('disliked_ingredients')
+      .select('ingredient_name')
+      .eq('user_id', userId),
+    supabaseClient
+      .from('disliked_recipes')
+      .select('recipes(title)')
+      .eq('user_id', userId),
+  ]);
+
+  if (ingredientsResult.error || recipesResult.error) {
+    const error = ingredientsResult.error ?? recipesResult.error;
+    log("ERROR", "Failed to load dislikes.", { error, userId });
+    throw error;
+  }
+
+  return {
+    ingredients: (ingredientsResult.data ?? []).map((row) => row.ingredient_name),
+    recipeTitles: (recipesResult.data ?? [])
+      .map((row) => (row.recipes as unknown as { title: string } | null)?.title)
+      .filter((title): title is string => !!title),
+  };
+}
+
+const TITLE_STOP_WORDS = new Set(['with', 'and', 'the', 'a', 'in', 'of', 'on']);
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter((word) => word && !TITLE_STOP_WORDS.has(word))
+      .map(singularize),
+  );
+}
+
+/** Titles count as the same dish when their significant words overlap by at least 80%. */
+export function isSimilarTitle(a: string, b: string): boolean {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return false;
+  const shared = [...tokensA].filter((token) => tokensB.has(token)).length;
+  return shared / new Set([...tokensA, ...tokensB]).size >= 0.8;
+}
+
+/** Returns a human-readable reason for every way the dish conflicts with the user's dislikes. */
+export function findDislikeViolations(dish: Recipe, dislikes: Dislikes): string[] {
+  const reasons: string[] = [];
+
+  for (const ingredient of dislikes.ingredients) {
+    const line = dish.ingredients.find((ingredientLine) => mentionsIngredient(ingredientLine, ingredient));
+    if (line) {
+      reasons.push(`"${dish.title}" uses disliked ingredient "${ingredient}" ("${line}")`);
+    }
+  }
+
+  const dislikedTitle = dislikes.recipeTitles.find((title) => isSimilarTitle(title, dish.title));
+  if (dislikedTitle) {
+    reasons.push(`"${dish.title}" is too close to disliked recipe "${dislikedTitle}"`);
+  }
+
+  return reasons;
+}
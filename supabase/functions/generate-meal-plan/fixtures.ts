@@ -0,0 +1,254 @@
+// Canned recipes served by the FixtureProvider. Keep them realistic enough
+// that the saved plan, shopping list and PDF look like a real week.
+
+import { parseIngredientList } from "../_shared/recipe-ingredients.ts";
+import { parseRecipeSteps } from "../_shared/recipe-steps.ts";
+
+interface FixtureRecipe {
+  title: string;
+  description: string;
+  cuisine: string;
+  ingredients: string[];
+  recipe: string;
+  calories: number;
+}
+
+// Every fixture recipe is written for four people.
+const FIXTURE_SERVINGS = 4;
+
+// The fixtures keep their recipes as numbered text; a plan carries them as steps like the model's.
+const toPlanDish = ({ recipe, ...dish }: FixtureRecipe) => ({
+  ...dish,
+  steps: parseRecipeSteps(recipe, parseIngredientList(dish.ingredients)),
+  servings: FIXTURE_SERVINGS,
+});
+
+const DAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+const MAIN_DISHES: FixtureRecipe[] = [
+  {
+    title: "Lemon Herb Roast Chicken Thighs",
+    description: "Crispy-skinned chicken thighs roasted with lemon, garlic and thyme.",
+    cuisine: "Mediterranean",
+    ingredients: ["4 bone-in chicken thighs", "1 lemon", "3 cloves garlic", "1 tbsp fresh thyme", "2 tbsp olive oil", "1 tsp salt", "1/2 tsp black pepper"],
+    recipe: "1. Heat the oven to 425°F. 2. Rub the chicken with olive oil, garlic, thyme, salt and pepper. 3. Lay skin-side up on a tray with lemon slices. 4. Roast for 35 minutes until the skin is golden.",
+    calories: 520,
+  },
+  {
+    title: "Black Bean and Sweet Potato Tacos",
+    description: "Smoky roasted sweet potato and black beans in warm corn tortillas.",
+    cuisine: "Mexican",
+    ingredients: ["2 sweet potatoes", "1 can black beans", "8 corn tortillas", "1 tsp smoked paprika", "1 tsp ground cumin", "1 avocado", "1 lime", "2 tbsp olive oil"],
+    recipe: "1. Dice the sweet potatoes and toss with oil, paprika and cumin. 2. Roast at 425°F for 25 minutes. 3. Warm the black beans with a pinch of salt. 4. Fill the tortillas and top with avocado and lime.",
+    calories: 480,
+  },
+  {
+    title: "Garlic Butter Salmon",
+    description: "Pan-seared salmon finished in a garlic butter sauce.",
+    cuisine: "American",
+    ingredients: ["4 salmon fillets", "3 tbsp butter", "4 cloves garlic", "1 lemon", "2 tbsp chopped parsley", "1 tsp salt"],
+    recipe: "1. Season the salmon with salt. 2. Sear skin-side down in a hot pan for 4 minutes. 3. Flip, add butter and garlic, and baste for 3 minutes. 4. Finish with lemon juice and parsley.",
+    calories: 560,
+  },
+  {
+    title: "Chickpea Spinach Curry",
+    description: "A quick coconut curry with chickpeas and wilted spinach.",
+    cuisine: "Indian",
+    ingredients: ["2 cans chickpeas", "1 can coconut milk", "1 onion", "2 cloves garlic", "1 tbsp curry powder", "4 cups spinach", "1 cup basmati rice"],
+    recipe: "1. Cook the rice. 2. Soften the onion and garlic in a pot. 3. Stir in curry powder, chickpeas and coconut milk and simmer for 15 minutes. 4. Fold in spinach until wilted and serve over rice.",
+    calories: 610,
+  },
+  {
+    title: "Beef and Broccoli Stir-Fry",
+    description: "Tender strips of beef and broccoli in a savory ginger sauce.",
+    cuisine: "Asian",
+    ingredients: ["1 lb flank steak", "3 cups broccoli florets", "3 tbsp soy sauce", "1 tbsp grated ginger", "2 cloves garlic", "1 tbsp cornstarch", "1 tbsp vegetable oil"],
+    recipe: "1. Slice the steak thinly and toss with cornstarch. 2. Stir-fry the beef in hot oil until browned, then remove. 3. Stir-fry the broccoli for 3 minutes. 4. Return the beef with soy sauce, ginger and garlic and toss to coat.",
+    calories: 540,
+  },
+  {
+    title: "Mushroom Risotto",
+    description: "Creamy arborio rice slowly cooked with mushrooms and parmesan.",
+    cuisine: "Italian",
+    ingredients: ["1 1/2 cups arborio rice", "8 oz cremini mushrooms", "1 shallot", "5 cups vegetable broth", "1/2 cup grated parmesan", "2 tbsp butter"],
+    recipe: "1. Sauté the mushrooms and shallot in butter. 2. Toast the rice for 1 minute. 3. Add warm broth a ladle at a time, stirring, for 20 minutes. 4. Stir in parmesan and season to taste.",
+    calories: 590,
+  },
+  {
+    title: "Turkey Meatballs in Marinara",
+    description: "Baked turkey meatballs simmered in a simple tomato sauce.",
+    cuisine: "Italian",
+    ingredients: ["1 lb ground turkey", "1/2 cup breadcrumbs", "1 egg", "2 cloves garlic", "1 jar marinara sauce", "1/4 cup grated parmesan"],
+    recipe: "1. Mix turkey, breadcrumbs, egg, garlic and parmesan. 2. Roll into 16 meatballs. 3. Bake at 400°F for 15 minutes. 4. Simmer in marinara for 10 minutes.",
+    calories: 500,
+  },
+  {
+    title: "Shrimp Fried Rice",
+    description: "Day-old rice fried with shrimp, peas and scrambled egg.",
+    cuisine: "Asian",
+    ingredients: ["3 cups cooked rice", "12 oz shrimp", "2 eggs", "1 cup frozen peas", "3 green onions", "2 tbsp soy sauce", "1 tbsp sesame oil"],
+    recipe: "1. Scramble the eggs and set aside. 2. Cook the shrimp until pink. 3. Fry the rice and peas in sesame oil. 4. Toss everything with soy sauce and green onions.",
+    calories: 530,
+  },
+];
+
+const SIDE_DISHES: FixtureRecipe[] = [
+  {
+    title: "Garlic Green Beans",
+    description: "Blistered green beans with garlic.",
+    cuisine: "American",
+    ingredients: ["12 oz green beans", "2 cloves garlic", "1 tbsp olive oil", "1/2 tsp salt"],
+    recipe: "1. Heat the oil in a skillet. 2. Cook the green beans for 6 minutes until blistered. 3. Add garlic and salt and cook 1 minute more.",
+    calories: 90,
+  },
+  {
+    title: "Cucumber Tomato Salad",
+    description: "A crisp salad dressed with red wine vinegar.",
+    cuisine: "Mediterranean",
+    ingredients: ["1 cucumber", "2 tomatoes", "1/4 red onion", "1 tbsp red wine vinegar", "1 tbsp olive oil"],
+    recipe: "1. Chop the cucumber, tomatoes and onion. 2. Toss with vinegar, oil and a pinch of salt.",
+    calories: 70,
+  },
+  {
+    title: "Roasted Carrots",
+    description: "Sweet roasted carrots with cumin.",
+    cuisine: "American",
+    ingredients: ["1 lb carrots", "1 tbsp olive oil", "1/2 tsp ground cumin", "1/2 tsp salt"],
+    recipe: "1. Heat the oven to 425°F. 2. Toss the carrots with oil, cumin and salt. 3. Roast for 25 minutes.",
+    calories: 110,
+  },
+  {
+    title: "Steamed Jasmine Rice",
+    description: "Fluffy jasmine rice.",
+    cuisine: "Asian",
+    ingredients: ["1 cup jasmine rice", "1 1/2 cups water", "1/2 tsp salt"],
+    recipe: "1. Rinse the rice. 2. Simmer covered with water and salt for 15 minutes. 3. Rest 5 minutes and fluff.",
+    calories: 200,
+  },
+  {
+    title: "Simple Green Salad",
+    description: "Mixed greens with a lemon vinaigrette.",
+    cuisine: "American",
+    ingredients: ["5 oz mixed greens", "1 lemon", "2 tbsp olive oil", "1 tsp dijon mustard"],
+    recipe: "1. Whisk lemon juice, oil and mustard. 2. Toss with the greens just before serving.",
+    calories: 80,
+  },
+];
+
+const BREAKFASTS: FixtureRecipe[] = [
+  {
+    title: "Overnight Oats with Berries",
+    description: "Creamy oats soaked overnight and topped with fresh berries.",
+    cuisine: "American",
+    ingredients: ["2 cups rolled oats", "2 cups milk", "1/2 cup plain yogurt", "2 tbsp maple syrup", "1 cup mixed berries"],
+    recipe: "1. Stir the oats, milk, yogurt and maple syrup together. 2. Cover and chill overnight. 3. Top with berries before serving.",
+    calories: 380,
+  },
+  {
+    title: "Spinach and Feta Scramble",
+    description: "Soft scrambled eggs with wilted spinach and crumbled feta.",
+    cuisine: "Mediterranean",
+    ingredients: ["8 eggs", "2 cups spinach", "1/2 cup crumbled feta", "1 tbsp butter", "4 slices whole grain toast"],
+    recipe: "1. Wilt the spinach in butter. 2. Add the beaten eggs and stir gently over low heat. 3. Fold in the feta and serve with toast.",
+    calories: 420,
+  },
+  {
+    title: "Banana Peanut Butter Smoothie",
+    description: "A thick smoothie with banana, peanut butter and oats.",
+    cuisine: "American",
+    ingredients: ["2 bananas", "2 tbsp peanut butter", "1/2 cup rolled oats", "2 cups milk", "1 tsp honey"],
+    recipe: "1. Blend everything until smooth. 2. Pour into glasses and serve straight away.",
+    calories: 350,
+  },
+];
+
+const LUNCHES: FixtureRecipe[] = [
+  {
+    title: "Chicken Caesar Wraps",
+    description: "Grilled chicken and crisp romaine in a tortilla with Caesar dressing.",
+    cuisine: "American",
+    ingredients: ["2 chicken breasts", "4 large flour tortillas", "1 head romaine lettuce", "1/3 cup Caesar dressing", "1/4 cup grated parmesan"],
+    recipe: "1. Grill the chicken and slice it. 2. Toss the lettuce with dressing and parmesan. 3. Fill the tortillas and roll tightly.",
+    calories: 480,
+  },
+  {
+    title: "Lentil Vegetable Soup",
+    description: "A hearty soup of lentils, carrots and celery.",
+    cuisine: "Mediterranean",
+    ingredients: ["1 cup green lentils", "2 carrots", "2 celery stalks", "1 onion", "1 can diced tomatoes", "6 cups vegetable broth"],
+    recipe: "1. Soften the onion, carrots and celery. 2. Add the lentils, tomatoes and broth. 3. Simmer for 30 minutes until the lentils are tender.",
+    calories: 320,
+  },
+  {
+    title: "Tuna Salad Sandwiches",
+    description: "Classic tuna salad with celery on toasted bread.",
+    cuisine: "American",
+    ingredients: ["2 cans tuna", "1/4 cup mayonnaise", "1 celery stalk", "1 tbsp lemon juice", "8 slices bread"],
+    recipe: "1. Mix the tuna, mayonnaise, chopped celery and lemon juice. 2. Spread on the bread and close the sandwiches.",
+    calories: 450,
+  },
+];
+
+const SNACKS: FixtureRecipe[] = [
+  {
+    title: "Hummus with Veggie Sticks",
+    description: "Store-bought hummus with crunchy raw vegetables.",
+    cuisine: "Mediterranean",
+    ingredients: ["1 cup hummus", "2 carrots", "1 cucumber", "1 red bell pepper"],
+    recipe: "1. Cut the vegetables into sticks. 2. Serve with the hummus.",
+    calories: 180,
+  },
+  {
+    title: "Apple Slices with Almond Butter",
+    description: "Crisp apple slices for dipping.",
+    cuisine: "American",
+    ingredients: ["2 apples", "4 tbsp almond butter", "1 tsp cinnamon"],
+    recipe: "1. Core and slice the apples. 2. Dust with cinnamon and serve with almond butter.",
+    calories: 200,
+  },
+];
+
+// Main dishes per meal slot; only lunches and dinners come with a side dish.
+const SLOT_DISHES: Record<string, { mains: FixtureRecipe[]; withSide: boolean }> = {
+  breakfast: { mains: BREAKFASTS, withSide: false },
+  lunch: { mains: LUNCHES, withSide: true },
+  dinner: { mains: MAIN_DISHES, withSide: true },
+  snack: { mains: SNACKS, withSide: false },
+};
+
+// Stable string hash so the same prompt always starts at the same recipe.
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+export function buildFixturePlan(prompt: string, dayCount: number, mealSlot = "dinner") {
+  const offset = hashString(prompt);
+  const { mains, withSide } = SLOT_DISHES[mealSlot] ?? SLOT_DISHES.dinner;
+  return {
+    days: Array.from({ length: dayCount }, (_, index) => ({
+      day: DAY_NAMES[index % DAY_NAMES.length],
+      main_dish: toPlanDish(mains[(offset + index) % mains.length]),
+      side_dish: withSide ? toPlanDish(SIDE_DISHES[(offset + index) % SIDE_DISHES.length]) : null,
+      total_time_to_cook: "45 minutes",
+      cooking_tips: "Prep the side dish while the main cooks to keep the total time down.",
+    })),
+  };
+}
+
+/**
+ * Bag-of-words embedding: every word is hashed into one of `dimensions` buckets
+ * and the vector is normalized, so texts that share words are close in cosine
+ * distance. Good enough to exercise library matching offline.
+ */
+export function buildFixtureEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+    vector[hashString(word) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
@@ -1,86 +1,147 @@
 import { serve } from "https://deno.land/std@0.192.0/http/server.ts";
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { BadRequestError, corsHeaders, log } from "./utils.ts";
+import { getProvider } from "./providers.ts";
+import { MealDay, MealPlanValidationError, Recipe, requestMealPlan } from "./schema.ts";
+import { generationCost, QuotaExceededError, refundGeneration, reserveGeneration } from "./quota.ts";
+import { Dislikes, findDislikeViolations, isSimilarTitle, loadDislikes } from "./dislikes.ts";
+import { findExistingRecipeId, findLibraryRecipes, LibraryRecipe, recipeEmbeddingText, tasteQueryText } from "./library.ts";
+import { describeProfileConstraints, loadProfile, UserProfile } from "./profile.ts";
+import { describeExpiringItems, ExpiringItem, orderDaysByExpiry, PantryItemRequest, readPantryItems } from "./pantry.ts";
+import {
+  buildVarietyReport,
+  findRecentRepeat,
+  findVarietyViolations,
+  loadRecentMeals,
+  RecentMeals,
+  VarietyDish,
+} from "./variety.ts";
+import { checkIngredientsAgainstDiets, DIET_FORBIDDEN_CATEGORIES } from "../_shared/diet-rules.ts";
+import { isMealSlot, MEAL_SLOT_LABELS, MealSlot } from "../_shared/meal-slots.ts";
+import { defaultPlanStart, isDateString, MAX_PLAN_DAYS, MIN_PLAN_DAYS, planDatesFrom, todayIn } from "../_shared/plan-dates.ts";
+import { normalizeRecipeTitle } from "../_shared/recipe-dedup.ts";
+import { parseIngredientList } from "../_shared/recipe-ingredients.ts";
+import { formatStepsText } from "../_shared/recipe-steps.ts";
+import { findShoppingList, PlanWindow, refreshShoppingList } from "../_shared/shopping-list-store.ts";
 
-// --- START: UTILITIES ---
-// Moved from _shared/utils.ts to resolve import error
+// --- START: TYPE DEFINITIONS ---
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+type GenerationMode = 'full' | 'day' | 'side';
 
-function log(level: "INFO" | "ERROR", message: string, data: Record<string, unknown> = {}) {
-    console.log(JSON.stringify({
-        level,
-        message,
-        ...data,
-        timestamp: new Date().toISOString()
-    }));
+// Any `userId`, `dietaryPreferences` or `cookTime` sent by older clients is ignored:
+// the user comes from the JWT (see authenticate) and their preferences from their
+// saved profile.
+interface MealPlanRequest {
+  // 'full' regenerates every unlocked meal, 'day' one meal, 'side' only one meal's side dish.
+  mode?: GenerationMode;
+  // The meal_date and meal slot to regenerate in 'day' and 'side' modes; the slot defaults to dinner.
+  targetDate?: string;
+  targetSlot?: MealSlot;
+  // The plan window: a new plan's first date and length, or the window of the plan being edited.
+  // Both default from the profile (see resolvePlanDates).
+  startDate?: string;
+  days?: number;
+  // Each item's name and use-by date; items expiring within the plan are used up first.
+  pantryItems?: PantryItemRequest[];
+  // The user to plan for; only read on scheduled runs made with the FUNCTION_SECRET.
+  user_id?: string;
 }
 
-// --- END: UTILITIES ---
-
-
-// --- START: TYPE DEFINITIONS ---
-
-interface Recipe {
-  title: string;
-  description: string;
-  ingredients: string[];
-  recipe: string;
-  calories: number;
-  created_by_user: string;
+// Everything about the user that shapes every generated dish.
+interface PlanningContext {
+  pantryItems: string[];
+  // Pantry items that expire before the plan ends, soonest first.
+  expiringItems: ExpiringItem[];
+  profile: UserProfile;
+  dislikes: Dislikes;
+  // Dishes served in the profile's variety lookback window, which must not come back yet.
+  recentMeals: RecentMeals;
 }
 
-interface MealDay {
-  day: string;
-  main_dish: Recipe;
-  side_dish?: Recipe | null;
-  total_time_to_cook: string;
-  cooking_tips?: string;
+interface GenerationOptions {
+  // Every generated day is one meal in this slot.
+  mealSlot: MealSlot;
+  dayCount: number;
+  // Titles already on the plan that the model must not repeat.
+  avoidTitles: string[];
+  // Main dishes staying on the plan in the same slot, counted against the weekly protein and cuisine caps.
+  keptMains: VarietyDish[];
+  extraInstructions?: string;
+  // Only the side dish of each generated day will be kept.
+  sideDishOnly?: boolean;
 }
 
-interface MealPlanResponse {
-  days: MealDay[];
-  shopping_list: { category: string; items: string[] }[];
-}
+// A dish on the plan: reused from the library (has an id) or freshly generated.
+type PlanDish = Recipe & { id?: string; embedding?: number[] };
 
-interface MealPlanRequest {
-  userId: string;
-  pantryItems: string[];
-  dietaryPreferences: string;
-  cookTime: string;
-}
+type PlanDay = Omit<MealDay, 'main_dish' | 'side_dish'> & {
+  main_dish: PlanDish;
+  side_dish?: PlanDish | null;
+};
 
-interface MealHistoryDay {
-    day: string;
-    main_dish_id: string;
-    side_dish_id: string | null;
-    total_time_to_cook: string;
-    cooking_tips?: string;
+interface PlannedDay {
+  meal_date: string;
+  meal_slot: MealSlot;
+  is_locked: boolean;
+  total_time_to_cook: string | null;
+  cooking_tips: string | null;
+  main_dish: { id: string; title: string; ingredients: string; cuisine: string | null };
+  side_dish: { id: string; title: string } | null;
 }
 
 // --- END: TYPE DEFINITIONS ---
 
-async function generateMealPlan(pantryItems: string[], dietaryPreferences: string, cookTime: string): Promise<MealDay[]> {
-  const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
+// A week of meals costs one generation (see generationCost).
+const DAYS_PER_WEEK = 7;
+// How many times days that break a hard constraint are sent back for replacement.
+const MAX_CONSTRAINT_ROUNDS = 2;
+
+// What each meal slot's dishes should be like.
+const MEAL_SLOT_INSTRUCTIONS: Record<MealSlot, string> = {
+  breakfast: "every entry is a breakfast: quick morning dishes, mostly under 20 minutes; a side dish is rarely needed",
+  lunch: "every entry is a lunch: lighter than dinner and easy to pack or make ahead",
+  dinner: "every entry is a dinner: a main dish with a side dish that pairs well with it",
+  snack: "every entry is a snack: a small bite between meals, around 150-250 calories, usually without a side dish",
+};
+
+/** Spells out what the user's diets rule out, e.g. "meat, poultry, ... (Vegan)". */
+function describeForbiddenCategories(diets: string[]): string {
+  return diets
+    .filter((diet) => DIET_FORBIDDEN_CATEGORIES[diet])
+    .map((diet) => `${DIET_FORBIDDEN_CATEGORIES[diet].join(", ")} (${diet})`)
+    .join("; ");
+}
+
+async function generateMealPlan(
+  { pantryItems, expiringItems, profile, dislikes, recentMeals }: PlanningContext,
+  { mealSlot, dayCount, avoidTitles, extraInstructions }: GenerationOptions,
+): Promise<MealDay[]> {
   const prompt = `
-    Generate a 7-day meal plan based on the following criteria:
+    Generate a ${dayCount}-day ${mealSlot} plan based on the following criteria:
+    - Meal: ${MEAL_SLOT_INSTRUCTIONS[mealSlot]}
     - Pantry items available: ${pantryItems.join(", ")}
-    - Dietary preferences: ${dietaryPreferences}
-    - Maximum cooking time per meal: ${cookTime}
-    
-    For each day, provide a main dish, an optional side dish, the total cooking time, and helpful cooking tips for the day's meal.
-    For each dish, include a title, a brief description, a list of ingredients, a step-by-step recipe, and approximate calories.
-    Ensure the response contains a complete 7-day plan.
+    - Pantry items about to expire (use them up in the earliest days, soonest first): ${describeExpiringItems(expiringItems) || "none"}
+    ${describeProfileConstraints(profile).map((line) => `- ${line}`).join("\n    ")}
+    - Dishes already on this week's plan (do not repeat them): ${avoidTitles.join(", ") || "none"}
+    - Dishes served in the last ${profile.variety.lookbackWeeks} week(s) (do not repeat them): ${recentMeals.titles.join(", ") || "none"}
+    - HARD CONSTRAINT: never use these ingredients, in any form or under any other name: ${dislikes.ingredients.join(", ") || "none"}
+    - HARD CONSTRAINT: never suggest these recipes or close variations of them: ${dislikes.recipeTitles.join(", ") || "none"}
+    - HARD CONSTRAINT: every dish must be free of: ${describeForbiddenCategories(profile.dietaryRestrictions) || "nothing"}
+    ${extraInstructions ?? ""}
+
+    For each day, provide a main dish (the ${mealSlot} itself), an optional side dish, the total cooking time, and helpful cooking tips for the meal.
+    For each dish, include a title, a brief description, its cuisine (e.g. "Italian"), a list of ingredients with quantities, the recipe as a list of steps, approximate calories, and the number of servings the quantities make.
+    Each step has its instruction, its duration in minutes when it is timed (otherwise null), the oven or pan temperature with its unit "F" or "C" when it names one (otherwise null), and the 0-based indexes of the ingredients it uses.
+    Ensure the response contains a complete ${dayCount}-day plan with exactly ${dayCount} entries in "days".
+    Every dish must have non-empty ingredients and steps arrays, and calories and servings must be plain whole numbers.
 
     Return the response as a valid JSON object in the following structure: 
     {
       "days": [
         {
           "day": "Monday",
-          "main_dish": {"title": "...", "description": "...", "ingredients": ["..."], "recipe": "...", "calories": 0},
-          "side_dish": {"title": "...", "description": "...", "ingredients": ["..."], "recipe": "...", "calories": 0},
+          "main_dish": {"title": "...", "description": "...", "cuisine": "...", "ingredients": ["..."], "steps": [{"instruction": "...", "duration_minutes": null, "temperature": null, "temperature_unit": null, "ingredient_positions": [0]}], "calories": 0, "servings": 0},
+          "side_dish": {"title": "...", "description": "...", "cuisine": "...", "ingredients": ["..."], "steps": [{"instruction": "...", "duration_minutes": null, "temperature": null, "temperature_unit": null, "ingredient_positions": [0]}], "calories": 0, "servings": 0},
           "total_time_to_cook": "...",
           "cooking_tips": "..."
         }
@@ -88,86 +149,500 @@ async function generateMealPlan(pantryItems: string[], dietaryPreferences: strin
     }
   `;
 
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${openAIApiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4-turbo-preview",
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-    }),
+  return requestMealPlan(getProvider(), prompt, dayCount);
+}
+
+function findDietViolations(dish: Recipe, diets: string[]): string[] {
+  return checkIngredientsAgainstDiets(dish.ingredients, diets).map(({ diet, term, ingredient }) =>
+    `"${dish.title}" is not ${diet}: contains ${term} ("${ingredient}")`
+  );
+}
+
+function findDishViolations(dish: Recipe, context: PlanningContext): string[] {
+  return [
+    ...findDislikeViolations(dish, context.dislikes),
+    ...findDietViolations(dish, context.profile.dietaryRestrictions),
+  ];
+}
+
+const keptDishes = (day: MealDay, { sideDishOnly }: GenerationOptions) =>
+  (sideDishOnly ? [day.side_dish] : [day.main_dish, day.side_dish]).filter((dish): dish is Recipe => !!dish);
+
+/** Every hard-constraint violation in a generated day, ignoring the main dish when only the side is kept. */
+function findDayViolations(day: MealDay, context: PlanningContext, options: GenerationOptions): string[] {
+  return keptDishes(day, options).flatMap((dish) => findDishViolations(dish, context));
+}
+
+/** Dishes in a generated day that were served within the user's variety lookback window. */
+function findRecentRepeats(day: MealDay, context: PlanningContext, options: GenerationOptions): string[] {
+  return keptDishes(day, options).flatMap((dish) => {
+    const recentRepeat = findRecentRepeat(dish.title, context.recentMeals);
+    return recentRepeat
+      ? [`"${dish.title}" repeats "${recentRepeat}", served in the last ${context.profile.variety.lookbackWeeks} week(s)`]
+      : [];
   });
+}
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    log("ERROR", "OpenAI API request failed.", { status: response.status, body: errorBody });
-    throw new Error("Failed to fetch meal plan from OpenAI.");
+/**
+ * Generates the plan, then checks every day against the user's hard
+ * constraints and the variety policy, and regenerates only the offending days,
+ * so days that already comply are never thrown away. Variety is best effort:
+ * if it still can't be met after the last round the plan is kept.
+ */
+async function generateCompliantPlan(context: PlanningContext, options: GenerationOptions): Promise<MealDay[]> {
+  const days = await generateMealPlan(context, options);
+
+  for (let round = 1; ; round++) {
+    const varietyReasons = options.sideDishOnly
+      ? []
+      : findVarietyViolations(days.map((day) => day.main_dish), options.keptMains, context.profile.variety);
+    const offending = days
+      .map((day, index) => {
+        const hardReasons = findDayViolations(day, context, options);
+        return {
+          index,
+          hardReasons,
+          reasons: [...hardReasons, ...findRecentRepeats(day, context, options), ...(varietyReasons[index] ?? [])],
+        };
+      })
+      .filter(({ reasons }) => reasons.length > 0);
+
+    if (offending.length === 0) {
+      return days;
+    }
+
+    const reasons = offending.flatMap(({ reasons }) => reasons);
+    if (round > MAX_CONSTRAINT_ROUNDS) {
+      const hardReasons = offending.flatMap(({ hardReasons }) => hardReasons);
+      if (hardReasons.length === 0) {
+        log("INFO", "Could not fully meet the variety policy; keeping the plan.", { reasons });
+        return days;
+      }
+      throw new MealPlanValidationError(hardReasons, MAX_CONSTRAINT_ROUNDS + 1);
+    }
+    log("ERROR", "Generated days broke hard constraints; regenerating them.", { round, reasons });
+
+    const keptTitles = days
+      .filter((_, index) => !offending.some((o) => o.index === index))
+      .flatMap((day) => [day.main_dish.title, day.side_dish?.title ?? ""])
+      .filter(Boolean);
+    const replacements = await generateMealPlan(context, {
+      ...options,
+      dayCount: offending.length,
+      avoidTitles: [...options.avoidTitles, ...keptTitles],
+      extraInstructions: `${options.extraInstructions ?? ""}\n    Earlier suggestions were rejected because: ${reasons.join("; ")}.`,
+    });
+    offending.forEach(({ index }, i) => {
+      days[index] = replacements[i];
+    });
   }
+}
 
-  const data = await response.json();
-  const rawContent = data.choices[0].message.content;
-  log("INFO", "Received raw content from OpenAI.", { rawContent });
+/**
+ * Fills as many days as possible with library recipes the user is likely to
+ * enjoy, capped at LIBRARY_MAX_SHARE of the request (default 0.5) so new
+ * recipes keep entering the library, and only taking matches scoring at least
+ * LIBRARY_MIN_SCORE (default 0.8). Every pick still has to pass the hard
+ * constraints. The library is an optimization: any failure means generating
+ * every day instead.
+ */
+async function pickLibraryDays(
+  adminClient: SupabaseClient,
+  userId: string,
+  context: PlanningContext,
+  options: GenerationOptions,
+): Promise<PlanDay[]> {
+  const maxShare = Number(Deno.env.get("LIBRARY_MAX_SHARE") ?? 0.5);
+  const minScore = Number(Deno.env.get("LIBRARY_MIN_SCORE") ?? 0.8);
+  const maxDays = Math.floor(options.dayCount * maxShare);
+  if (options.sideDishOnly || maxDays === 0) return [];
 
   try {
-    const jsonMatch = rawContent.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON object found in the response from OpenAI.");
+    const { mealSlot } = options;
+    const [queryEmbedding] = await getProvider().embed([tasteQueryText(context.profile, context.pantryItems, mealSlot)]);
+    const [mains, sides] = await Promise.all([
+      findLibraryRecipes(adminClient, userId, queryEmbedding, 'main', maxDays * 3, mealSlot, context.recentMeals.recipeIds),
+      findLibraryRecipes(adminClient, userId, queryEmbedding, 'side', maxDays * 3, mealSlot, context.recentMeals.recipeIds),
+    ]);
+
+    const usedTitles = [...options.avoidTitles];
+    const take = (candidates: LibraryRecipe[], fits: (dish: LibraryRecipe) => boolean = () => true) => {
+      const pick = candidates.find((dish) =>
+        dish.score >= minScore &&
+        !usedTitles.some((title) => isSimilarTitle(title, dish.title)) &&
+        findDishViolations(dish, context).length === 0 &&
+        fits(dish)
+      );
+      if (pick) usedTitles.push(pick.title);
+      return pick;
+    };
+    // A main only fits if it keeps the week within the protein and cuisine caps.
+    const fitsVarietyCaps = (dish: LibraryRecipe) => {
+      const pickedMains = days.map((day) => day.main_dish);
+      return findVarietyViolations([...pickedMains, dish], options.keptMains, context.profile.variety)
+        .every((reasons) => reasons.length === 0);
+    };
+
+    const days: PlanDay[] = [];
+    while (days.length < maxDays) {
+      const main = take(mains, fitsVarietyCaps);
+      if (!main) break;
+      days.push({
+        day: "",
+        main_dish: main,
+        side_dish: take(sides) ?? null,
+        total_time_to_cook: main.total_time_to_cook ?? "",
+        cooking_tips: main.cooking_tips ?? undefined,
+      });
     }
-    
-    const mealPlan = JSON.parse(jsonMatch[0]);
-    return mealPlan.days;
+    log("INFO", "Filled days from the recipe library.", { userId, mealSlot, libraryDays: days.length, requested: options.dayCount });
+    return days;
   } catch (error) {
-    log("ERROR", "Failed to parse meal plan from OpenAI.", { error: error.message, content: rawContent });
-    throw new Error("Failed to parse meal plan from OpenAI.");
+    log("ERROR", "Library lookup failed; generating every day.", { error: (error as Error).message, userId });
+    return [];
   }
 }
 
-async function saveOrGetRecipe(supabaseClient: SupabaseClient, dish: Recipe, userId: string): Promise<string> {
-    if (!dish || !dish.title) {
-        log("ERROR", "Invalid dish object provided. Skipping.", { dish });
-        return '00000000-0000-0000-0000-000000000000';
-    }
+/** The generated dishes that will be saved as new recipes unless they turn out to be duplicates. */
+function newDishes(days: PlanDay[], { sideDishOnly }: GenerationOptions): PlanDish[] {
+  return days
+    .flatMap((day) => sideDishOnly ? [day.side_dish] : [day.main_dish, day.side_dish])
+    .filter((dish): dish is PlanDish => !!dish && !dish.id);
+}
 
-    const { data: existingRecipe, error: selectError } = await supabaseClient
-        .from('recipes')
-        .select('id')
-        .eq('title', dish.title)
-        .maybeSingle();
-    
-    if (selectError) {
-        log("ERROR", "Error checking for existing recipe.", { error: selectError });
-        throw selectError;
-    }
+/** Attaches an embedding to every newly generated dish that will be saved. Failures are logged, not surfaced. */
+async function embedNewDishes(days: PlanDay[], options: GenerationOptions) {
+  const dishes = newDishes(days, options);
+  if (dishes.length === 0) return;
 
-    if (existingRecipe) {
-        return existingRecipe.id;
+  try {
+    const embeddings = await getProvider().embed(dishes.map(recipeEmbeddingText));
+    dishes.forEach((dish, index) => {
+      dish.embedding = embeddings[index];
+    });
+  } catch (error) {
+    log("ERROR", "Failed to embed new recipes; saving them without embeddings.", { error: (error as Error).message });
+  }
+}
+
+/** Points generated dishes that duplicate a library recipe at that recipe instead of saving a copy. */
+async function linkExistingRecipes(adminClient: SupabaseClient, days: PlanDay[], options: GenerationOptions) {
+  await Promise.all(newDishes(days, options).map(async (dish) => {
+    try {
+      const existingId = await findExistingRecipeId(adminClient, dish, dish.embedding);
+      if (existingId) {
+        dish.id = existingId;
+      }
+    } catch (error) {
+      log("ERROR", "Duplicate check failed; saving the dish as a new recipe.", { error: (error as Error).message, title: dish.title });
     }
+  }));
+}
 
-    const { data: newRecipe, error: insertError } = await supabaseClient
-        .from('recipes')
-        .insert({
-            title: dish.title,
-            description: dish.description,
-            ingredients: dish.ingredients.join('\n'),
-            recipe: dish.recipe,
-            calories: dish.calories,
-            created_by_user: userId,
-        })
-        .select('id')
-        .single();
-        
-    if (insertError) {
-        log("ERROR", "Failed to insert new recipe.", { error: insertError });
-        throw insertError;
+/**
+ * Library days first, then the LLM fills the gaps. New dishes are embedded and
+ * deduplicated against the library. Days that use up expiring pantry items are
+ * then moved to the earliest dates.
+ */
+async function planDays(
+  adminClient: SupabaseClient,
+  userId: string,
+  context: PlanningContext,
+  options: GenerationOptions,
+): Promise<PlanDay[]> {
+  const libraryDays = await pickLibraryDays(adminClient, userId, context, options);
+  const remaining = options.dayCount - libraryDays.length;
+  const generatedDays: PlanDay[] = remaining > 0
+    ? await generateCompliantPlan(context, {
+      ...options,
+      dayCount: remaining,
+      avoidTitles: [
+        ...options.avoidTitles,
+        ...libraryDays.flatMap((day) => [day.main_dish.title, day.side_dish?.title ?? ""]).filter(Boolean),
+      ],
+      keptMains: [...options.keptMains, ...libraryDays.map((day) => day.main_dish)],
+    })
+    : [];
+  await embedNewDishes(generatedDays, options);
+  await linkExistingRecipes(adminClient, generatedDays, options);
+  return orderDaysByExpiry([...libraryDays, ...generatedDays], context.expiringItems);
+}
+
+/**
+ * The dates a request works on, counted in the user's time zone. A new plan
+ * defaults to the profile's plan length, starting on the next
+ * plan_generation_day; swaps send the window of the plan they edit.
+ */
+function resolvePlanDates(
+  mode: GenerationMode,
+  startDate: string | undefined,
+  days: number | undefined,
+  profile: UserProfile,
+): string[] {
+  const today = todayIn(profile.timeZone);
+  const start = startDate ?? defaultPlanStart(today, profile.planStartDay);
+  const length = days ?? profile.planLengthDays;
+  // A swap may edit the tail end of a plan, so only new plans have a minimum length.
+  const minDays = mode === 'full' ? MIN_PLAN_DAYS : 1;
+
+  if (!isDateString(start)) {
+    throw new BadRequestError("startDate must be a date in YYYY-MM-DD format.");
+  }
+  if (mode === 'full' && start < today) {
+    throw new BadRequestError("A new plan can't start before today.");
+  }
+  if (!Number.isInteger(length) || length < minDays || length > MAX_PLAN_DAYS) {
+    throw new BadRequestError(`days must be a whole number from ${minDays} to ${MAX_PLAN_DAYS}.`);
+  }
+  return planDatesFrom(start, length);
+}
+
+async function loadPlannedDays(supabaseClient: SupabaseClient, userId: string, planDates: string[]): Promise<PlannedDay[]> {
+  const { data, error } = await supabaseClient
+    .from('user_meal_history')
+    .select(`
+      meal_date,
+      meal_slot,
+      is_locked,
+      total_time_to_cook,
+      cooking_tips,
+      main_dish:recipes!main_dish_recipe_id(id, title, ingredients, cuisine),
+      side_dish:recipes!side_dish_recipe_id(id, title)
+    `)
+    .eq('user_id', userId)
+    .gte('meal_date', planDates[0])
+    .lte('meal_date', planDates[planDates.length - 1]);
+
+  if (error) {
+    log("ERROR", "Failed to load the current plan.", { error, userId });
+    throw error;
+  }
+
+  return (data ?? []) as unknown as PlannedDay[];
+}
+
+// Library dishes are referenced by id; new ones are sent in full, with their normalized
+// title, parsed ingredient lines and numbered steps, for upsert_plan_recipe to insert.
+const toRecipePayload = ({ steps, ...dish }: PlanDish) =>
+  dish.id
+    ? { id: dish.id }
+    : {
+      ...dish,
+      normalized_title: normalizeRecipeTitle(dish.title),
+      ingredients: dish.ingredients.join('\n'),
+      recipe: formatStepsText(steps),
+      recipe_ingredients: parseIngredientList(dish.ingredients),
+      recipe_steps: steps.map((step, position) => ({ ...step, position })),
+    };
+
+/** The meals of one slot that a request regenerates. */
+interface SlotTarget {
+  dates: string[];
+  options: GenerationOptions;
+  // Maps the generated days onto save_meal_plan day payloads.
+  toPlanDays(generated: PlanDay[]): Record<string, unknown>[];
+}
+
+/**
+ * Works out which meals a request regenerates, one target per meal slot, and
+ * what the model needs to know about the rest of the plan. Locked meals are
+ * skipped by a full regeneration but can still be swapped explicitly.
+ */
+function buildRegenerationTargets(
+  mode: GenerationMode,
+  targetDate: string | undefined,
+  targetSlot: MealSlot,
+  planDates: string[],
+  mealSlots: MealSlot[],
+  plannedDays: PlannedDay[],
+): SlotTarget[] {
+  const titlesOf = (days: PlannedDay[]) =>
+    days.flatMap((d) => [d.main_dish?.title, d.side_dish?.title]).filter((t): t is string => !!t);
+  // Variety caps are per slot: eggs at breakfast don't count against the dinners.
+  const mainsOf = (days: PlannedDay[], slot: MealSlot): VarietyDish[] =>
+    days.filter((d) => d.main_dish && d.meal_slot === slot).map((d) => ({
+      title: d.main_dish.title,
+      ingredients: d.main_dish.ingredients.split('\n'),
+      cuisine: d.main_dish.cuisine,
+    }));
+
+  if (mode === 'full') {
+    const lockedDays = plannedDays.filter((d) => d.is_locked);
+    const targets = mealSlots.map((mealSlot): SlotTarget => {
+      const dates = planDates.filter((date) =>
+        !lockedDays.some((d) => d.meal_date === date && d.meal_slot === mealSlot)
+      );
+      return {
+        dates,
+        options: {
+          mealSlot,
+          dayCount: dates.length,
+          avoidTitles: titlesOf(lockedDays),
+          keptMains: mainsOf(lockedDays, mealSlot),
+        },
+        toPlanDays: (generated) => generated.map((day, index) => ({
+          meal_date: dates[index],
+          meal_slot: mealSlot,
+          main_dish: toRecipePayload(day.main_dish),
+          side_dish: day.side_dish ? toRecipePayload(day.side_dish) : null,
+          total_time_to_cook: day.total_time_to_cook,
+          cooking_tips: day.cooking_tips,
+        })),
+      };
+    }).filter((target) => target.dates.length > 0);
+    if (targets.length === 0) {
+      throw new BadRequestError("Every meal of the plan is locked. Unlock a meal to regenerate it.");
     }
-    if (!newRecipe) {
-        throw new Error("Failed to create new recipe and retrieve its ID.");
+    return targets;
+  }
+
+  if (mode !== 'day' && mode !== 'side') {
+    throw new BadRequestError(`Unknown mode "${mode}".`);
+  }
+  if (!targetDate || !planDates.includes(targetDate)) {
+    throw new BadRequestError("targetDate must be one of the dates in the current plan.");
+  }
+
+  const isTarget = (d: PlannedDay) => d.meal_date === targetDate && d.meal_slot === targetSlot;
+  const current = plannedDays.find(isTarget);
+  const otherDays = plannedDays.filter((d) => !isTarget(d));
+
+  if (mode === 'day') {
+    return [{
+      dates: [targetDate],
+      options: {
+        mealSlot: targetSlot,
+        dayCount: 1,
+        avoidTitles: titlesOf(current ? [...otherDays, current] : otherDays),
+        keptMains: mainsOf(otherDays, targetSlot),
+      },
+      toPlanDays: ([day]) => [{
+        meal_date: targetDate,
+        meal_slot: targetSlot,
+        is_locked: current?.is_locked ?? false,
+        main_dish: toRecipePayload(day.main_dish),
+        side_dish: day.side_dish ? toRecipePayload(day.side_dish) : null,
+        total_time_to_cook: day.total_time_to_cook,
+        cooking_tips: day.cooking_tips,
+      }],
+    }];
+  }
+
+  if (!current) {
+    throw new BadRequestError(`There is no planned ${MEAL_SLOT_LABELS[targetSlot].toLowerCase()} on that date to swap the side dish for.`);
+  }
+  return [{
+    dates: [targetDate],
+    options: {
+      mealSlot: targetSlot,
+      dayCount: 1,
+      avoidTitles: titlesOf(plannedDays),
+      keptMains: [],
+      extraInstructions: `The main dish is fixed: use "${current.main_dish.title}" as the main dish and suggest a new side dish that pairs well with it.`,
+      sideDishOnly: true,
+    },
+    // Only the side dish is new; the main dish keeps pointing at its existing recipe.
+    toPlanDays: ([day]) => [{
+      meal_date: targetDate,
+      meal_slot: targetSlot,
+      is_locked: current.is_locked,
+      main_dish: { id: current.main_dish.id },
+      side_dish: day.side_dish ? toRecipePayload(day.side_dish) : null,
+      total_time_to_cook: day.total_time_to_cook,
+      cooking_tips: current.cooking_tips ?? day.cooking_tips,
+    }],
+  }];
+}
+
+/**
+ * Persists the plan through the save_meal_plan RPC, which upserts recipes,
+ * replaces the history rows for the given days and charges the quota in a
+ * single transaction. Returns every saved day in the plan window with its
+ * real recipe rows.
+ */
+async function savePlan(
+  adminClient: SupabaseClient,
+  userId: string,
+  planDates: string[],
+  days: Record<string, unknown>[],
+  generationsToCharge: number,
+) {
+  const { data, error } = await adminClient.rpc('save_meal_plan', {
+    user_id_param: userId,
+    generations_to_charge: generationsToCharge,
+    plan: {
+      start_date: planDates[0],
+      end_date: planDates[planDates.length - 1],
+      days,
+    },
+  });
+
+  if (error) {
+    log("ERROR", "Failed to save meal plan.", { error, userId });
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Rebuilds the shopping list of the plan the new meals belong to: a full plan
+ * is its own window, a swapped meal updates the list of the window it falls in.
+ * Days already past are left off. A failure here is logged rather than thrown,
+ * since the plan itself was saved; the app saves the list again when it loads.
+ */
+async function updateShoppingList(
+  adminClient: SupabaseClient,
+  userId: string,
+  mode: GenerationMode,
+  planDates: string[],
+  profile: UserProfile,
+) {
+  try {
+    const window: PlanWindow | null = mode === 'full'
+      ? { start: planDates[0], end: planDates[planDates.length - 1] }
+      : (await findShoppingList(adminClient, userId, planDates[0]))?.window ?? null;
+    if (!window) return;
+
+    const today = todayIn(profile.timeZone);
+    await refreshShoppingList(adminClient, userId, window, window.start < today ? today : window.start);
+    log("INFO", "Updated the plan's shopping list.", { userId, window });
+  } catch (error) {
+    log("ERROR", "Failed to update the shopping list.", { userId, error: String(error) });
+  }
+}
+
+/**
+ * The user a request plans for and the client to read their rows with. App
+ * requests are authenticated by the user's JWT. send-weekly-plan's scheduled
+ * runs send the FUNCTION_SECRET bearer token instead and name the user in
+ * `user_id`; their rows are read with the service role. Null when neither
+ * authenticates the caller.
+ */
+async function authenticate(
+  authHeader: string,
+  body: MealPlanRequest,
+): Promise<{ userId: string; supabaseClient: SupabaseClient } | null> {
+  const functionSecret = Deno.env.get('FUNCTION_SECRET');
+  if (functionSecret && authHeader === `Bearer ${functionSecret}`) {
+    if (!body.user_id) {
+      throw new BadRequestError("Scheduled runs must name the user in user_id.");
     }
-  
-    return newRecipe.id;
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    return { userId: body.user_id, supabaseClient };
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user }, error } = await supabaseClient.auth.getUser();
+  if (error || !user) {
+    log("ERROR", "Failed to authenticate user.", { error });
+    return null;
+  }
+  return { userId: user.id, supabaseClient };
 }
 
 serve(async (req: Request) => {
@@ -176,93 +651,113 @@ serve(async (req: Request) => {
     }
 
     try {
-        const { userId, pantryItems, dietaryPreferences, cookTime }: MealPlanRequest = await req.json();
-        
-        const supabaseClient: SupabaseClient = createClient(
-            Deno.env.get('SUPABASE_URL') ?? '',
-            Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-            { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
-        );
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader) {
+            return new Response(JSON.stringify({ error: "Missing authorization header." }), {
+                status: 401,
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+            });
+        }
 
-        const mealPlan = await generateMealPlan(pantryItems, dietaryPreferences, cookTime);
-        log("INFO", "Generated meal plan from OpenAI.", { userId });
-
-        const mealDaysWithRecipeIds: MealHistoryDay[] = await Promise.all(
-            mealPlan.map(async (dayPlan) => {
-                const mainDishId = await saveOrGetRecipe(supabaseClient, dayPlan.main_dish, userId);
-                
-                let sideDishId: string | null = null;
-                if (dayPlan.side_dish) {
-                    sideDishId = await saveOrGetRecipe(supabaseClient, dayPlan.side_dish, userId);
-                }
-
-                return {
-                    day: dayPlan.day,
-                    main_dish_id: mainDishId,
-                    side_dish_id: sideDishId,
-                    total_time_to_cook: dayPlan.total_time_to_cook,
-                    cooking_tips: dayPlan.cooking_tips,
-                };
-            })
-        );
-        
-        const { error: decrementError } = await supabaseClient.rpc(
-            'decrement_generations', 
-            { user_id_param: userId }
-        );
+        const body: MealPlanRequest = await req.json();
+        const caller = await authenticate(authHeader, body);
+        if (!caller) {
+            return new Response(JSON.stringify({ error: "User not authenticated." }), {
+                status: 401,
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+            });
+        }
+        const { userId, supabaseClient } = caller;
 
-        if (decrementError) {
-            log("ERROR", "Failed to decrement generation count.", { error: decrementError });
-            // Decide if this should be a hard error or just a warning
-            // For now, we'll log it and continue
+        const { mode = 'full', targetDate, targetSlot = 'dinner', startDate, days, pantryItems } = body;
+        if (!isMealSlot(targetSlot)) {
+            throw new BadRequestError(`Unknown meal slot "${targetSlot}".`);
         }
 
-        const today = new Date();
-        const nextWeek = new Date();
-        nextWeek.setDate(today.getDate() + 7);
+        const [dislikes, profile] = await Promise.all([
+            loadDislikes(supabaseClient, userId),
+            loadProfile(supabaseClient, userId),
+        ]);
+        const planDates = resolvePlanDates(mode, startDate, days, profile);
+        const plannedDays = await loadPlannedDays(supabaseClient, userId, planDates);
+        const targets = buildRegenerationTargets(mode, targetDate, targetSlot, planDates, profile.mealSlots, plannedDays);
+        const recentMeals = await loadRecentMeals(supabaseClient, userId, planDates[0], profile.variety.lookbackWeeks);
 
-        const { error: deleteError } = await supabaseClient
-            .from('user_meal_history')
-            .delete()
-            .eq('user_id', userId)
-            .gte('meal_date', today.toISOString().split('T')[0])
-            .lte('meal_date', nextWeek.toISOString().split('T')[0]);
+        const adminClient: SupabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        );
 
-        if (deleteError) {
-            log("ERROR", "Failed to delete old meal plan.", { error: deleteError });
-            throw deleteError;
-        }
-        
-        const historyRecords = mealDaysWithRecipeIds.map((day, index) => {
-            const mealDate = new Date();
-            mealDate.setDate(mealDate.getDate() + index);
-            return {
-                user_id: userId,
-                main_dish_recipe_id: day.main_dish_id,
-                side_dish_recipe_id: day.side_dish_id,
-                meal_date: mealDate.toISOString().split('T')[0],
-                total_time_to_cook: day.total_time_to_cook,
-                cooking_tips: day.cooking_tips,
-            };
-        });
+        const mealCount = targets.reduce((sum, target) => sum + target.dates.length, 0);
+        const cost = generationCost(mode, mealCount, DAYS_PER_WEEK * profile.mealSlots.length);
+        const reservation = await reserveGeneration(adminClient, userId, cost);
+        log("INFO", "Reserved generation quota.", { userId, mode, ...reservation });
+
+        try {
+            const pantry = readPantryItems(pantryItems, planDates[planDates.length - 1]);
+            const context: PlanningContext = { pantryItems: pantry.names, expiringItems: pantry.expiring, profile, dislikes, recentMeals };
+            // Slots are planned in parallel; each one is its own set of prompts and library lookups.
+            const planDaysBySlot = await Promise.all(targets.map(async (target) =>
+                target.toPlanDays(await planDays(adminClient, userId, context, target.options))
+            ));
+            log("INFO", "Planned meals from the library and LLM provider.", {
+                userId,
+                mode,
+                meals: targets.map((target) => ({ slot: target.options.mealSlot, dates: target.dates })),
+            });
 
-        const { error: historyError } = await supabaseClient
-            .from('user_meal_history')
-            .insert(historyRecords);
+            const savedPlan = await savePlan(
+                adminClient,
+                userId,
+                planDates,
+                planDaysBySlot.flat(),
+                reservation.metered ? reservation.amount : 0,
+            );
+            log("INFO", "Successfully saved meal plan to user history.", { userId });
+
+            await updateShoppingList(adminClient, userId, mode, planDates, profile);
+
+            const savedMains = (savedPlan as { main_dish: { title: string; ingredients: string; cuisine: string | null } }[])
+                .map(({ main_dish }) => ({ ...main_dish, ingredients: main_dish.ingredients.split('\n') }));
+            const variety = buildVarietyReport(savedMains, recentMeals, profile.variety.lookbackWeeks);
+
+            return new Response(
+                JSON.stringify({ mealPlan: savedPlan, generations_remaining: reservation.generationsRemaining, variety }),
+                { headers: { "Content-Type": "application/json", ...corsHeaders } }
+            );
+        } catch (error) {
+            // Nothing was saved, so release the hold placed on the quota.
+            await refundGeneration(adminClient, userId, reservation);
+            throw error;
+        }
 
-        if (historyError) {
-            log("ERROR", "Failed to insert into user_meal_history.", { error: historyError });
-            throw historyError;
+    } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return new Response(JSON.stringify({
+                error: error.message,
+                code: "quota_exceeded",
+                generations_remaining: error.generationsRemaining,
+            }), {
+                status: 402,
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+            });
         }
 
-        log("INFO", "Successfully saved meal plan to user history.", { userId });
+        if (error instanceof BadRequestError) {
+            return new Response(JSON.stringify({ error: error.message }), {
+                status: 400,
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+            });
+        }
 
-        return new Response(
-            JSON.stringify({ mealPlan }),
-            { headers: { "Content-Type": "application/json", ...corsHeaders } }
-        );
+        if (error instanceof MealPlanValidationError) {
+            log("ERROR", error.message, { issues: error.issues });
+            return new Response(JSON.stringify({ error: error.message, issues: error.issues }), {
+                status: 502,
+                headers: { "Content-Type": "application/json", ...corsHeaders },
+            });
+        }
 
-    } catch (error) {
         if (error instanceof SyntaxError && error.message.includes("Unexpected end of JSON input")) {
             log("ERROR", "Failed to parse request body.", { error: error.message });
             return new Response(JSON.stringify({ error: "Request body is empty or invalid." }), {
@@ -0,0 +1,147 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DEDUP_THRESHOLDS, isDuplicateRecipe, normalizeRecipeTitle } from "../_shared/recipe-dedup.ts";
+import { Recipe } from "./schema.ts";
+import { UserProfile } from "./profile.ts";
+import { log } from "./utils.ts";
+import { MEAL_SLOT_LABELS, MealSlot } from "../_shared/meal-slots.ts";
+import { DEFAULT_SERVINGS } from "../_shared/servings.ts";
+import { parseRecipeSteps } from "../_shared/recipe-steps.ts";
+
+/** A recipe already in the shared library, ranked for the current user. */
+export interface LibraryRecipe extends Recipe {
+  id: string;
+  // Taken from the last time the recipe was planned as a main dish.
+  total_time_to_cook: string | null;
+  cooking_tips: string | null;
+  score: number;
+}
+
+interface MatchedRecipeRow {
+  id: string;
+  title: string;
+  description: string | null;
+  ingredients: string;
+  recipe: string;
+  calories: number | null;
+  cuisine: string | null;
+  servings: number | null;
+  total_time_to_cook: string | null;
+  cooking_tips: string | null;
+  score: number;
+}
+
+/** The text a recipe is embedded from; kept stable so old and new embeddings stay comparable. */
+export function recipeEmbeddingText(dish: Pick<Recipe, 'title' | 'description' | 'ingredients'>): string {
+  return `${dish.title}\n${dish.description}\nIngredients: ${dish.ingredients.join(", ")}`;
+}
+
+/** What the user would like to eat, phrased like a recipe so it embeds near matching recipes. */
+export function tasteQueryText(profile: UserProfile, pantryItems: string[], mealSlot: MealSlot): string {
+  return [
+    [...profile.cuisinePreferences, ...profile.dietaryRestrictions, MEAL_SLOT_LABELS[mealSlot].toLowerCase()].join(" "),
+    profile.proteinPreferences.length > 0 ? `with ${profile.proteinPreferences.join(", ")}` : "",
+    pantryItems.length > 0 ? `Ingredients: ${pantryItems.join(", ")}` : "",
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * Ranks library recipes that have been planned in the given role and meal slot
+ * by closeness to the query, boosted toward the user's liked recipes and away
+ * from disliked ones (see match_plan_recipes). Needs a service-role client.
+ */
+export async function findLibraryRecipes(
+  adminClient: SupabaseClient,
+  userId: string,
+  queryEmbedding: number[],
+  role: 'main' | 'side',
+  count: number,
+  mealSlot: MealSlot,
+  excludeIds: string[] = [],
+): Promise<LibraryRecipe[]> {
+  const { data, error } = await adminClient.rpc('match_plan_recipes', {
+    user_id_param: userId,
+    query_embedding: JSON.stringify(queryEmbedding),
+    dish_role: role,
+    match_count: count,
+    exclude_ids: excludeIds,
+    meal_slot_param: mealSlot,
+  });
+
+  if (error) {
+    log("ERROR", "Failed to match library recipes.", { error, userId, role, mealSlot });
+    throw error;
+  }
+
+  return ((data ?? []) as MatchedRecipeRow[]).map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description ?? "",
+    ingredients: row.ingredients.split('\n').map((line) => line.trim()).filter(Boolean),
+    steps: parseRecipeSteps(row.recipe),
+    calories: row.calories ?? 0,
+    cuisine: row.cuisine,
+    servings: row.servings ?? DEFAULT_SERVINGS,
+    total_time_to_cook: row.total_time_to_cook,
+    cooking_tips: row.cooking_tips,
+    score: row.score,
+  }));
+}
+
+/**
+ * The id of a library recipe that is the same dish as `dish`, or null. Candidates
+ * are recipes with the same normalized title ("Garlic-Lemon Chicken" finds
+ * "Lemon Garlic Chicken") or, for recipes the dedupe-recipes job hasn't given
+ * one yet, the same title ignoring case, plus the nearest embeddings from
+ * match_recipe; the final call is made by isDuplicateRecipe.
+ */
+export async function findExistingRecipeId(
+  adminClient: SupabaseClient,
+  dish: Recipe,
+  embedding?: number[],
+): Promise<string | null> {
+  const similarities = new Map<string, number>();
+  if (embedding) {
+    const { data, error } = await adminClient.rpc('match_recipe', {
+      query_embedding: JSON.stringify(embedding),
+      match_threshold: DEDUP_THRESHOLDS.embeddingSimilarity,
+      match_count: 5,
+    });
+    if (error) throw error;
+    for (const match of (data ?? []) as { id: string; similarity: number }[]) {
+      similarities.set(match.id, match.similarity);
+    }
+  }
+
+  const [normalizedMatches, titleMatches] = await Promise.all([
+    adminClient
+      .from('recipes')
+      .select('id')
+      .eq('normalized_title', normalizeRecipeTitle(dish.title))
+      .limit(5),
+    adminClient
+      .from('recipes')
+      .select('id')
+      .is('normalized_title', null)
+      .ilike('title', dish.title.replace(/[%_\\]/g, '\\$&'))
+      .limit(5),
+  ]);
+  if (normalizedMatches.error) throw normalizedMatches.error;
+  if (titleMatches.error) throw titleMatches.error;
+
+  const sameTitle = [...(normalizedMatches.data ?? []), ...(titleMatches.data ?? [])];
+  const candidateIds = [...new Set([...similarities.keys(), ...sameTitle.map((row) => row.id)])];
+  if (candidateIds.length === 0) return null;
+
+  const { data: candidates, error } = await adminClient
+    .from('recipes')
+    .select('id, title, ingredients')
+    .in('id', candidateIds);
+  if (error) throw error;
+
+  const duplicate = (candidates ?? []).find((candidate) => isDuplicateRecipe(
+    dish,
+    { title: candidate.title, ingredients: candidate.ingredients.split('\n') },
+    similarities.get(candidate.id),
+  ));
+  return duplicate?.id ?? null;
+}
@@ -0,0 +1,61 @@
+import { mentionsIngredient } from "../_shared/ingredient-names.ts";
+import { expiringPantryItems } from "../_shared/pantry.ts";
+import { isDateString } from "../_shared/plan-dates.ts";
+import { Recipe } from "./schema.ts";
+
+// A pantry item as the app sends it; older clients sent only its name.
+export type PantryItemRequest = string | { name: string; expiry_date?: string | null };
+
+export interface ExpiringItem {
+  name: string;
+  expiry_date: string;
+}
+
+export interface PlanPantry {
+  names: string[];
+  // Items that expire before the plan ends, soonest first.
+  expiring: ExpiringItem[];
+}
+
+/** Reads the pantry sent with the request; items expiring on or before `planEnd` are to be used up first. */
+export function readPantryItems(items: PantryItemRequest[] | undefined, planEnd: string): PlanPantry {
+  const parsed = (items ?? [])
+    .map((item) => typeof item === 'string' ? { name: item, expiry_date: null } : item)
+    .filter((item) => typeof item?.name === 'string' && item.name.trim())
+    .map((item) => ({ name: item.name.trim(), expiry_date: isDateString(item.expiry_date) ? item.expiry_date : null }));
+
+  return {
+    names: parsed.map((item) => item.name),
+    expiring: expiringPantryItems(parsed, planEnd) as ExpiringItem[],
+  };
+}
+
+/** "spinach (expires 2025-10-02), milk (expires 2025-10-03)" for the prompt. */
+export function describeExpiringItems(expiring: ExpiringItem[]): string {
+  return expiring.map((item) => `${item.name} (expires ${item.expiry_date})`).join(", ");
+}
+
+/**
+ * Moves the days that use up expiring pantry items to the front, the day using
+ * the soonest-expiring item first, so they land on the earliest dates of the
+ * plan. Other days keep their order after them.
+ */
+export function orderDaysByExpiry<T extends { main_dish: Recipe; side_dish?: Recipe | null }>(
+  days: T[],
+  expiring: ExpiringItem[],
+): T[] {
+  if (expiring.length === 0) return days;
+
+  const firstExpiry = (day: T) => {
+    const lines = [...day.main_dish.ingredients, ...(day.side_dish?.ingredients ?? [])];
+    return expiring.find((item) => lines.some((line) => mentionsIngredient(line, item.name)))?.expiry_date ?? null;
+  };
+  return days
+    .map((day, index) => ({ day, index, expiry: firstExpiry(day) }))
+    .sort((a, b) => {
+      if (a.expiry && b.expiry && a.expiry !== b.expiry) return a.expiry < b.expiry ? -1 : 1;
+      if (!!a.expiry !== !!b.expiry) return a.expiry ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(({ day }) => day);
+}
@@ -0,0 +1,32 @@
+import { assertEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import { buildFixturePlan } from "./fixtures.ts";
+import { describeExpiringItems, orderDaysByExpiry, readPantryItems } from "./pantry.ts";
+
+Deno.test("readPantryItems accepts names from older clients and items with use-by dates", () => {
+  const pantry = readPantryItems(
+    ["rice", { name: " spinach ", expiry_date: "2025-10-03" }, { name: "milk", expiry_date: "2025-10-20" }, { name: "", expiry_date: null }],
+    "2025-10-07",
+  );
+  assertEquals(pantry.names, ["rice", "spinach", "milk"]);
+  assertEquals(pantry.expiring, [{ name: "spinach", expiry_date: "2025-10-03" }]);
+  assertEquals(readPantryItems(undefined, "2025-10-07"), { names: [], expiring: [] });
+});
+
+Deno.test("describeExpiringItems lists each item with its date", () => {
+  assertEquals(
+    describeExpiringItems([{ name: "spinach", expiry_date: "2025-10-02" }, { name: "milk", expiry_date: "2025-10-03" }]),
+    "spinach (expires 2025-10-02), milk (expires 2025-10-03)",
+  );
+});
+
+Deno.test("orderDaysByExpiry moves the days that use up expiring items to the front", () => {
+  const days = buildFixturePlan("expiry test", 4).days;
+  const lemonDay = days.findIndex((day) =>
+    [...day.main_dish.ingredients, ...(day.side_dish?.ingredients ?? [])].some((line) => line.includes("lemon"))
+  );
+  const ordered = orderDaysByExpiry(days, [{ name: "lemon", expiry_date: "2025-10-02" }]);
+  assertEquals(lemonDay > 0, true);
+  assertEquals(ordered[0], days[lemonDay]);
+  assertEquals(ordered.length, days.length);
+  assertEquals(orderDaysByExpiry(days, []), days);
+});
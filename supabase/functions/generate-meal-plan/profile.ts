@@ -0,0 +1,119 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { BadRequestError, log } from "./utils.ts";
+import { VarietyPolicy } from "./variety.ts";
+import { MealSlot, mealSlotsFor } from "../_shared/meal-slots.ts";
+import { DEFAULT_PLAN_DAYS } from "../_shared/plan-dates.ts";
+import { parseServings } from "../_shared/servings.ts";
+
+/** The saved preferences that shape a plan, read from `profiles` rather than trusted from the request. */
+export interface UserProfile {
+  dietaryRestrictions: string[];
+  cuisinePreferences: string[];
+  proteinPreferences: string[];
+  kitchenEquipment: string[];
+  // The meals of the day to plan, from `meal_types`.
+  mealSlots: MealSlot[];
+  cookingTime: string | null;
+  skillLevel: string | null;
+  servingSize: string | null;
+  budget: string | null;
+  healthGoals: string | null;
+  variety: VarietyPolicy;
+  // IANA time zone that plan dates are counted in.
+  timeZone: string;
+  // Default length of a new plan, and the weekday it starts on.
+  planLengthDays: number;
+  planStartDay: string | null;
+}
+
+export async function loadProfile(supabaseClient: SupabaseClient, userId: string): Promise<UserProfile> {
+  const { data, error } = await supabaseClient
+    .from('profiles')
+    .select('dietary_restrictions, cuisine_preferences, protein_preferences, kitchen_equipment, meal_types, cooking_time, skill_level, serving_size, budget, health_goals, variety_lookback_weeks, max_protein_repeats, max_cuisine_repeats, timezone, plan_length_days, plan_generation_day')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    log("ERROR", "Failed to load profile.", { error, userId });
+    throw error;
+  }
+  if (!data) {
+    throw new BadRequestError("Set your preferences before generating a meal plan.");
+  }
+
+  return {
+    dietaryRestrictions: (data.dietary_restrictions ?? []).filter((diet: string) => diet !== 'None'),
+    cuisinePreferences: data.cuisine_preferences ?? [],
+    proteinPreferences: data.protein_preferences ?? [],
+    kitchenEquipment: data.kitchen_equipment ?? [],
+    mealSlots: mealSlotsFor(data.meal_types),
+    cookingTime: data.cooking_time,
+    skillLevel: data.skill_level,
+    servingSize: data.serving_size,
+    budget: data.budget,
+    healthGoals: data.health_goals,
+    variety: {
+      lookbackWeeks: data.variety_lookback_weeks ?? 2,
+      maxProteinRepeats: data.max_protein_repeats ?? 2,
+      maxCuisineRepeats: data.max_cuisine_repeats ?? 3,
+    },
+    timeZone: data.timezone ?? 'UTC',
+    planLengthDays: data.plan_length_days ?? DEFAULT_PLAN_DAYS,
+    planStartDay: data.plan_generation_day,
+  };
+}
+
+const SKILL_INSTRUCTIONS: Record<string, string> = {
+  'Beginner': "basic techniques only (no deep-frying, tempering or butchery), at most 10 ingredients and 8 steps per dish",
+  'Intermediate': "common home-cooking techniques; avoid restaurant-only methods",
+  'Advanced': "any technique is fine; more involved dishes are welcome",
+};
+
+const HEALTH_GOAL_INSTRUCTIONS: Record<string, string> = {
+  'Weight Loss': "keep each dinner (main plus side) under 700 calories and favour vegetables and lean protein",
+  'Muscle Gain': "include at least 35g of protein per main dish",
+  'Heart Health': "limit saturated fat and salt; favour fish, whole grains, legumes and olive oil",
+  'General Wellness': "balance protein, whole grains and vegetables across the week",
+};
+
+/**
+ * Turns every profile field that is set into an explicit prompt line. Empty
+ * fields are left out so the model isn't told to honour a blank preference.
+ */
+export function describeProfileConstraints(profile: UserProfile): string[] {
+  const lines: string[] = [];
+
+  if (profile.dietaryRestrictions.length > 0) {
+    lines.push(`Dietary restrictions (strict): ${profile.dietaryRestrictions.join(", ")}`);
+  }
+  if (profile.cookingTime) {
+    lines.push(`Maximum total cooking time per meal: ${profile.cookingTime}`);
+  }
+  if (profile.skillLevel) {
+    const instruction = SKILL_INSTRUCTIONS[profile.skillLevel];
+    lines.push(`Cook's skill level: ${profile.skillLevel}${instruction ? ` (${instruction})` : ""}`);
+  }
+  if (profile.kitchenEquipment.length > 0) {
+    lines.push(`Appliances available besides a stovetop: ${profile.kitchenEquipment.join(", ")}. Do not require any other appliance.`);
+  }
+  if (profile.proteinPreferences.length > 0) {
+    lines.push(`Preferred proteins (build most main dishes around these): ${profile.proteinPreferences.join(", ")}`);
+  }
+  if (profile.cuisinePreferences.length > 0) {
+    lines.push(`Preferred cuisines (draw most dishes from these): ${profile.cuisinePreferences.join(", ")}`);
+  }
+  const servings = parseServings(profile.servingSize);
+  if (servings) {
+    lines.push(`Every dish must serve ${servings}; size ingredient quantities for ${servings} servings and set "servings" to ${servings}`);
+  }
+  if (profile.budget && profile.budget !== 'No budget constraints') {
+    lines.push(`Weekly grocery budget: ${profile.budget}. Favour affordable, overlapping ingredients to stay within it.`);
+  }
+  if (profile.healthGoals && profile.healthGoals !== 'No Specific Goal') {
+    const instruction = HEALTH_GOAL_INSTRUCTIONS[profile.healthGoals];
+    lines.push(`Health goal: ${profile.healthGoals}${instruction ? ` (${instruction})` : ""}`);
+  }
+  lines.push(`Variety: use the same main protein for at most ${profile.variety.maxProteinRepeats} main dishes and the same cuisine for at most ${profile.variety.maxCuisineRepeats} dishes this week, counting the dishes already on the plan`);
+
+  return lines;
+}
@@ -0,0 +1,188 @@
+import { log } from "./utils.ts";
+import { buildFixtureEmbedding, buildFixturePlan } from "./fixtures.ts";
+
+// --- START: PROVIDER TYPES ---
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  temperature?: number;
+  jsonMode: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** One EMBEDDING_DIMENSIONS-long vector per input text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface ProviderConfig {
+  model?: string;
+  embeddingModel?: string;
+  temperature?: number;
+  jsonMode: boolean;
+}
+
+// --- END: PROVIDER TYPES ---
+
+const DEFAULT_OPENAI_MODEL = "gpt-4-turbo-preview";
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-ada-002";
+// Must match the recipes.embedding column, vector(1536).
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export class OpenAIProvider implements LLMProvider {
+  name = "openai";
+  model: string;
+  embeddingModel: string;
+  temperature?: number;
+  jsonMode: boolean;
+
+  constructor(private apiKey: string, config: ProviderConfig) {
+    this.model = config.model ?? DEFAULT_OPENAI_MODEL;
+    this.embeddingModel = config.embeddingModel ?? DEFAULT_OPENAI_EMBEDDING_MODEL;
+    this.temperature = config.temperature;
+    this.jsonMode = config.jsonMode;
+  }
+
+  async complete({ messages }: CompletionRequest): Promise<CompletionResult> {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        ...(this.temperature !== undefined && { temperature: this.temperature }),
+        ...(this.jsonMode && { response_format: { type: "json_object" } }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      log("ERROR", "OpenAI API request failed.", { status: response.status, body: errorBody });
+      throw new Error("Failed to fetch meal plan from OpenAI.");
+    }
+
+    const data = await response.json();
+    return {
+      content: data.choices[0].message.content,
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch("https://api.openai.com/v1/embeddings", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.embeddingModel, input: texts }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      log("ERROR", "OpenAI embeddings request failed.", { status: response.status, body: errorBody });
+      throw new Error("Failed to fetch embeddings from OpenAI.");
+    }
+
+    const data = await response.json();
+    return (data.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+/**
+ * Offline provider that answers every request from the canned recipes in
+ * fixtures.ts. The same prompt always yields the same plan, so the full
+ * generate → save → dashboard flow can be exercised without a network or key.
+ */
+export class FixtureProvider implements LLMProvider {
+  name = "fixture";
+  model: string;
+  temperature?: number;
+  jsonMode: boolean;
+
+  constructor(config: ProviderConfig) {
+    this.model = config.model ?? "fixture-v1";
+    this.temperature = config.temperature;
+    this.jsonMode = config.jsonMode;
+  }
+
+  complete({ messages }: CompletionRequest): Promise<CompletionResult> {
+    const prompt = messages.map((m) => m.content).join("\n");
+    const [, dayCount = "7", mealSlot] = prompt.match(/(\d+)-day (\w+) plan/) ?? [];
+    const content = JSON.stringify(buildFixturePlan(prompt, Number(dayCount), mealSlot));
+
+    // Rough 4-characters-per-token estimate so usage logging stays meaningful.
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return Promise.resolve({
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    });
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => buildFixtureEmbedding(text, EMBEDDING_DIMENSIONS)));
+  }
+}
+
+/**
+ * Picks the provider from the environment:
+ * - LLM_PROVIDER: "openai" (default) or "fixture"
+ * - LLM_MODEL: overrides the provider's default model
+ * - LLM_EMBEDDING_MODEL: overrides the provider's default embedding model (must return 1536 dimensions)
+ * - LLM_TEMPERATURE: sampling temperature; omitted from the request when unset
+ * - LLM_JSON_MODE: set to "false" to disable the provider's JSON response mode
+ */
+export function getProvider(): LLMProvider {
+  const providerName = (Deno.env.get("LLM_PROVIDER") ?? "openai").toLowerCase();
+  const temperature = Deno.env.get("LLM_TEMPERATURE");
+  const config: ProviderConfig = {
+    model: Deno.env.get("LLM_MODEL") || undefined,
+    embeddingModel: Deno.env.get("LLM_EMBEDDING_MODEL") || undefined,
+    temperature: temperature ? Number(temperature) : undefined,
+    jsonMode: Deno.env.get("LLM_JSON_MODE") !== "false",
+  };
+
+  switch (providerName) {
+    case "fixture":
+      return new FixtureProvider(config);
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is not set. Set LLM_PROVIDER=fixture to run without a key.");
+      }
+      return new OpenAIProvider(apiKey, config);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}".`);
+  }
+}
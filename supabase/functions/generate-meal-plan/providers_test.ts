@@ -0,0 +1,58 @@
+import { assert, assertEquals, assertNotEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import { EMBEDDING_DIMENSIONS, FixtureProvider, getProvider } from "./providers.ts";
+import { parseMealPlan } from "./schema.ts";
+
+const provider = new FixtureProvider({ jsonMode: true });
+
+const complete = async (prompt: string) =>
+  (await provider.complete({ messages: [{ role: "user", content: prompt }] })).content;
+
+Deno.test("FixtureProvider answers with a plan that passes validation", async () => {
+  const result = parseMealPlan(await complete("Generate a 5-day dinner plan based on the following criteria:"), 5);
+  assert(result.success, result.success ? "" : result.issues.join("\n"));
+  assertEquals(result.plan.days.length, 5);
+  assert(result.plan.days.every((day) => day.side_dish));
+});
+
+Deno.test("FixtureProvider follows the meal slot in the prompt", async () => {
+  const result = parseMealPlan(await complete("Generate a 3-day breakfast plan based on the following criteria:"), 3);
+  assert(result.success);
+  assert(result.plan.days.every((day) => !day.side_dish));
+});
+
+Deno.test("FixtureProvider gives the same plan for the same prompt", async () => {
+  const prompt = "Generate a 7-day dinner plan based on the following criteria: - Pantry items available: rice";
+  assertEquals(await complete(prompt), await complete(prompt));
+  assertNotEquals(await complete(prompt), await complete(`${prompt}, beans`));
+});
+
+Deno.test("FixtureProvider reports usage", async () => {
+  const { usage } = await provider.complete({ messages: [{ role: "user", content: "Generate a 3-day lunch plan" }] });
+  assert(usage.promptTokens > 0 && usage.completionTokens > 0);
+  assertEquals(usage.totalTokens, usage.promptTokens + usage.completionTokens);
+});
+
+Deno.test("FixtureProvider embeds texts that share words close together", async () => {
+  const [chicken, chickenAgain, salmon] = await provider.embed([
+    "lemon roast chicken",
+    "roast chicken with lemon",
+    "miso glazed salmon",
+  ]);
+  const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+  assertEquals(chicken.length, EMBEDDING_DIMENSIONS);
+  assert(Math.abs(similarity(chicken, chicken) - 1) < 1e-9);
+  assert(similarity(chicken, chickenAgain) > similarity(chicken, salmon));
+});
+
+Deno.test("getProvider picks the fixture provider from LLM_PROVIDER", () => {
+  Deno.env.set("LLM_PROVIDER", "fixture");
+  Deno.env.set("LLM_MODEL", "fixture-test");
+  try {
+    const selected = getProvider();
+    assertEquals(selected.name, "fixture");
+    assertEquals(selected.model, "fixture-test");
+  } finally {
+    Deno.env.delete("LLM_PROVIDER");
+    Deno.env.delete("LLM_MODEL");
+  }
+});
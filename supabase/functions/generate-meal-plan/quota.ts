@@ -0,0 +1,72 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { log } from "./utils.ts";
+
+export interface GenerationReservation {
+  /** False for Pro users, whose generations are not counted. */
+  metered: boolean;
+  amount: number;
+  generationsRemaining: number | null;
+}
+
+/** Thrown when a trial user has no generations left; surfaced to the client as a 402. */
+export class QuotaExceededError extends Error {
+  constructor(public generationsRemaining: number) {
+    super("You have used all of your trial meal plan generations. Upgrade to keep generating plans.");
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Atomically checks the user's quota and places a hold on `amount` generations
+ * before any expensive work starts. The hold becomes a charge when the plan is
+ * saved (save_meal_plan) or is released by refundGeneration. Must be called with
+ * a service-role client: the underlying RPCs are not executable by end users.
+ */
+export async function reserveGeneration(adminClient: SupabaseClient, userId: string, amount = 1): Promise<GenerationReservation> {
+  const { data, error } = await adminClient.rpc('reserve_generation', {
+    user_id_param: userId,
+    amount,
+  });
+
+  if (error) {
+    log("ERROR", "Failed to reserve generation quota.", { error, userId });
+    throw error;
+  }
+
+  if (!data.allowed) {
+    throw new QuotaExceededError(data.generations_remaining ?? 0);
+  }
+
+  return {
+    metered: data.metered,
+    amount,
+    generationsRemaining: data.generations_remaining,
+  };
+}
+
+/** Releases the hold after a failed run. Never throws: a failed release is logged, not surfaced. */
+export async function refundGeneration(adminClient: SupabaseClient, userId: string, reservation: GenerationReservation) {
+  if (!reservation.metered) return;
+
+  const { error } = await adminClient.rpc('refund_generation', {
+    user_id_param: userId,
+    amount: reservation.amount,
+  });
+
+  if (error) {
+    log("ERROR", "Failed to refund generation quota.", { error, userId, amount: reservation.amount });
+  }
+}
+
+/**
+ * How much of the quota a run costs. A full week of meals is one generation,
+ * however many meals a day it plans; shorter plans and swaps cost
+ * proportionally less and two-week plans twice as much. Both rates can be
+ * tuned with QUOTA_COST_PER_DAY (per planned meal) and QUOTA_COST_PER_SIDE_DISH.
+ */
+export function generationCost(mode: 'full' | 'day' | 'side', mealCount: number, weekMeals: number): number {
+  const perMeal = Number(Deno.env.get("QUOTA_COST_PER_DAY") ?? 1 / weekMeals);
+  const perSideDish = Number(Deno.env.get("QUOTA_COST_PER_SIDE_DISH") ?? perMeal / 2);
+  const cost = mode === 'side' ? perSideDish : mealCount * perMeal;
+  return Math.round(cost * 100) / 100;
+}
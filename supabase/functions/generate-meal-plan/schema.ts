@@ -0,0 +1,153 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import { ChatMessage, LLMProvider } from "./providers.ts";
+import { log } from "./utils.ts";
+
+// --- START: MEAL PLAN SCHEMA ---
+
+const nonEmptyString = z.string().trim().min(1, "must not be empty");
+
+export const RecipeStepSchema = z.object({
+  instruction: nonEmptyString,
+  duration_minutes: z.number({ invalid_type_error: "must be a number" }).int("must be a whole number").positive().nullish(),
+  temperature: z.number({ invalid_type_error: "must be a number" }).int("must be a whole number").positive().nullish(),
+  temperature_unit: z.enum(["F", "C"]).nullish(),
+  // 0-based indexes into the dish's ingredients.
+  ingredient_positions: z.array(z.number().int().nonnegative()).default([]),
+});
+
+export const RecipeSchema = z.object({
+  title: nonEmptyString,
+  description: z.string().default(""),
+  cuisine: z.string().nullish(),
+  ingredients: z.array(nonEmptyString).min(1, "must list at least one ingredient"),
+  steps: z.array(RecipeStepSchema).min(1, "must list at least one step"),
+  calories: z.number({ invalid_type_error: "must be a number" }).int("must be a whole number").nonnegative(),
+  // How many people the ingredient quantities are written for; the app rescales from this.
+  servings: z.number({ invalid_type_error: "must be a number" }).int("must be a whole number").positive(),
+}).superRefine((dish, ctx) => {
+  dish.steps.forEach((step, index) => {
+    if (step.temperature && !step.temperature_unit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index, "temperature_unit"], message: 'must be "F" or "C" when a temperature is given' });
+    }
+    if (step.ingredient_positions.some((position) => position >= dish.ingredients.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index, "ingredient_positions"], message: `must be indexes into the ${dish.ingredients.length} ingredients` });
+    }
+  });
+});
+
+export const MealDaySchema = z.object({
+  day: nonEmptyString,
+  main_dish: RecipeSchema,
+  side_dish: RecipeSchema.nullish(),
+  total_time_to_cook: nonEmptyString,
+  cooking_tips: z.string().optional(),
+});
+
+const ShoppingListSchema = z.array(z.object({
+  category: z.string(),
+  items: z.array(z.string()),
+}));
+
+export function buildMealPlanSchema(dayCount: number) {
+  return z.object({
+    days: z.array(MealDaySchema).length(dayCount, `must contain exactly ${dayCount} days`),
+    shopping_list: ShoppingListSchema.optional(),
+  });
+}
+
+export type Recipe = z.infer<typeof RecipeSchema>;
+export type RecipeStep = z.infer<typeof RecipeStepSchema>;
+export type MealDay = z.infer<typeof MealDaySchema>;
+export type MealPlanResponse = z.infer<ReturnType<typeof buildMealPlanSchema>>;
+
+// --- END: MEAL PLAN SCHEMA ---
+
+/** Thrown when the provider still returns an invalid plan after every repair attempt. */
+export class MealPlanValidationError extends Error {
+  constructor(public issues: string[], public attempts: number) {
+    super(`The generated meal plan failed validation after ${attempts} attempt(s).`);
+    this.name = "MealPlanValidationError";
+  }
+}
+
+// One initial request plus up to two repair rounds.
+const MAX_GENERATION_ATTEMPTS = 3;
+
+type ParseResult =
+  | { success: true; plan: MealPlanResponse }
+  | { success: false; issues: string[] };
+
+function extractJson(rawContent: string): unknown {
+  try {
+    return JSON.parse(rawContent);
+  } catch {
+    const jsonMatch = rawContent.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error("No JSON object found in the response.");
+    }
+    return JSON.parse(jsonMatch[0]);
+  }
+}
+
+/**
+ * Parses and validates a raw provider response. Issues are returned as
+ * human-readable "path: message" lines so they can be sent back to the model.
+ */
+export function parseMealPlan(rawContent: string, dayCount: number): ParseResult {
+  let json: unknown;
+  try {
+    json = extractJson(rawContent);
+  } catch (error) {
+    return { success: false, issues: [`response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = buildMealPlanSchema(dayCount).safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    };
+  }
+  return { success: true, plan: result.data };
+}
+
+/**
+ * Sends the prompt and returns the plan's days once a response validates. An
+ * invalid response is sent back with its issues for a full corrected plan, up
+ * to MAX_GENERATION_ATTEMPTS requests in all.
+ */
+export async function requestMealPlan(provider: LLMProvider, prompt: string, dayCount: number): Promise<MealDay[]> {
+  const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const { content: rawContent, usage } = await provider.complete({ messages });
+    log("INFO", "Received raw content from LLM provider.", {
+      provider: provider.name,
+      model: provider.model,
+      attempt,
+      usage,
+      rawContent,
+    });
+
+    const result = parseMealPlan(rawContent, dayCount);
+    if (result.success) {
+      return result.plan.days;
+    }
+
+    issues = result.issues;
+    log("ERROR", "Meal plan failed validation.", { attempt, issues });
+
+    // Show the model its own answer and what was wrong with it, then ask for a full corrected plan.
+    messages.push(
+      { role: "assistant", content: rawContent },
+      {
+        role: "user",
+        content: `Your response did not match the required structure:\n- ${issues.join("\n- ")}\n` +
+          `Return the complete corrected ${dayCount}-day plan as a single JSON object in the same structure.`,
+      },
+    );
+  }
+
+  throw new MealPlanValidationError(issues, MAX_GENERATION_ATTEMPTS);
+}
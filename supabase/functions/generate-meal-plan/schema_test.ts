@@ -0,0 +1,111 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import { buildFixturePlan } from "./fixtures.ts";
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider } from "./providers.ts";
+import { MealPlanValidationError, parseMealPlan, requestMealPlan } from "./schema.ts";
+
+const validPlan = (dayCount: number) => buildFixturePlan("schema test", dayCount);
+
+const issuesOf = (rawContent: string, dayCount: number) => {
+  const result = parseMealPlan(rawContent, dayCount);
+  return result.success ? [] : result.issues;
+};
+
+/** Answers each request with the next canned response and keeps what it was sent. */
+class ScriptedProvider implements LLMProvider {
+  name = "scripted";
+  model = "scripted-v1";
+  jsonMode = true;
+  requests: ChatMessage[][] = [];
+
+  constructor(private responses: string[]) {}
+
+  complete({ messages }: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push([...messages]);
+    return Promise.resolve({
+      content: this.responses[this.requests.length - 1] ?? "",
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+  }
+
+  embed(): Promise<number[][]> {
+    return Promise.resolve([]);
+  }
+}
+
+Deno.test("parseMealPlan accepts a valid plan and fills in defaults", () => {
+  const plan = validPlan(2);
+  delete (plan.days[0].main_dish as { description?: string }).description;
+  const result = parseMealPlan(JSON.stringify(plan), 2);
+  assert(result.success);
+  assertEquals(result.plan.days[0].main_dish.description, "");
+});
+
+Deno.test("parseMealPlan finds the JSON object in surrounding text", () => {
+  const raw = `Here is your plan:\n\`\`\`json\n${JSON.stringify(validPlan(3))}\n\`\`\`\nEnjoy!`;
+  assert(parseMealPlan(raw, 3).success);
+});
+
+Deno.test("parseMealPlan reports responses that are not JSON", () => {
+  const [issue] = issuesOf("Sorry, I can't help with that.", 3);
+  assert(issue.startsWith("response is not valid JSON"));
+});
+
+Deno.test("parseMealPlan reports each issue with its path", () => {
+  const plan = validPlan(2);
+  (plan.days[0].main_dish as { calories: unknown }).calories = "520";
+  plan.days[1].main_dish.steps[0] = { ...plan.days[1].main_dish.steps[0], temperature: 400, temperature_unit: null };
+  plan.days[1].main_dish.steps[1] = { ...plan.days[1].main_dish.steps[1], ingredient_positions: [99] };
+
+  assertEquals(issuesOf(JSON.stringify(plan), 2), [
+    "days.0.main_dish.calories: must be a number",
+    'days.1.main_dish.steps.0.temperature_unit: must be "F" or "C" when a temperature is given',
+    `days.1.main_dish.steps.1.ingredient_positions: must be indexes into the ${plan.days[1].main_dish.ingredients.length} ingredients`,
+  ]);
+});
+
+Deno.test("parseMealPlan asks for whole calories", () => {
+  const plan = validPlan(1);
+  plan.days[0].main_dish.calories = 450.5;
+  assertEquals(issuesOf(JSON.stringify(plan), 1), ["days.0.main_dish.calories: must be a whole number"]);
+});
+
+Deno.test("parseMealPlan requires ingredients and steps", () => {
+  const plan = validPlan(1);
+  plan.days[0].side_dish!.steps = [];
+  assertEquals(issuesOf(JSON.stringify(plan), 1), ["days.0.side_dish.steps: must list at least one step"]);
+});
+
+Deno.test("parseMealPlan checks the number of days", () => {
+  assertEquals(issuesOf(JSON.stringify(validPlan(2)), 3), ["days: must contain exactly 3 days"]);
+});
+
+Deno.test("requestMealPlan returns the first valid plan without a repair round", async () => {
+  const provider = new ScriptedProvider([JSON.stringify(validPlan(2))]);
+  const days = await requestMealPlan(provider, "Generate a 2-day dinner plan", 2);
+  assertEquals(days.length, 2);
+  assertEquals(provider.requests.length, 1);
+});
+
+Deno.test("requestMealPlan sends an invalid plan back with its issues", async () => {
+  const provider = new ScriptedProvider([JSON.stringify(validPlan(1)), JSON.stringify(validPlan(2))]);
+  const days = await requestMealPlan(provider, "Generate a 2-day dinner plan", 2);
+  assertEquals(days.length, 2);
+  assertEquals(provider.requests.length, 2);
+
+  const [prompt, answer, repair] = provider.requests[1];
+  assertEquals(prompt.content, "Generate a 2-day dinner plan");
+  assertEquals(answer, { role: "assistant", content: JSON.stringify(validPlan(1)) });
+  assertEquals(repair.role, "user");
+  assert(repair.content.includes("- days: must contain exactly 2 days"));
+});
+
+Deno.test("requestMealPlan gives up after the last repair round", async () => {
+  const provider = new ScriptedProvider(["not json", "still not json", "{}"]);
+  const error = await assertRejects(
+    () => requestMealPlan(provider, "Generate a 2-day dinner plan", 2),
+    MealPlanValidationError,
+  );
+  assertEquals(error.attempts, 3);
+  assertEquals(error.issues, ["days: Required"]);
+  assertEquals(provider.requests.length, 3);
+});
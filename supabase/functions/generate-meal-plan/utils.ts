@@ -0,0 +1,23 @@
+// Shared helpers for the generate-meal-plan function and its sibling modules.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export function log(level: "INFO" | "ERROR", message: string, data: Record<string, unknown> = {}) {
+    console.log(JSON.stringify({
+        level,
+        message,
+        ...data,
+        timestamp: new Date().toISOString()
+    }));
+}
+
+/** Thrown for requests that are well-formed JSON but ask for something invalid; surfaced as a 400. */
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
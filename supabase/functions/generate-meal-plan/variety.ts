@@ -0,0 +1,183 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { mentionsIngredient } from "../_shared/ingredient-names.ts";
+import { isSimilarTitle } from "./dislikes.ts";
+import { log } from "./utils.ts";
+
+/** The user's variety thresholds, from `profiles`. */
+export interface VarietyPolicy {
+  // How many weeks before the plan to look back for dishes not to repeat; 0 turns it off.
+  lookbackWeeks: number;
+  maxProteinRepeats: number;
+  maxCuisineRepeats: number;
+}
+
+/** The parts of a main dish that variety is judged on. */
+export interface VarietyDish {
+  title: string;
+  ingredients: string[];
+  cuisine?: string | null;
+}
+
+export interface RecentMeals {
+  recipeIds: string[];
+  titles: string[];
+}
+
+export interface VarietyReport {
+  score: number;
+  lookbackWeeks: number;
+  proteins: Record<string, number>;
+  cuisines: Record<string, number>;
+  repeatedFromRecentWeeks: string[];
+}
+
+// Checked in order, so the more specific proteins win ("chicken sausage" is chicken).
+const PROTEINS: [protein: string, terms: string[]][] = [
+  ['chicken', ['chicken']],
+  ['turkey', ['turkey']],
+  ['beef', ['beef', 'steak', 'brisket']],
+  ['pork', ['pork', 'bacon', 'ham', 'sausage', 'chorizo', 'prosciutto', 'pancetta']],
+  ['lamb', ['lamb']],
+  ['shellfish', ['shellfish']],
+  ['fish', ['fish']],
+  ['tofu', ['tofu', 'tempeh', 'seitan']],
+  ['beans & lentils', ['bean', 'lentil', 'chickpea']],
+  ['egg', ['egg']],
+];
+
+const findProtein = (text: string) =>
+  PROTEINS.find(([, terms]) => terms.some((term) => mentionsIngredient(text, term)))?.[0] ?? null;
+
+// Lines that flavour a dish without making it a chicken or fish dish: "chicken broth", "fish sauce".
+const SEASONING_LINE = /\b(sauce|broth|stock|bouillon|paste)\b/i;
+
+/** The dish's main protein: named in the title if possible, otherwise the first one in the ingredients. */
+export function mainProtein(dish: VarietyDish): string | null {
+  const fromTitle = findProtein(dish.title);
+  if (fromTitle) return fromTitle;
+  for (const line of dish.ingredients.filter((ingredient) => !SEASONING_LINE.test(ingredient))) {
+    const protein = findProtein(line);
+    if (protein) return protein;
+  }
+  return null;
+}
+
+const normalizeCuisine = (cuisine: string | null | undefined) => cuisine?.trim().toLowerCase() || null;
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? 'st' : n % 10 === 2 && n % 100 !== 12 ? 'nd' : n % 10 === 3 && n % 100 !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Checks the protein and cuisine caps for new main dishes on top of the mains
+ * already kept on the plan. Returns the reasons per index of `mains`; dishes
+ * are counted in order, so only the ones that push a count over its cap are
+ * reported.
+ */
+export function findVarietyViolations(mains: VarietyDish[], keptMains: VarietyDish[], policy: VarietyPolicy): string[][] {
+  const proteinCounts = new Map<string, number>();
+  const cuisineCounts = new Map<string, number>();
+  const count = (counts: Map<string, number>, key: string | null) => {
+    if (!key) return 0;
+    const next = (counts.get(key) ?? 0) + 1;
+    counts.set(key, next);
+    return next;
+  };
+
+  for (const dish of keptMains) {
+    count(proteinCounts, mainProtein(dish));
+    count(cuisineCounts, normalizeCuisine(dish.cuisine));
+  }
+
+  return mains.map((dish) => {
+    const reasons: string[] = [];
+    const protein = mainProtein(dish);
+    const proteinCount = count(proteinCounts, protein);
+    if (proteinCount > policy.maxProteinRepeats) {
+      reasons.push(`"${dish.title}" would be the ${ordinal(proteinCount)} ${protein} main this week (limit ${policy.maxProteinRepeats})`);
+    }
+    const cuisine = normalizeCuisine(dish.cuisine);
+    const cuisineCount = count(cuisineCounts, cuisine);
+    if (cuisineCount > policy.maxCuisineRepeats) {
+      reasons.push(`"${dish.title}" would be the ${ordinal(cuisineCount)} ${dish.cuisine} dish this week (limit ${policy.maxCuisineRepeats})`);
+    }
+    return reasons;
+  });
+}
+
+/** Recipes served in the `lookbackWeeks` weeks before `beforeDate` (a YYYY-MM-DD string). */
+export async function loadRecentMeals(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  beforeDate: string,
+  lookbackWeeks: number,
+): Promise<RecentMeals> {
+  if (lookbackWeeks <= 0) return { recipeIds: [], titles: [] };
+
+  const since = new Date(`${beforeDate}T00:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - lookbackWeeks * 7);
+
+  const { data, error } = await supabaseClient
+    .from('user_meal_history')
+    .select(`
+      main_dish:recipes!main_dish_recipe_id(id, title),
+      side_dish:recipes!side_dish_recipe_id(id, title)
+    `)
+    .eq('user_id', userId)
+    .gte('meal_date', since.toISOString().split('T')[0])
+    .lt('meal_date', beforeDate);
+
+  if (error) {
+    log("ERROR", "Failed to load recent meals.", { error, userId });
+    throw error;
+  }
+
+  const dishes = ((data ?? []) as unknown as { main_dish: { id: string; title: string } | null; side_dish: { id: string; title: string } | null }[])
+    .flatMap((row) => [row.main_dish, row.side_dish])
+    .filter((dish): dish is { id: string; title: string } => !!dish);
+  return {
+    recipeIds: [...new Set(dishes.map((dish) => dish.id))],
+    titles: [...new Set(dishes.map((dish) => dish.title))],
+  };
+}
+
+/** The recently served dish `title` repeats, if any. */
+export function findRecentRepeat(title: string, recent: RecentMeals): string | undefined {
+  return recent.titles.find((recentTitle) => isSimilarTitle(recentTitle, title));
+}
+
+/**
+ * Scores a week's mains from 0 to 100: 40% for distinct proteins, 30% for
+ * distinct cuisines (dishes without a known cuisine count as distinct) and 30%
+ * for dishes not served in the lookback window.
+ */
+export function buildVarietyReport(mains: VarietyDish[], recent: RecentMeals, lookbackWeeks: number): VarietyReport {
+  const tally = (keys: (string | null)[]) =>
+    keys.reduce<Record<string, number>>((counts, key) => {
+      if (key) counts[key] = (counts[key] ?? 0) + 1;
+      return counts;
+    }, {});
+
+  const proteins = tally(mains.map(mainProtein));
+  const cuisines = tally(mains.map((dish) => normalizeCuisine(dish.cuisine)));
+  const repeatedFromRecentWeeks = mains.map((dish) => dish.title).filter((title) => findRecentRepeat(title, recent));
+
+  if (mains.length === 0) {
+    return { score: 100, lookbackWeeks, proteins, cuisines, repeatedFromRecentWeeks };
+  }
+
+  const unknownProteins = mains.length - Object.values(proteins).reduce((sum, n) => sum + n, 0);
+  const unknownCuisines = mains.length - Object.values(cuisines).reduce((sum, n) => sum + n, 0);
+  const proteinVariety = (Object.keys(proteins).length + unknownProteins) / mains.length;
+  const cuisineVariety = (Object.keys(cuisines).length + unknownCuisines) / mains.length;
+  const freshness = 1 - repeatedFromRecentWeeks.length / mains.length;
+
+  return {
+    score: Math.round(100 * (0.4 * proteinVariety + 0.3 * cuisineVariety + 0.3 * freshness)),
+    lookbackWeeks,
+    proteins,
+    cuisines,
+    repeatedFromRecentWeeks,
+  };
+}
@@ -0,0 +1,52 @@
+import { assertEquals } from "https://deno.land/std@0.192.0/testing/asserts.ts";
+import { buildVarietyReport, findRecentRepeat, findVarietyViolations, mainProtein, VarietyDish } from "./variety.ts";
+
+const dish = (title: string, cuisine: string | null = null, ingredients: string[] = []): VarietyDish => ({
+  title,
+  cuisine,
+  ingredients,
+});
+
+Deno.test("mainProtein prefers the title, then the ingredients", () => {
+  assertEquals(mainProtein(dish("Chicken Sausage Pasta")), "chicken");
+  assertEquals(mainProtein(dish("Weeknight Curry", null, ["2 cans chickpeas", "1 can coconut milk"])), "beans & lentils");
+  assertEquals(mainProtein(dish("Pho", null, ["4 cups beef broth", "200 g tofu"])), "tofu");
+  assertEquals(mainProtein(dish("Green Salad", null, ["1 head lettuce"])), null);
+});
+
+Deno.test("findVarietyViolations reports only dishes over a cap", () => {
+  const policy = { lookbackWeeks: 2, maxProteinRepeats: 2, maxCuisineRepeats: 1 };
+  const kept = [dish("Roast Chicken", "French")];
+  const reasons = findVarietyViolations(
+    [dish("Chicken Tacos", "Mexican"), dish("Chicken Curry", "Indian"), dish("Beef Enchiladas", "Mexican")],
+    kept,
+    policy,
+  );
+  assertEquals(reasons, [
+    [],
+    ['"Chicken Curry" would be the 3rd chicken main this week (limit 2)'],
+    ['"Beef Enchiladas" would be the 2nd Mexican dish this week (limit 1)'],
+  ]);
+});
+
+Deno.test("findRecentRepeat matches similar titles from recent weeks", () => {
+  const recent = { recipeIds: ["r1"], titles: ["Garlic Butter Salmon"] };
+  assertEquals(findRecentRepeat("Garlic-Butter Salmon", recent), "Garlic Butter Salmon");
+  assertEquals(findRecentRepeat("Miso Glazed Salmon", recent), undefined);
+});
+
+Deno.test("buildVarietyReport scores distinct proteins, cuisines and fresh dishes", () => {
+  const none = { recipeIds: [], titles: [] };
+  assertEquals(buildVarietyReport([], none, 2).score, 100);
+
+  const varied = [dish("Chicken Tacos", "Mexican"), dish("Beef Stew", "Irish"), dish("Tofu Stir Fry", "Chinese")];
+  assertEquals(buildVarietyReport(varied, none, 2).score, 100);
+
+  const samey = [dish("Chicken Tacos", "Mexican"), dish("Chicken Burritos", "Mexican")];
+  const report = buildVarietyReport(samey, { recipeIds: ["r1"], titles: ["Chicken Tacos"] }, 2);
+  assertEquals(report.proteins, { chicken: 2 });
+  assertEquals(report.cuisines, { mexican: 2 });
+  assertEquals(report.repeatedFromRecentWeeks, ["Chicken Tacos"]);
+  // 40% x 1/2 + 30% x 1/2 + 30% x 1/2
+  assertEquals(report.score, 50);
+});
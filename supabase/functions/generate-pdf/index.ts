@@ -1,27 +1,44 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { encode } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { templateHtml } from './template.ts';
+import { isMealSlot, MEAL_SLOT_LABELS } from '../_shared/meal-slots.ts';
+import { parseServings, scaleRecipe } from '../_shared/servings.ts';
+import { RecipeIngredient, recipeIngredients } from '../_shared/recipe-ingredients.ts';
+import { RecipeStep, recipeSteps, stepDetails } from '../_shared/recipe-steps.ts';
+import { escapeHtml } from '../_shared/html.ts';
+import { isDateString } from '../_shared/plan-dates.ts';
+import { ShoppingListSection } from '../_shared/shopping-list.ts';
+import { findShoppingList, refreshShoppingList } from '../_shared/shopping-list-store.ts';
 
 // --- Interfaces (no changes needed) ---
 interface Recipe {
   title: string;
   ingredients?: string;
+  // Sent by current clients; the ingredients text is parsed when it's missing.
+  recipe_ingredients?: RecipeIngredient[];
   recipe?: string;
+  // Sent by current clients; the recipe text is split into steps when it's missing.
+  recipe_steps?: RecipeStep[];
   calories?: number;
+  // What the ingredient quantities are written for.
+  servings?: number;
 }
 interface MealDay {
   day: string;
+  // Older clients don't send a slot; their meals are dinners.
+  meal_slot?: string;
   main_dish: Recipe;
   side_dish: Recipe | null;
 }
-interface ShoppingListItem { // A more specific type for clarity
-  category: string;
-  items: string[];
-}
 interface RequestBody {
   type: 'full' | 'shopping';
+  // Household size to scale every recipe to; recipes print as written when it's missing.
+  servings?: number;
   meals: MealDay[];
-  shoppingList: ShoppingListItem[]; // The shoppingList is an array
+  // The plan window being printed; its saved shopping list is printed with it.
+  planStart: string;
+  planEnd: string;
 }
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -31,36 +48,45 @@ const corsHeaders = {
 // =================================================================
 // --- THIS FUNCTION CONTAINS THE FIX ---
 // =================================================================
-function fillHtmlTemplate(template: string, data: RequestBody): string {
+function fillHtmlTemplate(template: string, data: RequestBody, shoppingList: ShoppingListSection[]): string {
     let mealCardsHtml = '';
     let shoppingListHtml = '';
 
-    // Check if shoppingList exists and is an array
-    if (data.shoppingList && Array.isArray(data.shoppingList)) {
-        // Now correctly iterate over the array of objects
-        shoppingListHtml = `<h1>Shopping List</h1>` + data.shoppingList
+    if (shoppingList.length > 0) {
+        shoppingListHtml = `<h1>Shopping List</h1>` + shoppingList
             .map(section => `
-                <h2>${section.category}</h2>
+                <h2>${escapeHtml(section.category)}</h2>
                 <ul>
-                    ${(section.items ?? []).map(item => `<li>${item}</li>`).join('')}
+                    ${section.items.map(item => `<li>${escapeHtml(item.text)}</li>`).join('')}
                 </ul>
             `).join('');
     }
 
+    const householdServings = parseServings(data.servings);
+    const scale = (recipe: Recipe | null) =>
+        recipe && householdServings ? scaleRecipe(recipe, householdServings) : recipe;
+
     if (data.meals && data.meals.length > 0) {
         mealCardsHtml = data.meals.map(meal => {
-            const ingredients = `${meal.main_dish?.ingredients || ''}\n${meal.side_dish?.ingredients || ''}`
-                .split('\n').map(i => i.trim().replace(/^- ?/, '')).filter(Boolean).map(i => `<li>${i}</li>`).join('');
+            const mainDish = scale(meal.main_dish);
+            const sideDish = scale(meal.side_dish);
+            const ingredients = [mainDish, sideDish]
+                .flatMap(dish => dish ? recipeIngredients(dish) : [])
+                .map(i => `<li>${escapeHtml(i.original_text)}</li>`).join('');
             
-            const recipe = `${meal.main_dish?.recipe || ''}\n${meal.side_dish?.recipe || ''}`
-                .split('\n').map(r => r.trim().replace(/^\d+\.? ?/, '')).filter(Boolean).map(r => `<li>${r}</li>`).join('');
+            const recipe = [mainDish, sideDish]
+                .flatMap(dish => dish ? recipeSteps(dish) : [])
+                .map(step => {
+                    const details = stepDetails(step);
+                    return `<li>${escapeHtml(step.instruction)}${details.length > 0 ? ` <em>(${escapeHtml(details.join(', '))})</em>` : ''}</li>`;
+                }).join('');
 
             return `
               <div class="meal-card">
                 <div class="meal-card-header">
-                  <h1>${meal.day}: ${meal.main_dish.title}</h1>
+                  <h1>${escapeHtml(meal.day)} ${MEAL_SLOT_LABELS[isMealSlot(meal.meal_slot) ? meal.meal_slot : 'dinner']}: ${escapeHtml(meal.main_dish.title)}</h1>
                 </div>
-                <h3>Ingredients</h3>
+                <h3>Ingredients${mainDish?.servings ? ` (serves ${mainDish.servings})` : ''}</h3>
                 <ul>${ingredients}</ul>
                 <h3>Recipe</h3>
                 <ol>${recipe}</ol>
@@ -76,7 +102,7 @@ function fillHtmlTemplate(template: string, data: RequestBody): string {
     return template.replace('{{MEAL_CARDS}}', mealCardsHtml).replace('{{SHOPPING_LIST}}', shoppingListHtml);
 }
 
-// --- Main Server Function (No changes needed here) ---
+// --- Main Server Function ---
 serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -88,8 +114,41 @@ serve(async (req: Request) => {
       throw new Error('PDF_SHIFT_API_KEY not found in environment variables.');
     }
 
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header.' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: 'User not authenticated.' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      });
+    }
+
     const requestBody: RequestBody = await req.json();
-    const finalHtml = fillHtmlTemplate(templateHtml, requestBody);
+    if (!isDateString(requestBody.planStart) || !isDateString(requestBody.planEnd)) {
+      return new Response(JSON.stringify({ error: 'planStart and planEnd must be dates in YYYY-MM-DD format.' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      });
+    }
+
+    // The list printed is the one saved for the plan, not one sent by the client; it is built now if there isn't one yet.
+    const window = { start: requestBody.planStart, end: requestBody.planEnd };
+    const savedList = await findShoppingList(supabaseClient, user.id, window.start);
+    const shoppingList = savedList?.sections ?? await refreshShoppingList(supabaseClient, user.id, window);
+
+    const finalHtml = fillHtmlTemplate(templateHtml, requestBody, shoppingList);
     
     const response = await fetch('https://api.pdfshift.io/v3/convert/pdf', {
       method: 'POST',
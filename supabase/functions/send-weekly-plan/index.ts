@@ -1,6 +1,11 @@
 import { serve } from "https://deno.land/std@0.192.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "npm:resend@2.0.0";
+import { escapeHtml } from "../_shared/html.ts";
+import { describeExpiry, EXPIRY_SOON_DAYS, pantryIngredient } from "../_shared/pantry.ts";
+import { addDays, DEFAULT_PLAN_DAYS, localDateTime, weekdayOf } from "../_shared/plan-dates.ts";
+import { ShoppingListSection } from "../_shared/shopping-list.ts";
+import { findShoppingList, refreshShoppingList } from "../_shared/shopping-list-store.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,8 +15,79 @@ const corsHeaders = {
 // Define a type for the user profile data
 interface UserProfile {
   user_id: string;
-  meal_plan_start_day: string;
-  email: string;
+  plan_generation_day: string | null;
+  timezone: string;
+  plan_length_days: number | null;
+  expiry_alerts: boolean;
+}
+
+interface ExpiringItem {
+  ingredient_name: string;
+  ingredient: string;
+  expiry_date: string;
+}
+
+// How many recipe ideas the expiry digest suggests.
+const RECIPE_IDEA_COUNT = 3;
+
+// The plan's shopping list as email HTML, one heading per aisle.
+const shoppingListHtml = (sections: ShoppingListSection[]) => sections.length === 0 ? '' : `
+  <h2>Your Shopping List</h2>
+  ${sections.map((section) => `
+    <h3>${escapeHtml(section.category)}</h3>
+    <ul>${section.items.map((item) => `<li>${escapeHtml(item.text)}</li>`).join('')}</ul>
+  `).join('')}
+`;
+
+// Pantry items past or near their use-by date, with recipes that would use them up.
+const expiringItemsHtml = (items: ExpiringItem[], ideas: string[], today: string) => items.length === 0 ? '' : `
+  <h2>Use It Up</h2>
+  <ul>${items.map((item) => `<li>${escapeHtml(item.ingredient_name)}: ${describeExpiry(item.expiry_date, today)?.toLowerCase()}</li>`).join('')}</ul>
+  ${ideas.length === 0 ? '' : `
+    <p>Recipe ideas that use them:</p>
+    <ul>${ideas.map((title) => `<li>${escapeHtml(title)}</li>`).join('')}</ul>
+  `}
+`;
+
+/**
+ * The user's pantry items that expire within EXPIRY_SOON_DAYS of `today`, soonest
+ * first. Items that expired yesterday are still listed; older ones are left out,
+ * so forgotten items don't fill every digest.
+ */
+async function loadExpiringItems(client: SupabaseClient, userId: string, today: string): Promise<ExpiringItem[]> {
+  const { data, error } = await client
+    .from('pantry_items')
+    .select('ingredient_name, ingredient, expiry_date')
+    .eq('user_id', userId)
+    .gte('expiry_date', addDays(today, -1))
+    .lte('expiry_date', addDays(today, EXPIRY_SOON_DAYS))
+    .order('expiry_date', { ascending: true });
+  if (error) throw new Error(`Failed to load expiring pantry items: ${error.message}`);
+  return (data ?? []) as ExpiringItem[];
+}
+
+/** Titles of library recipes that use the most of the given items. */
+async function findRecipeIdeas(client: SupabaseClient, items: ExpiringItem[]): Promise<string[]> {
+  const ingredients = [...new Set(items.map((item) => pantryIngredient(item.ingredient)))];
+  const { data, error } = await client
+    .from('recipe_ingredients')
+    .select('ingredient, recipes(id, title)')
+    .in('ingredient', ingredients)
+    .limit(500);
+  if (error) throw new Error(`Failed to find recipe ideas: ${error.message}`);
+
+  const matches = new Map<string, { title: string; ingredients: Set<string> }>();
+  for (const row of data ?? []) {
+    const recipe = row.recipes as unknown as { id: string; title: string } | null;
+    if (!recipe) continue;
+    const match = matches.get(recipe.id) ?? { title: recipe.title, ingredients: new Set<string>() };
+    match.ingredients.add(row.ingredient);
+    matches.set(recipe.id, match);
+  }
+  const titles = [...matches.values()]
+    .sort((a, b) => b.ingredients.size - a.ingredients.size)
+    .map((match) => match.title);
+  return [...new Set(titles)].slice(0, RECIPE_IDEA_COUNT);
 }
 
 // Helper to log steps consistently
@@ -47,37 +123,79 @@ serve(async (req: Request) => {
     const supabaseAdminClient = createClient(supabaseUrl, serviceRoleKey);
     const resend = new Resend(resendApiKey);
 
-    const daysOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-    const currentDay = daysOfWeek[new Date().getDay()];
+    const lookUpEmail = async (userId: string) => {
+      const { data: { user }, error: userError } = await supabaseAdminClient.auth.admin.getUserById(userId);
+      if (userError || !user?.email) {
+        throw new Error(`Failed to look up the user's email: ${userError?.message ?? "no email on file"}`);
+      }
+      return user.email;
+    };
 
-    logStep(`Today is ${currentDay}. Checking for users with this start day.`);
+    // The job runs hourly; each user is processed once, at this hour of their own morning.
+    const sendHour = Number(Deno.env.get("PLAN_SEND_HOUR") ?? 5);
+    const now = new Date();
 
     const { data: profiles, error: profileError } = await supabaseAdminClient
-      .from('user_profiles')
-      .select('user_id, meal_plan_start_day, email')
-      .eq('meal_plan_start_day', currentDay);
+      .from('profiles')
+      .select('user_id, plan_generation_day, timezone, plan_length_days, expiry_alerts')
+      .or('plan_generation_day.not.is.null,expiry_alerts.is.true');
 
     if (profileError) {
       throw new Error(`Failed to fetch user profiles: ${profileError.message}`);
     }
 
-    if (!profiles || profiles.length === 0) {
-      logStep(`No users found with a start day of ${currentDay}. Exiting.`);
+    // Weekday and hour are taken in the user's time zone, so US users aren't sent their plan the evening before.
+    // Users with expiry alerts on are checked every morning for the expiry digest as well.
+    const typedProfiles = ((profiles ?? []) as UserProfile[]).filter((profile) => {
+      const { date, hour } = localDateTime(profile.timezone, now);
+      return hour === sendHour && (profile.expiry_alerts || weekdayOf(date) === profile.plan_generation_day);
+    });
+
+    if (typedProfiles.length === 0) {
+      logStep(`No users whose morning starts at ${sendHour}:00 right now. Exiting.`);
       return new Response(JSON.stringify({ success: true, message: "No users to process." }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const typedProfiles: UserProfile[] = profiles;
     logStep(`Found ${typedProfiles.length} user(s) to process.`);
 
     for (const profile of typedProfiles) {
       try {
         logStep("Processing user", { userId: profile.user_id });
 
+        // The plan's first day (or the digest's day) is today in the user's time zone.
+        const today = localDateTime(profile.timezone, now).date;
+        const expiringItems = profile.expiry_alerts ? await loadExpiringItems(supabaseAdminClient, profile.user_id, today) : [];
+        const recipeIdeas = expiringItems.length > 0 ? await findRecipeIdeas(supabaseAdminClient, expiringItems) : [];
+
+        if (weekdayOf(today) !== profile.plan_generation_day) {
+          if (expiringItems.length === 0) continue;
+          const email = await lookUpEmail(profile.user_id);
+          await resend.emails.send({
+            from: "Curate My Plate <noreply@resend.dev>",
+            to: [email],
+            subject: `🥬 ${expiringItems.length} pantry ${expiringItems.length === 1 ? 'item needs' : 'items need'} using up`,
+            html: `
+              <h1>Time to Use These Up</h1>
+              <p>Hi there,</p>
+              <p>Some food in your pantry is about to expire. Cook with it soon so nothing goes to waste.</p>
+              ${expiringItemsHtml(expiringItems, recipeIdeas, today)}
+              <a href="${siteUrl}/dashboard">Open Your Pantry</a>
+              <p>The Curate My Plate Team</p>
+            `,
+          });
+          logStep("Expiry digest sent to user", { userId: profile.user_id, items: expiringItems.length });
+          continue;
+        }
+
+        // The FUNCTION_SECRET lets generate-meal-plan plan for the user named in the body.
         const { error: invokeError } = await supabaseAdminClient.functions.invoke(
           'generate-meal-plan',
-          { body: { user_id: profile.user_id } }
+          {
+            headers: { Authorization: `Bearer ${functionSecret}` },
+            body: { user_id: profile.user_id },
+          }
         );
 
         if (invokeError) {
@@ -86,21 +204,31 @@ serve(async (req: Request) => {
 
         logStep("Meal plan generated successfully for user", { userId: profile.user_id });
 
+        // generate-meal-plan normally saved the new plan's list already.
+        const savedList = await findShoppingList(supabaseAdminClient, profile.user_id, today);
+        const shoppingList = savedList?.sections ?? await refreshShoppingList(supabaseAdminClient, profile.user_id, {
+          start: today,
+          end: addDays(today, (profile.plan_length_days ?? DEFAULT_PLAN_DAYS) - 1),
+        });
+
+        const email = await lookUpEmail(profile.user_id);
         await resend.emails.send({
           from: "Curate My Plate <noreply@resend.dev>",
-          to: [profile.email],
+          to: [email],
           subject: `🍽️ Your New Weekly Meal Plan is Ready!`,
           html: `
             <h1>Your Meal Plan is Here!</h1>
             <p>Hi there,</p>
             <p>Your personalized meal plan for the week is ready. Head over to your dashboard to see what's cooking!</p>
             <a href="${siteUrl}/dashboard">View Your Plan</a>
+            ${shoppingListHtml(shoppingList)}
+            ${expiringItemsHtml(expiringItems, recipeIdeas, today)}
             <p>Happy cooking!</p>
             <p>The Curate My Plate Team</p>
           `,
         });
 
-        logStep("Email notification sent to user", { userId: profile.user_id, email: profile.email });
+        logStep("Email notification sent to user", { userId: profile.user_id, email });
 
       } catch (userError) {
         const message = userError instanceof Error ? userError.message : "An unknown error occurred";
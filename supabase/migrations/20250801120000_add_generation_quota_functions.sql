@@ -0,0 +1,81 @@
+-- Quota is reserved before generate-meal-plan calls the LLM and refunded if the run fails.
+-- Pro users (subscription_status = 'active', kept in sync by check-subscription) are not metered.
+
+-- Step 1: Reserve generations atomically. The row lock stops two concurrent requests
+-- from both spending the last trial generation.
+CREATE OR REPLACE FUNCTION public.reserve_generation(user_id_param UUID, amount INTEGER DEFAULT 1)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_row public.profiles%ROWTYPE;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO profile_row FROM public.profiles WHERE user_id = user_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', false, 'metered', true, 'generations_remaining', 0);
+  END IF;
+
+  IF profile_row.subscription_status = 'active' THEN
+    RETURN jsonb_build_object('allowed', true, 'metered', false, 'generations_remaining', NULL);
+  END IF;
+
+  -- A NULL count means the user has never generated; check-subscription shows this as 3.
+  remaining := COALESCE(profile_row.generations_remaining, 3);
+  IF remaining < amount THEN
+    RETURN jsonb_build_object('allowed', false, 'metered', true, 'generations_remaining', remaining);
+  END IF;
+
+  UPDATE public.profiles
+  SET generations_remaining = remaining - amount
+  WHERE user_id = user_id_param;
+
+  RETURN jsonb_build_object('allowed', true, 'metered', true, 'generations_remaining', remaining - amount);
+END;
+$$;
+
+-- Step 2: Give generations back after a failed run
+CREATE OR REPLACE FUNCTION public.refund_generation(user_id_param UUID, amount INTEGER DEFAULT 1)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles
+  SET generations_remaining = COALESCE(generations_remaining, 3) + amount
+  WHERE user_id = user_id_param;
+$$;
+
+-- Step 3: Only the service role (edge functions) may touch the quota
+REVOKE EXECUTE ON FUNCTION public.reserve_generation(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_generation(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_generation(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_generation(UUID, INTEGER) TO service_role;
+
+-- Step 4: Users can still edit their own profile, but not their quota or subscription status
+CREATE OR REPLACE FUNCTION public.protect_profile_billing_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.generations_remaining := NULL;
+      NEW.subscription_status := NULL;
+    ELSE
+      NEW.generations_remaining := OLD.generations_remaining;
+      NEW.subscription_status := OLD.subscription_status;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_billing_columns ON public.profiles;
+CREATE TRIGGER protect_profile_billing_columns
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_billing_columns();
@@ -0,0 +1,181 @@
+-- Saving a plan is a single transaction: recipes, history rows and the quota charge
+-- either all land or none do. reserve_generation now only places a hold on the quota;
+-- save_meal_plan turns the hold into a charge and refund_generation releases it.
+
+-- Step 1: Track generations that are reserved by in-flight runs
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS generations_reserved INTEGER NOT NULL DEFAULT 0;
+
+-- Step 2: Reserve by holding generations instead of spending them
+CREATE OR REPLACE FUNCTION public.reserve_generation(user_id_param UUID, amount INTEGER DEFAULT 1)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_row public.profiles%ROWTYPE;
+  available INTEGER;
+BEGIN
+  SELECT * INTO profile_row FROM public.profiles WHERE user_id = user_id_param FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', false, 'metered', true, 'generations_remaining', 0);
+  END IF;
+
+  IF profile_row.subscription_status = 'active' THEN
+    RETURN jsonb_build_object('allowed', true, 'metered', false, 'generations_remaining', NULL);
+  END IF;
+
+  -- A NULL count means the user has never generated; check-subscription shows this as 3.
+  available := COALESCE(profile_row.generations_remaining, 3) - profile_row.generations_reserved;
+  IF available < amount THEN
+    RETURN jsonb_build_object('allowed', false, 'metered', true, 'generations_remaining', GREATEST(available, 0));
+  END IF;
+
+  UPDATE public.profiles
+  SET generations_reserved = generations_reserved + amount
+  WHERE user_id = user_id_param;
+
+  RETURN jsonb_build_object('allowed', true, 'metered', true, 'generations_remaining', available - amount);
+END;
+$$;
+
+-- Step 3: A failed run releases its hold
+CREATE OR REPLACE FUNCTION public.refund_generation(user_id_param UUID, amount INTEGER DEFAULT 1)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles
+  SET generations_reserved = GREATEST(generations_reserved - amount, 0)
+  WHERE user_id = user_id_param;
+$$;
+
+-- Step 4: Reuse a recipe with the same title or insert a new one
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+BEGIN
+  -- Serialize concurrent saves of the same title so they don't both insert it.
+  PERFORM pg_advisory_xact_lock(hashtext(dish->>'title'));
+
+  SELECT id INTO recipe_id FROM public.recipes WHERE title = dish->>'title' LIMIT 1;
+  IF recipe_id IS NOT NULL THEN
+    RETURN recipe_id;
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, created_by_user)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    user_id_param
+  )
+  RETURNING id INTO recipe_id;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 5: Save a whole plan and return it with real recipe rows
+-- plan: { start_date, end_date, days: [{ meal_date, main_dish, side_dish, total_time_to_cook, cooking_tips }] }
+CREATE OR REPLACE FUNCTION public.save_meal_plan(user_id_param UUID, plan JSONB, generations_to_charge INTEGER DEFAULT 0)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_day JSONB;
+  main_id UUID;
+  side_id UUID;
+  start_date DATE := (plan->>'start_date')::DATE;
+  end_date DATE := (plan->>'end_date')::DATE;
+  saved_days JSONB;
+BEGIN
+  DELETE FROM public.user_meal_history
+  WHERE user_id = user_id_param
+    AND meal_date BETWEEN start_date AND end_date;
+
+  FOR plan_day IN SELECT * FROM jsonb_array_elements(plan->'days') LOOP
+    main_id := public.upsert_plan_recipe(user_id_param, plan_day->'main_dish');
+    side_id := NULL;
+    IF jsonb_typeof(plan_day->'side_dish') = 'object' THEN
+      side_id := public.upsert_plan_recipe(user_id_param, plan_day->'side_dish');
+    END IF;
+
+    INSERT INTO public.user_meal_history (user_id, main_dish_recipe_id, side_dish_recipe_id, meal_date, total_time_to_cook, cooking_tips)
+    VALUES (
+      user_id_param,
+      main_id,
+      side_id,
+      (plan_day->>'meal_date')::DATE,
+      plan_day->>'total_time_to_cook',
+      plan_day->>'cooking_tips'
+    );
+  END LOOP;
+
+  IF generations_to_charge > 0 THEN
+    UPDATE public.profiles
+    SET generations_remaining = COALESCE(generations_remaining, 3) - generations_to_charge,
+        generations_reserved = GREATEST(generations_reserved - generations_to_charge, 0)
+    WHERE user_id = user_id_param;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'day', trim(to_char(h.meal_date, 'Day')),
+      'meal_date', h.meal_date,
+      'total_time_to_cook', h.total_time_to_cook,
+      'cooking_tips', h.cooking_tips,
+      'main_dish', to_jsonb(m) - 'embedding',
+      'side_dish', CASE WHEN s.id IS NULL THEN NULL ELSE to_jsonb(s) - 'embedding' END
+    )
+    ORDER BY h.meal_date
+  )
+  INTO saved_days
+  FROM public.user_meal_history h
+  JOIN public.recipes m ON m.id = h.main_dish_recipe_id
+  LEFT JOIN public.recipes s ON s.id = h.side_dish_recipe_id
+  WHERE h.user_id = user_id_param
+    AND h.meal_date BETWEEN start_date AND end_date;
+
+  RETURN COALESCE(saved_days, '[]'::JSONB);
+END;
+$$;
+
+-- Step 6: Only the service role (edge functions) may save plans
+REVOKE EXECUTE ON FUNCTION public.upsert_plan_recipe(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_meal_plan(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.upsert_plan_recipe(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.save_meal_plan(UUID, JSONB, INTEGER) TO service_role;
+
+-- Step 7: Keep the new hold column out of users' hands too
+CREATE OR REPLACE FUNCTION public.protect_profile_billing_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.generations_remaining := NULL;
+      NEW.generations_reserved := 0;
+      NEW.subscription_status := NULL;
+    ELSE
+      NEW.generations_remaining := OLD.generations_remaining;
+      NEW.generations_reserved := OLD.generations_reserved;
+      NEW.subscription_status := OLD.subscription_status;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Library-first planning: generate-meal-plan embeds every new recipe and fills plan days
+-- from the shared recipe library (weighted by the user's likes and dislikes) before
+-- asking the LLM for the rest.
+
+-- Step 1: Match the index to the cosine distance (<=>) every query uses; the old
+-- vector_l2_ops index could never serve them.
+DROP INDEX IF EXISTS public.recipes_embedding_ivfflat_idx;
+DROP INDEX IF EXISTS public.recipes_embedding_idx;
+
+SET maintenance_work_mem = '128MB';
+CREATE INDEX IF NOT EXISTS recipes_embedding_cosine_idx ON public.recipes USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+RESET maintenance_work_mem;
+
+-- Step 2: Store the embedding sent with a new recipe, and fill it in on an existing
+-- recipe that was saved before embeddings were computed.
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  -- Serialize concurrent saves of the same title so they don't both insert it.
+  PERFORM pg_advisory_xact_lock(hashtext(dish->>'title'));
+
+  SELECT id INTO recipe_id FROM public.recipes WHERE title = dish->>'title' LIMIT 1;
+  IF recipe_id IS NOT NULL THEN
+    IF dish_embedding IS NOT NULL THEN
+      UPDATE public.recipes SET embedding = dish_embedding WHERE id = recipe_id AND embedding IS NULL;
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 3: Rank library recipes for a user. Candidates are the nearest recipes to the
+-- query embedding that have been planned in the requested role ('main' or 'side');
+-- the score adds how close each is to something the user liked and subtracts how
+-- close it is to something they disliked. Disliked recipes themselves never match.
+CREATE OR REPLACE FUNCTION public.match_plan_recipes(
+  user_id_param UUID,
+  query_embedding vector(1536),
+  dish_role TEXT,
+  match_count INT,
+  exclude_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  ingredients TEXT,
+  recipe TEXT,
+  calories INTEGER,
+  total_time_to_cook TEXT,
+  cooking_tips TEXT,
+  score FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH liked AS (
+    SELECT r.embedding
+    FROM public.liked_recipes l
+    JOIN public.recipes r ON r.id = l.recipe_id
+    WHERE l.user_id = user_id_param AND r.embedding IS NOT NULL
+  ),
+  disliked AS (
+    SELECT r.id, r.embedding
+    FROM public.disliked_recipes d
+    JOIN public.recipes r ON r.id = d.recipe_id
+    WHERE d.user_id = user_id_param
+  ),
+  candidates AS (
+    SELECT r.*, 1 - (r.embedding <=> query_embedding) AS similarity
+    FROM public.recipes r
+    WHERE r.embedding IS NOT NULL
+      AND NOT (r.id = ANY (exclude_ids))
+      AND r.id NOT IN (SELECT disliked.id FROM disliked)
+      AND EXISTS (
+        SELECT 1 FROM public.user_meal_history h
+        WHERE (dish_role = 'main' AND h.main_dish_recipe_id = r.id)
+           OR (dish_role = 'side' AND h.side_dish_recipe_id = r.id)
+      )
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 5
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.ingredients,
+    c.recipe,
+    c.calories,
+    (SELECT h.total_time_to_cook FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.total_time_to_cook IS NOT NULL LIMIT 1),
+    (SELECT h.cooking_tips FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.cooking_tips IS NOT NULL LIMIT 1),
+    c.similarity
+      + 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> liked.embedding)) FROM liked), 0)
+      - 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> disliked.embedding)) FROM disliked WHERE disliked.embedding IS NOT NULL), 0)
+      AS score
+  FROM candidates c
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
+
+-- Step 4: Only generate-meal-plan (service role) may rank recipes against a user's feedback
+REVOKE EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]) TO service_role;
@@ -0,0 +1,132 @@
+-- Semantic recipe deduplication: generate-meal-plan now decides whether a new dish is
+-- already in the library (normalized title, ingredient overlap and embedding distance)
+-- and sends its id when it is. upsert_plan_recipe no longer merges on an exact title,
+-- which glued different dishes with the same name together. merge_recipes lets the
+-- dedupe-recipes backfill job fold existing duplicates into one row.
+
+-- Step 1: A dish without an id is always a new recipe
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 2: Fold duplicate recipes into keep_id. History rows and feedback are repointed;
+-- feedback the user already gave keep_id wins over feedback on a duplicate.
+CREATE OR REPLACE FUNCTION public.merge_recipes(keep_id UUID, duplicate_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF keep_id = ANY (duplicate_ids) THEN
+    RAISE EXCEPTION 'Recipe % cannot be merged into itself', keep_id;
+  END IF;
+
+  UPDATE public.user_meal_history SET main_dish_recipe_id = keep_id WHERE main_dish_recipe_id = ANY (duplicate_ids);
+  UPDATE public.user_meal_history SET side_dish_recipe_id = keep_id WHERE side_dish_recipe_id = ANY (duplicate_ids);
+
+  DELETE FROM public.liked_recipes l
+  WHERE l.recipe_id = ANY (duplicate_ids)
+    AND (
+      EXISTS (SELECT 1 FROM public.liked_recipes k WHERE k.user_id = l.user_id AND k.recipe_id = keep_id)
+      OR l.id <> (
+        SELECT d.id FROM public.liked_recipes d
+        WHERE d.user_id = l.user_id AND d.recipe_id = ANY (duplicate_ids)
+        ORDER BY d.created_at, d.id
+        LIMIT 1
+      )
+    );
+  UPDATE public.liked_recipes SET recipe_id = keep_id WHERE recipe_id = ANY (duplicate_ids);
+
+  DELETE FROM public.disliked_recipes l
+  WHERE l.recipe_id = ANY (duplicate_ids)
+    AND (
+      EXISTS (SELECT 1 FROM public.disliked_recipes k WHERE k.user_id = l.user_id AND k.recipe_id = keep_id)
+      OR l.id <> (
+        SELECT d.id FROM public.disliked_recipes d
+        WHERE d.user_id = l.user_id AND d.recipe_id = ANY (duplicate_ids)
+        ORDER BY d.created_at, d.id
+        LIMIT 1
+      )
+    );
+  UPDATE public.disliked_recipes SET recipe_id = keep_id WHERE recipe_id = ANY (duplicate_ids);
+
+  -- Keep an embedding if only a duplicate had one.
+  UPDATE public.recipes
+  SET embedding = (
+    SELECT r.embedding FROM public.recipes r
+    WHERE r.id = ANY (duplicate_ids) AND r.embedding IS NOT NULL
+    LIMIT 1
+  )
+  WHERE id = keep_id AND embedding IS NULL;
+
+  DELETE FROM public.recipes WHERE id = ANY (duplicate_ids);
+END;
+$$;
+
+-- Step 3: Every pair of recipes whose embeddings are at least match_threshold similar,
+-- looking at each recipe's per_recipe nearest neighbours. The backfill job makes the
+-- final call on each pair.
+CREATE OR REPLACE FUNCTION public.recipe_duplicate_candidates(match_threshold FLOAT, per_recipe INT DEFAULT 5)
+RETURNS TABLE (
+  recipe_id UUID,
+  candidate_id UUID,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, n.id, n.similarity
+  FROM public.recipes r
+  CROSS JOIN LATERAL (
+    SELECT o.id, 1 - (o.embedding <=> r.embedding) AS similarity
+    FROM public.recipes o
+    WHERE o.id <> r.id AND o.embedding IS NOT NULL
+    ORDER BY o.embedding <=> r.embedding
+    LIMIT per_recipe
+  ) n
+  WHERE r.embedding IS NOT NULL
+    AND n.similarity >= match_threshold;
+$$;
+
+-- Step 4: Only the service role may merge recipes or scan the library for duplicates
+REVOKE EXECUTE ON FUNCTION public.merge_recipes(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recipe_duplicate_candidates(FLOAT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_recipes(UUID, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recipe_duplicate_candidates(FLOAT, INT) TO service_role;
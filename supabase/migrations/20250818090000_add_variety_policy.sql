@@ -0,0 +1,130 @@
+-- Variety policy: generate-meal-plan skips dishes served in the last few weeks and caps
+-- how often one main protein or cuisine appears in a week. The thresholds are stored per
+-- user and edited in Preferences. Recipes now record their cuisine so the cap can be checked.
+
+-- Step 1: Per-user thresholds (0 weeks turns the lookback off)
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS variety_lookback_weeks INTEGER NOT NULL DEFAULT 2 CHECK (variety_lookback_weeks BETWEEN 0 AND 12),
+ADD COLUMN IF NOT EXISTS max_protein_repeats INTEGER NOT NULL DEFAULT 2 CHECK (max_protein_repeats BETWEEN 1 AND 7),
+ADD COLUMN IF NOT EXISTS max_cuisine_repeats INTEGER NOT NULL DEFAULT 3 CHECK (max_cuisine_repeats BETWEEN 1 AND 7);
+
+-- Step 2: Cuisine on recipes, as reported by the model
+ALTER TABLE public.recipes
+ADD COLUMN IF NOT EXISTS cuisine TEXT;
+
+-- Step 3: Save the cuisine with new recipes
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, cuisine, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    NULLIF(trim(dish->>'cuisine'), ''),
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 4: Return the cuisine with library matches (the return type changes, so drop first)
+DROP FUNCTION IF EXISTS public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.match_plan_recipes(
+  user_id_param UUID,
+  query_embedding vector(1536),
+  dish_role TEXT,
+  match_count INT,
+  exclude_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  ingredients TEXT,
+  recipe TEXT,
+  calories INTEGER,
+  cuisine TEXT,
+  total_time_to_cook TEXT,
+  cooking_tips TEXT,
+  score FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH liked AS (
+    SELECT r.embedding
+    FROM public.liked_recipes l
+    JOIN public.recipes r ON r.id = l.recipe_id
+    WHERE l.user_id = user_id_param AND r.embedding IS NOT NULL
+  ),
+  disliked AS (
+    SELECT r.id, r.embedding
+    FROM public.disliked_recipes d
+    JOIN public.recipes r ON r.id = d.recipe_id
+    WHERE d.user_id = user_id_param
+  ),
+  candidates AS (
+    SELECT r.*, 1 - (r.embedding <=> query_embedding) AS similarity
+    FROM public.recipes r
+    WHERE r.embedding IS NOT NULL
+      AND NOT (r.id = ANY (exclude_ids))
+      AND r.id NOT IN (SELECT disliked.id FROM disliked)
+      AND EXISTS (
+        SELECT 1 FROM public.user_meal_history h
+        WHERE (dish_role = 'main' AND h.main_dish_recipe_id = r.id)
+           OR (dish_role = 'side' AND h.side_dish_recipe_id = r.id)
+      )
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 5
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.ingredients,
+    c.recipe,
+    c.calories,
+    c.cuisine,
+    (SELECT h.total_time_to_cook FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.total_time_to_cook IS NOT NULL LIMIT 1),
+    (SELECT h.cooking_tips FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.cooking_tips IS NOT NULL LIMIT 1),
+    c.similarity
+      + 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> liked.embedding)) FROM liked), 0)
+      - 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> disliked.embedding)) FROM disliked WHERE disliked.embedding IS NOT NULL), 0)
+      AS score
+  FROM candidates c
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]) TO service_role;
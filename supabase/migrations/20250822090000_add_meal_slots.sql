@@ -0,0 +1,170 @@
+-- Meal slots: a plan entry is now a date plus a slot (breakfast, lunch, dinner or snack),
+-- so users who picked more than dinner in their meal types get every meal planned.
+-- Existing entries become dinners. Library matches are limited to recipes that were
+-- planned in the same slot, so a dinner is never offered as a breakfast.
+
+-- Step 1: Slot on planned meals, one entry per user, date and slot
+ALTER TABLE public.user_meal_history
+ADD COLUMN IF NOT EXISTS meal_slot TEXT NOT NULL DEFAULT 'dinner'
+  CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack'));
+
+ALTER TABLE public.user_meal_history
+DROP CONSTRAINT IF EXISTS user_meal_history_user_id_meal_date_key;
+
+ALTER TABLE public.user_meal_history
+ADD CONSTRAINT user_meal_history_user_id_meal_date_meal_slot_key UNIQUE (user_id, meal_date, meal_slot);
+
+-- Step 2: Replace only the (date, slot) pairs present in the payload, and return the
+-- window ordered by date and then by slot
+CREATE OR REPLACE FUNCTION public.save_meal_plan(user_id_param UUID, plan JSONB, generations_to_charge NUMERIC DEFAULT 0)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_day JSONB;
+  main_id UUID;
+  side_id UUID;
+  start_date DATE := (plan->>'start_date')::DATE;
+  end_date DATE := (plan->>'end_date')::DATE;
+  saved_days JSONB;
+BEGIN
+  DELETE FROM public.user_meal_history h
+  WHERE h.user_id = user_id_param
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(plan->'days') AS d
+      WHERE (d->>'meal_date')::DATE = h.meal_date
+        AND COALESCE(d->>'meal_slot', 'dinner') = h.meal_slot
+    );
+
+  FOR plan_day IN SELECT * FROM jsonb_array_elements(plan->'days') LOOP
+    main_id := public.upsert_plan_recipe(user_id_param, plan_day->'main_dish');
+    side_id := NULL;
+    IF jsonb_typeof(plan_day->'side_dish') = 'object' THEN
+      side_id := public.upsert_plan_recipe(user_id_param, plan_day->'side_dish');
+    END IF;
+
+    INSERT INTO public.user_meal_history (user_id, main_dish_recipe_id, side_dish_recipe_id, meal_date, meal_slot, total_time_to_cook, cooking_tips, is_locked)
+    VALUES (
+      user_id_param,
+      main_id,
+      side_id,
+      (plan_day->>'meal_date')::DATE,
+      COALESCE(plan_day->>'meal_slot', 'dinner'),
+      plan_day->>'total_time_to_cook',
+      plan_day->>'cooking_tips',
+      COALESCE((plan_day->>'is_locked')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  IF generations_to_charge > 0 THEN
+    UPDATE public.profiles
+    SET generations_remaining = COALESCE(generations_remaining, 3) - generations_to_charge,
+        generations_reserved = GREATEST(generations_reserved - generations_to_charge, 0)
+    WHERE user_id = user_id_param;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'day', trim(to_char(h.meal_date, 'Day')),
+      'meal_date', h.meal_date,
+      'meal_slot', h.meal_slot,
+      'is_locked', h.is_locked,
+      'total_time_to_cook', h.total_time_to_cook,
+      'cooking_tips', h.cooking_tips,
+      'main_dish', to_jsonb(m) - 'embedding',
+      'side_dish', CASE WHEN s.id IS NULL THEN NULL ELSE to_jsonb(s) - 'embedding' END
+    )
+    ORDER BY h.meal_date, array_position(ARRAY['breakfast', 'lunch', 'dinner', 'snack'], h.meal_slot)
+  )
+  INTO saved_days
+  FROM public.user_meal_history h
+  JOIN public.recipes m ON m.id = h.main_dish_recipe_id
+  LEFT JOIN public.recipes s ON s.id = h.side_dish_recipe_id
+  WHERE h.user_id = user_id_param
+    AND h.meal_date BETWEEN start_date AND end_date;
+
+  RETURN COALESCE(saved_days, '[]'::JSONB);
+END;
+$$;
+
+-- Step 3: Only match recipes planned in the requested slot (the signature changes, so drop first)
+DROP FUNCTION IF EXISTS public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.match_plan_recipes(
+  user_id_param UUID,
+  query_embedding vector(1536),
+  dish_role TEXT,
+  match_count INT,
+  exclude_ids UUID[] DEFAULT '{}',
+  meal_slot_param TEXT DEFAULT 'dinner'
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  ingredients TEXT,
+  recipe TEXT,
+  calories INTEGER,
+  cuisine TEXT,
+  total_time_to_cook TEXT,
+  cooking_tips TEXT,
+  score FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH liked AS (
+    SELECT r.embedding
+    FROM public.liked_recipes l
+    JOIN public.recipes r ON r.id = l.recipe_id
+    WHERE l.user_id = user_id_param AND r.embedding IS NOT NULL
+  ),
+  disliked AS (
+    SELECT r.id, r.embedding
+    FROM public.disliked_recipes d
+    JOIN public.recipes r ON r.id = d.recipe_id
+    WHERE d.user_id = user_id_param
+  ),
+  candidates AS (
+    SELECT r.*, 1 - (r.embedding <=> query_embedding) AS similarity
+    FROM public.recipes r
+    WHERE r.embedding IS NOT NULL
+      AND NOT (r.id = ANY (exclude_ids))
+      AND r.id NOT IN (SELECT disliked.id FROM disliked)
+      AND EXISTS (
+        SELECT 1 FROM public.user_meal_history h
+        WHERE h.meal_slot = meal_slot_param
+          AND ((dish_role = 'main' AND h.main_dish_recipe_id = r.id)
+            OR (dish_role = 'side' AND h.side_dish_recipe_id = r.id))
+      )
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 5
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.ingredients,
+    c.recipe,
+    c.calories,
+    c.cuisine,
+    (SELECT h.total_time_to_cook FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.total_time_to_cook IS NOT NULL LIMIT 1),
+    (SELECT h.cooking_tips FROM public.user_meal_history h
+     WHERE h.main_dish_recipe_id = c.id AND h.cooking_tips IS NOT NULL LIMIT 1),
+    c.similarity
+      + 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> liked.embedding)) FROM liked), 0)
+      - 0.5 * COALESCE((SELECT MAX(1 - (c.embedding <=> disliked.embedding)) FROM disliked WHERE disliked.embedding IS NOT NULL), 0)
+      AS score
+  FROM candidates c
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
+
+-- Step 4: Re-apply grants for the recreated function
+REVOKE EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_plan_recipes(UUID, vector, TEXT, INT, UUID[], TEXT) TO service_role;
@@ -0,0 +1,21 @@
+-- Plan window: plans no longer always cover the 7 UTC days from "today". They start
+-- on a chosen date (by default the user's plan_generation_day) and run for 3 to 14
+-- days, with dates taken in the user's time zone. The plan sender now runs hourly
+-- so each user's plan goes out in the morning of their generation day, local time.
+
+-- Step 1: Time zone and default plan length per user
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS plan_length_days INTEGER NOT NULL DEFAULT 7 CHECK (plan_length_days BETWEEN 3 AND 14);
+
+-- Step 2: Run the sender every hour; it picks the users whose local morning it is
+select cron.unschedule('daily-plan-sender');
+
+select
+  cron.schedule(
+    'hourly-plan-sender',
+    '0 * * * *',
+    $$
+      select public.invoke_send_weekly_plan();
+    $$
+  );
@@ -0,0 +1,285 @@
+-- Structured recipe ingredients: one recipe_ingredients row per ingredient line with
+-- its quantity, unit, canonical ingredient name, preparation note and optional flag,
+-- plus the original text for display. generate-meal-plan parses new recipes with
+-- parseIngredientList (_shared/recipe-ingredients.ts) and sends the rows with the
+-- dish. Existing recipes, and dishes saved without rows, are parsed here in SQL with
+-- a simpler version of the same rules. recipes.ingredients is kept as the plain text.
+
+-- Step 1: The table, readable by everyone like recipes; rows are written by upsert_plan_recipe
+CREATE TABLE IF NOT EXISTS public.recipe_ingredients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  quantity NUMERIC,
+  unit TEXT,
+  ingredient TEXT NOT NULL,
+  preparation TEXT,
+  is_optional BOOLEAN NOT NULL DEFAULT false,
+  original_text TEXT NOT NULL,
+  UNIQUE (recipe_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS recipe_ingredients_ingredient_idx ON public.recipe_ingredients (ingredient);
+
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can view recipe ingredients" ON public.recipe_ingredients FOR SELECT USING (true);
+
+-- Step 2: Parse a recipe's ingredient text into rows: a leading quantity ("2", "1/2",
+-- "1 1/2", "0.5"), a known unit, and notes in parentheses or after the first comma.
+-- Lines it can't split keep the whole line, lowercased, as the ingredient.
+CREATE OR REPLACE FUNCTION public.parse_recipe_ingredients(recipe_id_param UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH units(alias, unit) AS (
+    VALUES
+      ('tsp', 'tsp'), ('teaspoon', 'tsp'), ('teaspoons', 'tsp'),
+      ('tbsp', 'tbsp'), ('tbs', 'tbsp'), ('tablespoon', 'tbsp'), ('tablespoons', 'tbsp'),
+      ('cup', 'cup'), ('cups', 'cup'), ('oz', 'oz'), ('ounce', 'oz'), ('ounces', 'oz'),
+      ('lb', 'lb'), ('lbs', 'lb'), ('pound', 'lb'), ('pounds', 'lb'),
+      ('g', 'g'), ('gr', 'g'), ('gram', 'g'), ('grams', 'g'), ('kg', 'kg'), ('kilogram', 'kg'), ('kilograms', 'kg'),
+      ('ml', 'ml'), ('milliliter', 'ml'), ('milliliters', 'ml'), ('millilitre', 'ml'), ('millilitres', 'ml'),
+      ('l', 'l'), ('liter', 'l'), ('liters', 'l'), ('litre', 'l'), ('litres', 'l'),
+      ('pint', 'pint'), ('pints', 'pint'), ('quart', 'quart'), ('quarts', 'quart'), ('gallon', 'gallon'), ('gallons', 'gallon'),
+      ('pinch', 'pinch'), ('pinches', 'pinch'), ('dash', 'dash'), ('dashes', 'dash'),
+      ('clove', 'clove'), ('cloves', 'clove'), ('can', 'can'), ('cans', 'can'), ('jar', 'jar'), ('jars', 'jar'),
+      ('slice', 'slice'), ('slices', 'slice'), ('stalk', 'stalk'), ('stalks', 'stalk'), ('head', 'head'), ('heads', 'head'),
+      ('bunch', 'bunch'), ('bunches', 'bunch'), ('sprig', 'sprig'), ('sprigs', 'sprig'), ('package', 'package'), ('packages', 'package')
+  ),
+  lines AS (
+    SELECT
+      (row_number() OVER (ORDER BY l.ordinality) - 1)::INTEGER AS position,
+      trim(regexp_replace(l.line, '^\s*[-*•]\s*', '')) AS original_text
+    FROM public.recipes r
+    CROSS JOIN LATERAL regexp_split_to_table(r.ingredients, E'\n') WITH ORDINALITY AS l(line, ordinality)
+    WHERE r.id = recipe_id_param
+      AND trim(regexp_replace(l.line, '^\s*[-*•]\s*', '')) <> ''
+  ),
+  amounts AS (
+    SELECT
+      lines.*,
+      substring(original_text FROM '^(\d+\s+\d+/\d+|\d+/\d+|\d+(?:\.\d+)?)(?:\s|\(|[A-Za-z]|$)') AS amount
+    FROM lines
+  ),
+  parts AS (
+    SELECT
+      amounts.*,
+      CASE
+        WHEN amount IS NULL THEN NULL
+        WHEN amount LIKE '%/%' THEN
+          COALESCE(substring(amount FROM '^(\d+)\s')::NUMERIC, 0)
+          + substring(amount FROM '(\d+)/')::NUMERIC / NULLIF(substring(amount FROM '/(\d+)$')::NUMERIC, 0)
+        ELSE amount::NUMERIC
+      END AS quantity,
+      original_text ~* '\moptional\M' AS is_optional,
+      -- Everything after the amount, without "optional" and parenthetical notes
+      trim(regexp_replace(
+        regexp_replace(substring(original_text FROM COALESCE(length(amount), 0) + 1), '\(\s*optional\s*\)|,?\s*\moptional\M:?', ' ', 'gi'),
+        '\([^)]*\)', ' ', 'g'
+      )) AS rest,
+      (SELECT string_agg(trim(m[1]), ', ') FROM regexp_matches(original_text, '\(([^)]*)\)', 'g') AS m
+       WHERE trim(m[1]) <> '' AND trim(m[1]) !~* '^optional$') AS parenthetical
+    FROM amounts
+  ),
+  unit_split AS (
+    SELECT
+      parts.*,
+      u.unit,
+      regexp_replace(CASE WHEN u.unit IS NULL THEN rest ELSE trim(substring(rest FROM length(split_part(rest, ' ', 1)) + 1)) END, '^of\s+', '', 'i') AS name_and_notes
+    FROM parts
+    LEFT JOIN units u ON u.alias = lower(regexp_replace(split_part(rest, ' ', 1), '\.$', ''))
+  ),
+  named AS (
+    SELECT
+      unit_split.*,
+      split_part(name_and_notes, ',', 1) AS name,
+      CASE WHEN position(',' IN name_and_notes) > 0
+        THEN NULLIF(trim(substring(name_and_notes FROM position(',' IN name_and_notes) + 1)), '')
+      END AS comma_note
+    FROM unit_split
+  )
+  INSERT INTO public.recipe_ingredients (recipe_id, position, quantity, unit, ingredient, preparation, is_optional, original_text)
+  SELECT
+    recipe_id_param,
+    position,
+    quantity,
+    unit,
+    COALESCE(
+      NULLIF(trim(regexp_replace(
+        regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+          regexp_replace(lower(regexp_replace(name, '\mto taste\M', ' ', 'gi')), '\m(extra-large|large|medium|small)\M', ' ', 'g'),
+          '[^a-z\s-]', ' ', 'g'),
+          '(\w{2,})ies\M', '\1y', 'g'),
+          '(\w{2,})oes\M', '\1o', 'g'),
+          '(\w{2,}[^su])s\M', '\1', 'g'),
+        '\s+', ' ', 'g')), ''),
+      lower(original_text)
+    ),
+    NULLIF(concat_ws(', ',
+      comma_note,
+      parenthetical,
+      CASE WHEN name ~* '\mto taste\M' THEN 'to taste' END
+    ), ''),
+    is_optional,
+    original_text
+  FROM named
+  ON CONFLICT (recipe_id, position) DO NOTHING;
+$$;
+
+-- Step 3: Backfill every existing recipe
+SELECT public.parse_recipe_ingredients(r.id)
+FROM public.recipes r
+WHERE NOT EXISTS (SELECT 1 FROM public.recipe_ingredients ri WHERE ri.recipe_id = r.id);
+
+-- Step 4: Save the rows with new recipes; callers that don't send them get the SQL parse
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, cuisine, servings, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    NULLIF(trim(dish->>'cuisine'), ''),
+    COALESCE((dish->>'servings')::INTEGER, 4),
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  IF jsonb_typeof(dish->'recipe_ingredients') = 'array' THEN
+    INSERT INTO public.recipe_ingredients (recipe_id, position, quantity, unit, ingredient, preparation, is_optional, original_text)
+    SELECT recipe_id, i.position, i.quantity, i.unit, i.ingredient, i.preparation, COALESCE(i.is_optional, false), i.original_text
+    FROM jsonb_to_recordset(dish->'recipe_ingredients')
+      AS i(position INTEGER, quantity NUMERIC, unit TEXT, ingredient TEXT, preparation TEXT, is_optional BOOLEAN, original_text TEXT);
+  ELSE
+    PERFORM public.parse_recipe_ingredients(recipe_id);
+  END IF;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 5: A recipe as the app reads it: the recipes row without its embedding, plus its
+-- ingredient rows in list order
+CREATE OR REPLACE FUNCTION public.recipe_json(recipe_id_param UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (to_jsonb(r) - 'embedding') || jsonb_build_object(
+    'recipe_ingredients',
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(ri) - 'recipe_id' ORDER BY ri.position)
+      FROM public.recipe_ingredients ri
+      WHERE ri.recipe_id = r.id
+    ), '[]'::JSONB)
+  )
+  FROM public.recipes r
+  WHERE r.id = recipe_id_param;
+$$;
+
+-- Step 6: Return the ingredient rows with the saved plan
+CREATE OR REPLACE FUNCTION public.save_meal_plan(user_id_param UUID, plan JSONB, generations_to_charge NUMERIC DEFAULT 0)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_day JSONB;
+  main_id UUID;
+  side_id UUID;
+  start_date DATE := (plan->>'start_date')::DATE;
+  end_date DATE := (plan->>'end_date')::DATE;
+  saved_days JSONB;
+BEGIN
+  DELETE FROM public.user_meal_history h
+  WHERE h.user_id = user_id_param
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(plan->'days') AS d
+      WHERE (d->>'meal_date')::DATE = h.meal_date
+        AND COALESCE(d->>'meal_slot', 'dinner') = h.meal_slot
+    );
+
+  FOR plan_day IN SELECT * FROM jsonb_array_elements(plan->'days') LOOP
+    main_id := public.upsert_plan_recipe(user_id_param, plan_day->'main_dish');
+    side_id := NULL;
+    IF jsonb_typeof(plan_day->'side_dish') = 'object' THEN
+      side_id := public.upsert_plan_recipe(user_id_param, plan_day->'side_dish');
+    END IF;
+
+    INSERT INTO public.user_meal_history (user_id, main_dish_recipe_id, side_dish_recipe_id, meal_date, meal_slot, total_time_to_cook, cooking_tips, is_locked)
+    VALUES (
+      user_id_param,
+      main_id,
+      side_id,
+      (plan_day->>'meal_date')::DATE,
+      COALESCE(plan_day->>'meal_slot', 'dinner'),
+      plan_day->>'total_time_to_cook',
+      plan_day->>'cooking_tips',
+      COALESCE((plan_day->>'is_locked')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  IF generations_to_charge > 0 THEN
+    UPDATE public.profiles
+    SET generations_remaining = COALESCE(generations_remaining, 3) - generations_to_charge,
+        generations_reserved = GREATEST(generations_reserved - generations_to_charge, 0)
+    WHERE user_id = user_id_param;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'day', trim(to_char(h.meal_date, 'Day')),
+      'meal_date', h.meal_date,
+      'meal_slot', h.meal_slot,
+      'is_locked', h.is_locked,
+      'total_time_to_cook', h.total_time_to_cook,
+      'cooking_tips', h.cooking_tips,
+      'main_dish', public.recipe_json(m.id),
+      'side_dish', CASE WHEN s.id IS NULL THEN NULL ELSE public.recipe_json(s.id) END
+    )
+    ORDER BY h.meal_date, array_position(ARRAY['breakfast', 'lunch', 'dinner', 'snack'], h.meal_slot)
+  )
+  INTO saved_days
+  FROM public.user_meal_history h
+  JOIN public.recipes m ON m.id = h.main_dish_recipe_id
+  LEFT JOIN public.recipes s ON s.id = h.side_dish_recipe_id
+  WHERE h.user_id = user_id_param
+    AND h.meal_date BETWEEN start_date AND end_date;
+
+  RETURN COALESCE(saved_days, '[]'::JSONB);
+END;
+$$;
+
+-- Step 7: The parser and recipe_json are only called from other database functions
+REVOKE EXECUTE ON FUNCTION public.parse_recipe_ingredients(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.parse_recipe_ingredients(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.recipe_json(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recipe_json(UUID) TO service_role;
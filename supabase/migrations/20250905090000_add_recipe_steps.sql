@@ -0,0 +1,105 @@
+-- Structured recipe steps: one recipe_steps row per step with an optional timer, an
+-- oven or pan temperature and the positions of the recipe_ingredients rows it uses.
+-- generate-meal-plan asks the model for steps in this shape and keeps recipes.recipe
+-- as the numbered text. Existing recipes are filled in by the backfill-recipe-steps
+-- job, which parses their text with the same code the app falls back to.
+
+-- Step 1: The table, readable by everyone like recipes; rows are written by upsert_plan_recipe
+CREATE TABLE IF NOT EXISTS public.recipe_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  instruction TEXT NOT NULL,
+  duration_minutes INTEGER CHECK (duration_minutes > 0),
+  temperature INTEGER,
+  temperature_unit TEXT CHECK (temperature_unit IN ('F', 'C')),
+  ingredient_positions INTEGER[] NOT NULL DEFAULT '{}',
+  UNIQUE (recipe_id, position)
+);
+
+ALTER TABLE public.recipe_steps ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can view recipe steps" ON public.recipe_steps FOR SELECT USING (true);
+
+-- Step 2: Save the steps with new recipes
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, description, ingredients, recipe, calories, cuisine, servings, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    NULLIF(trim(dish->>'cuisine'), ''),
+    COALESCE((dish->>'servings')::INTEGER, 4),
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  IF jsonb_typeof(dish->'recipe_ingredients') = 'array' THEN
+    INSERT INTO public.recipe_ingredients (recipe_id, position, quantity, unit, ingredient, preparation, is_optional, original_text)
+    SELECT recipe_id, i.position, i.quantity, i.unit, i.ingredient, i.preparation, COALESCE(i.is_optional, false), i.original_text
+    FROM jsonb_to_recordset(dish->'recipe_ingredients')
+      AS i(position INTEGER, quantity NUMERIC, unit TEXT, ingredient TEXT, preparation TEXT, is_optional BOOLEAN, original_text TEXT);
+  ELSE
+    PERFORM public.parse_recipe_ingredients(recipe_id);
+  END IF;
+
+  IF jsonb_typeof(dish->'recipe_steps') = 'array' THEN
+    INSERT INTO public.recipe_steps (recipe_id, position, instruction, duration_minutes, temperature, temperature_unit, ingredient_positions)
+    SELECT recipe_id, s.position, s.instruction, s.duration_minutes, s.temperature, s.temperature_unit, COALESCE(s.ingredient_positions, '{}')
+    FROM jsonb_to_recordset(dish->'recipe_steps')
+      AS s(position INTEGER, instruction TEXT, duration_minutes INTEGER, temperature INTEGER, temperature_unit TEXT, ingredient_positions INTEGER[]);
+  END IF;
+
+  RETURN recipe_id;
+END;
+$$;
+
+-- Step 3: Return the steps with every recipe the app reads through recipe_json (save_meal_plan)
+CREATE OR REPLACE FUNCTION public.recipe_json(recipe_id_param UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (to_jsonb(r) - 'embedding') || jsonb_build_object(
+    'recipe_ingredients',
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(ri) - 'recipe_id' ORDER BY ri.position)
+      FROM public.recipe_ingredients ri
+      WHERE ri.recipe_id = r.id
+    ), '[]'::JSONB),
+    'recipe_steps',
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(rs) - 'recipe_id' ORDER BY rs.position)
+      FROM public.recipe_steps rs
+      WHERE rs.recipe_id = r.id
+    ), '[]'::JSONB)
+  )
+  FROM public.recipes r
+  WHERE r.id = recipe_id_param;
+$$;
+
@@ -0,0 +1,8 @@
+-- Measurement system: shopping list amounts are totalled across units and shown in
+-- the user's preferred system, cups and ounces or grams and millilitres. Existing
+-- users keep the imperial amounts they have been seeing.
+
+-- Step 1: Preferred measurement system per user
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS measurement_system TEXT NOT NULL DEFAULT 'imperial'
+  CHECK (measurement_system IN ('imperial', 'metric'));
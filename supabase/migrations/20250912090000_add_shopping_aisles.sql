@@ -0,0 +1,23 @@
+-- Shopping aisles: the shopping list is grouped by grocery aisle. Ingredients are
+-- placed by keyword in the app; a user can move an ingredient to another aisle,
+-- which is remembered for every later list, and put the aisles in the order they
+-- walk their store.
+
+-- Step 1: Aisle a user chose for an ingredient, keyed on the normalized name
+CREATE TABLE IF NOT EXISTS public.ingredient_aisles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ingredient TEXT NOT NULL,
+  aisle TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, ingredient)
+);
+
+ALTER TABLE public.ingredient_aisles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own ingredient aisles" ON public.ingredient_aisles FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Step 2: The order the user walks the aisles in; empty means the app's default order
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS aisle_order TEXT[] NOT NULL DEFAULT '{}';
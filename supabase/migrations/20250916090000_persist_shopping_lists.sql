@@ -0,0 +1,53 @@
+-- Shopping lists: one engine (supabase/functions/_shared/shopping-list.ts) builds
+-- every list, in the app, in generate-meal-plan, for the PDF and for the weekly
+-- email. Each plan window gets one saved list, together with the pantry and the
+-- settings it was computed against, so the printed and emailed lists match the
+-- app and can be reproduced.
+
+-- Step 1: Make sure the table exists (it predates the migrations folder)
+CREATE TABLE IF NOT EXISTS public.shopping_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  week_start_date DATE NOT NULL,
+  shopping_list JSONB,
+  budget TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Step 2: The plan window a list covers and what it was computed against
+ALTER TABLE public.shopping_lists
+ADD COLUMN IF NOT EXISTS week_end_date DATE,
+ADD COLUMN IF NOT EXISTS pantry_snapshot JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS servings INTEGER CHECK (servings >= 1),
+ADD COLUMN IF NOT EXISTS measurement_system TEXT CHECK (measurement_system IN ('imperial', 'metric')),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.shopping_lists
+SET week_end_date = week_start_date + 6
+WHERE week_end_date IS NULL;
+
+ALTER TABLE public.shopping_lists
+ALTER COLUMN week_end_date SET NOT NULL;
+
+-- Step 3: One list per plan window; keep the newest where there were several
+DELETE FROM public.shopping_lists s
+USING public.shopping_lists newer
+WHERE s.user_id = newer.user_id
+  AND s.week_start_date = newer.week_start_date
+  AND (s.created_at, s.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.shopping_lists
+DROP CONSTRAINT IF EXISTS shopping_lists_user_week_key;
+
+ALTER TABLE public.shopping_lists
+ADD CONSTRAINT shopping_lists_user_week_key UNIQUE (user_id, week_start_date);
+
+CREATE INDEX IF NOT EXISTS shopping_lists_user_window_idx
+  ON public.shopping_lists (user_id, week_start_date, week_end_date);
+
+-- Step 4: Users read and save their own lists; the edge functions use the service role
+ALTER TABLE public.shopping_lists ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can manage their own shopping lists" ON public.shopping_lists;
+CREATE POLICY "Users can manage their own shopping lists" ON public.shopping_lists FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,97 @@
+-- Interactive shopping lists: every line of a saved list becomes a row that can be
+-- checked off, edited or removed, and users can add their own lines (paper towels).
+-- Rows are kept in step with the engine's list by a trigger on shopping_lists and
+-- are published over Realtime so everyone shopping from the list sees each tick.
+
+-- Step 1: One row per ingredient of the list, plus the user's own lines
+CREATE TABLE IF NOT EXISTS public.shopping_list_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shopping_list_id UUID NOT NULL REFERENCES public.shopping_lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The normalized ingredient for lines from the plan; null for lines the user added.
+  ingredient TEXT,
+  text TEXT NOT NULL CHECK (length(trim(text)) > 0),
+  category TEXT NOT NULL DEFAULT 'Other',
+  is_checked BOOLEAN NOT NULL DEFAULT false,
+  -- The user rewrote the line; later plan or pantry changes leave its text alone.
+  is_edited BOOLEAN NOT NULL DEFAULT false,
+  -- The user deleted a line from the plan; it stays hidden rather than coming back.
+  is_removed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS shopping_list_items_ingredient_key
+  ON public.shopping_list_items (shopping_list_id, ingredient)
+  WHERE ingredient IS NOT NULL;
+
+ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own shopping list items" ON public.shopping_list_items FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shopping_list_items;
+
+-- Step 2: The saved list as one line per ingredient ("2 cloves + 1 head garlic").
+-- Older lists hold plain strings, which are their own ingredient.
+CREATE OR REPLACE FUNCTION public.shopping_list_lines(list JSONB)
+RETURNS TABLE (ingredient TEXT, category TEXT, text TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    line.ingredient,
+    min(section->>'category'),
+    string_agg(line.text, ' + ' ORDER BY items.position)
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(list) = 'array' THEN list ELSE '[]'::JSONB END) AS section,
+       jsonb_array_elements(CASE WHEN jsonb_typeof(section->'items') = 'array' THEN section->'items' ELSE '[]'::JSONB END)
+         WITH ORDINALITY AS items(item, position),
+       LATERAL (
+         SELECT
+           CASE jsonb_typeof(items.item) WHEN 'string' THEN items.item #>> '{}' ELSE items.item->>'ingredient' END AS ingredient,
+           CASE jsonb_typeof(items.item) WHEN 'string' THEN items.item #>> '{}' ELSE items.item->>'text' END AS text
+       ) AS line
+  WHERE line.ingredient IS NOT NULL AND line.text IS NOT NULL
+  GROUP BY line.ingredient;
+$$;
+
+-- Step 3: Keep the rows in step whenever a list is saved. New ingredients are
+-- added, changed amounts and aisles are updated (unless the user rewrote the
+-- line) and ingredients no longer needed are dropped. Ticks and the user's own
+-- lines are kept.
+CREATE OR REPLACE FUNCTION public.sync_shopping_list_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.shopping_list_items i
+  WHERE i.shopping_list_id = NEW.id
+    AND i.ingredient IS NOT NULL
+    AND i.ingredient NOT IN (SELECT l.ingredient FROM public.shopping_list_lines(NEW.shopping_list) l);
+
+  INSERT INTO public.shopping_list_items (shopping_list_id, user_id, ingredient, text, category)
+  SELECT NEW.id, NEW.user_id, l.ingredient, l.text, l.category
+  FROM public.shopping_list_lines(NEW.shopping_list) l
+  ON CONFLICT (shopping_list_id, ingredient) WHERE ingredient IS NOT NULL
+  DO UPDATE SET
+    text = CASE WHEN shopping_list_items.is_edited THEN shopping_list_items.text ELSE EXCLUDED.text END,
+    category = EXCLUDED.category,
+    updated_at = now()
+  WHERE (NOT shopping_list_items.is_edited AND shopping_list_items.text IS DISTINCT FROM EXCLUDED.text)
+     OR shopping_list_items.category IS DISTINCT FROM EXCLUDED.category;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_shopping_list_items() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS sync_shopping_list_items ON public.shopping_lists;
+CREATE TRIGGER sync_shopping_list_items
+AFTER INSERT OR UPDATE OF shopping_list ON public.shopping_lists
+FOR EACH ROW EXECUTE FUNCTION public.sync_shopping_list_items();
+
+-- Step 4: Create the rows for lists saved before this migration
+UPDATE public.shopping_lists SET shopping_list = shopping_list;
@@ -0,0 +1,9 @@
+-- Cooked meals: marking a planned meal as cooked takes its ingredients out of the
+-- pantry. The meal remembers when it was cooked and exactly which pantry rows it
+-- changed, so the deduction can be shown and undone.
+
+-- Step 1: When a meal was cooked and what it took from the pantry
+ALTER TABLE public.user_meal_history
+ADD COLUMN IF NOT EXISTS cooked_at TIMESTAMP WITH TIME ZONE,
+-- [{ id, ingredient_name, expiry_date, before, after }] per pantry row, after null when it was used up.
+ADD COLUMN IF NOT EXISTS pantry_changes JSONB;
@@ -0,0 +1,109 @@
+-- Structured pantry items: the free-text quantity ("500 g", "1/2 cup", "2") becomes a
+-- numeric amount and a canonical unit, each item gets the canonical ingredient name
+-- the shopping list and cooking match on, and a storage location (fridge, freezer,
+-- pantry or spice rack). Existing rows are parsed here in SQL with the same simpler
+-- rules parse_recipe_ingredients uses; the app parses new entries with
+-- parseIngredientLine (_shared/recipe-ingredients.ts).
+
+-- Step 1: The new columns
+ALTER TABLE public.pantry_items
+ADD COLUMN IF NOT EXISTS ingredient TEXT,
+-- Null when the user only noted that they have some.
+ADD COLUMN IF NOT EXISTS amount NUMERIC CHECK (amount > 0),
+ADD COLUMN IF NOT EXISTS unit TEXT,
+-- Null until the user files it; the app shows it where food from its aisle is usually kept.
+ADD COLUMN IF NOT EXISTS location TEXT CHECK (location IN ('fridge', 'freezer', 'pantry', 'spice_rack'));
+
+-- Step 2: Parse a quantity: a leading amount ("2", "1/2", "1 1/2", "0.5") and a known unit
+CREATE OR REPLACE FUNCTION public.parse_pantry_quantity(quantity TEXT)
+RETURNS TABLE (amount NUMERIC, unit TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH units(alias, unit) AS (
+    VALUES
+      ('tsp', 'tsp'), ('teaspoon', 'tsp'), ('teaspoons', 'tsp'),
+      ('tbsp', 'tbsp'), ('tbs', 'tbsp'), ('tablespoon', 'tbsp'), ('tablespoons', 'tbsp'),
+      ('cup', 'cup'), ('cups', 'cup'), ('oz', 'oz'), ('ounce', 'oz'), ('ounces', 'oz'),
+      ('lb', 'lb'), ('lbs', 'lb'), ('pound', 'lb'), ('pounds', 'lb'),
+      ('g', 'g'), ('gr', 'g'), ('gram', 'g'), ('grams', 'g'), ('kg', 'kg'), ('kilogram', 'kg'), ('kilograms', 'kg'),
+      ('ml', 'ml'), ('milliliter', 'ml'), ('milliliters', 'ml'), ('millilitre', 'ml'), ('millilitres', 'ml'),
+      ('l', 'l'), ('liter', 'l'), ('liters', 'l'), ('litre', 'l'), ('litres', 'l'),
+      ('pint', 'pint'), ('pints', 'pint'), ('quart', 'quart'), ('quarts', 'quart'), ('gallon', 'gallon'), ('gallons', 'gallon'),
+      ('pinch', 'pinch'), ('pinches', 'pinch'), ('dash', 'dash'), ('dashes', 'dash'),
+      ('clove', 'clove'), ('cloves', 'clove'), ('can', 'can'), ('cans', 'can'), ('jar', 'jar'), ('jars', 'jar'),
+      ('slice', 'slice'), ('slices', 'slice'), ('stalk', 'stalk'), ('stalks', 'stalk'), ('head', 'head'), ('heads', 'head'),
+      ('bunch', 'bunch'), ('bunches', 'bunch'), ('sprig', 'sprig'), ('sprigs', 'sprig'), ('package', 'package'), ('packages', 'package')
+  ),
+  split AS (
+    SELECT
+      substring(trim(quantity) FROM '^(\d+\s+\d+/\d+|\d+/\d+|\d+(?:\.\d+)?)(?:\s|[A-Za-z]|$)') AS number,
+      trim(quantity) AS text
+  ),
+  parsed AS (
+    SELECT
+      CASE
+        WHEN number IS NULL THEN NULL
+        WHEN number LIKE '%/%' THEN
+          COALESCE(substring(number FROM '^(\d+)\s')::NUMERIC, 0)
+          + substring(number FROM '(\d+)/')::NUMERIC / NULLIF(substring(number FROM '/(\d+)$')::NUMERIC, 0)
+        ELSE number::NUMERIC
+      END AS amount,
+      lower(regexp_replace(split_part(trim(substring(text FROM COALESCE(length(number), 0) + 1)), ' ', 1), '\.$', '')) AS unit_word
+    FROM split
+  )
+  SELECT NULLIF(parsed.amount, 0), units.unit
+  FROM parsed
+  LEFT JOIN units ON units.alias = parsed.unit_word;
+$$;
+
+-- Step 3: The canonical name of a pantry item, lowercased and singular like recipe_ingredients.ingredient
+CREATE OR REPLACE FUNCTION public.pantry_ingredient_name(name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    NULLIF(trim(regexp_replace(
+      regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+        regexp_replace(lower(name), '\m(extra-large|large|medium|small)\M', ' ', 'g'),
+        '[^a-z\s-]', ' ', 'g'),
+        '(\w{2,})ies\M', '\1y', 'g'),
+        '(\w{2,})oes\M', '\1o', 'g'),
+        '(\w{2,}[^su])s\M', '\1', 'g'),
+      '\s+', ' ', 'g')), ''),
+    lower(trim(name))
+  );
+$$;
+
+-- Step 4: Backfill existing items. A missing quantity was shown as "1", so it stays 1.
+UPDATE public.pantry_items
+SET
+  ingredient = public.pantry_ingredient_name(ingredient_name),
+  (amount, unit) = (SELECT q.amount, q.unit FROM public.parse_pantry_quantity(COALESCE(NULLIF(trim(quantity), ''), '1')) q)
+WHERE ingredient IS NULL;
+
+ALTER TABLE public.pantry_items
+ALTER COLUMN ingredient SET NOT NULL;
+
+-- Step 5: Meals cooked before this migration recorded their pantry changes as text
+UPDATE public.user_meal_history h
+SET pantry_changes = (
+  SELECT jsonb_agg(
+    (change - 'before' - 'after') || jsonb_build_object(
+      'ingredient', public.pantry_ingredient_name(change->>'ingredient_name'),
+      'location', NULL,
+      'before', (SELECT to_jsonb(q) FROM public.parse_pantry_quantity(change->>'before') q),
+      'after', CASE WHEN change->>'after' IS NULL THEN NULL
+        ELSE (SELECT to_jsonb(q) FROM public.parse_pantry_quantity(change->>'after') q) END
+    )
+  )
+  FROM jsonb_array_elements(h.pantry_changes) AS change
+)
+WHERE jsonb_typeof(h.pantry_changes) = 'array'
+  AND jsonb_array_length(h.pantry_changes) > 0
+  AND jsonb_typeof(h.pantry_changes->0->'before') = 'string';
+
+-- Step 6: The text column is replaced by amount and unit
+ALTER TABLE public.pantry_items
+DROP COLUMN IF EXISTS quantity;
@@ -0,0 +1,12 @@
+-- Expiry alerts: send-weekly-plan also emails a morning digest of pantry items
+-- that expire in the next few days, with recipes that use them. Users can turn
+-- the digest off; everyone starts with it on.
+
+-- Step 1: Whether the user gets the daily expiry digest
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS expiry_alerts BOOLEAN NOT NULL DEFAULT true;
+
+-- Step 2: The digest reads each user's pantry by expiry date
+CREATE INDEX IF NOT EXISTS pantry_items_user_expiry_idx
+  ON public.pantry_items (user_id, expiry_date)
+  WHERE expiry_date IS NOT NULL;
@@ -0,0 +1,69 @@
+-- Normalized recipe titles: generate-meal-plan looks for library copies of a new dish
+-- by its normalized title (normalizeRecipeTitle in _shared/recipe-dedup.ts), so
+-- "Garlic-Lemon Chicken" finds "Lemon Garlic Chicken" even when neither has an
+-- embedding. New recipes are saved with the title generate-meal-plan sends; the
+-- dedupe-recipes job fills it in for recipes saved before this column existed.
+
+-- Step 1: The normalized title, looked up on every save
+ALTER TABLE public.recipes
+ADD COLUMN IF NOT EXISTS normalized_title TEXT;
+
+CREATE INDEX IF NOT EXISTS recipes_normalized_title_idx ON public.recipes (normalized_title);
+
+-- Step 2: Save the normalized title with new recipes
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, normalized_title, description, ingredients, recipe, calories, cuisine, servings, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    NULLIF(trim(dish->>'normalized_title'), ''),
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    (dish->>'calories')::INTEGER,
+    NULLIF(trim(dish->>'cuisine'), ''),
+    COALESCE((dish->>'servings')::INTEGER, 4),
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  IF jsonb_typeof(dish->'recipe_ingredients') = 'array' THEN
+    INSERT INTO public.recipe_ingredients (recipe_id, position, quantity, unit, ingredient, preparation, is_optional, original_text)
+    SELECT recipe_id, i.position, i.quantity, i.unit, i.ingredient, i.preparation, COALESCE(i.is_optional, false), i.original_text
+    FROM jsonb_to_recordset(dish->'recipe_ingredients')
+      AS i(position INTEGER, quantity NUMERIC, unit TEXT, ingredient TEXT, preparation TEXT, is_optional BOOLEAN, original_text TEXT);
+  ELSE
+    PERFORM public.parse_recipe_ingredients(recipe_id);
+  END IF;
+
+  IF jsonb_typeof(dish->'recipe_steps') = 'array' THEN
+    INSERT INTO public.recipe_steps (recipe_id, position, instruction, duration_minutes, temperature, temperature_unit, ingredient_positions)
+    SELECT recipe_id, s.position, s.instruction, s.duration_minutes, s.temperature, s.temperature_unit, COALESCE(s.ingredient_positions, '{}')
+    FROM jsonb_to_recordset(dish->'recipe_steps')
+      AS s(position INTEGER, instruction TEXT, duration_minutes INTEGER, temperature INTEGER, temperature_unit TEXT, ingredient_positions INTEGER[]);
+  END IF;
+
+  RETURN recipe_id;
+END;
+$$;
@@ -0,0 +1,62 @@
+-- Round calories when saving plan recipes: a decimal such as 450.5 from the model
+-- failed the INTEGER cast in upsert_plan_recipe and aborted the whole
+-- save_meal_plan transaction. generate-meal-plan now asks for whole calories;
+-- this keeps any that still slip through from losing the plan.
+
+-- Step 1: Round calories to the nearest whole number
+CREATE OR REPLACE FUNCTION public.upsert_plan_recipe(user_id_param UUID, dish JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_id UUID;
+  dish_embedding vector(1536);
+BEGIN
+  IF dish ? 'id' THEN
+    SELECT id INTO recipe_id FROM public.recipes WHERE id = (dish->>'id')::UUID;
+    IF recipe_id IS NULL THEN
+      RAISE EXCEPTION 'Recipe % does not exist', dish->>'id';
+    END IF;
+    RETURN recipe_id;
+  END IF;
+
+  IF jsonb_typeof(dish->'embedding') = 'array' THEN
+    dish_embedding := (dish->>'embedding')::vector(1536);
+  END IF;
+
+  INSERT INTO public.recipes (title, normalized_title, description, ingredients, recipe, calories, cuisine, servings, created_by_user, embedding)
+  VALUES (
+    dish->>'title',
+    NULLIF(trim(dish->>'normalized_title'), ''),
+    dish->>'description',
+    dish->>'ingredients',
+    dish->>'recipe',
+    round((dish->>'calories')::NUMERIC)::INTEGER,
+    NULLIF(trim(dish->>'cuisine'), ''),
+    COALESCE((dish->>'servings')::INTEGER, 4),
+    user_id_param,
+    dish_embedding
+  )
+  RETURNING id INTO recipe_id;
+
+  IF jsonb_typeof(dish->'recipe_ingredients') = 'array' THEN
+    INSERT INTO public.recipe_ingredients (recipe_id, position, quantity, unit, ingredient, preparation, is_optional, original_text)
+    SELECT recipe_id, i.position, i.quantity, i.unit, i.ingredient, i.preparation, COALESCE(i.is_optional, false), i.original_text
+    FROM jsonb_to_recordset(dish->'recipe_ingredients')
+      AS i(position INTEGER, quantity NUMERIC, unit TEXT, ingredient TEXT, preparation TEXT, is_optional BOOLEAN, original_text TEXT);
+  ELSE
+    PERFORM public.parse_recipe_ingredients(recipe_id);
+  END IF;
+
+  IF jsonb_typeof(dish->'recipe_steps') = 'array' THEN
+    INSERT INTO public.recipe_steps (recipe_id, position, instruction, duration_minutes, temperature, temperature_unit, ingredient_positions)
+    SELECT recipe_id, s.position, s.instruction, s.duration_minutes, s.temperature, s.temperature_unit, COALESCE(s.ingredient_positions, '{}')
+    FROM jsonb_to_recordset(dish->'recipe_steps')
+      AS s(position INTEGER, instruction TEXT, duration_minutes INTEGER, temperature INTEGER, temperature_unit TEXT, ingredient_positions INTEGER[]);
+  END IF;
+
+  RETURN recipe_id;
+END;
+$$;
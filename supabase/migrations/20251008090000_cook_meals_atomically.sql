@@ -0,0 +1,95 @@
+-- Marking a meal as cooked, and undoing it, is a single transaction: the meal's
+-- cooked_at and pantry_changes and the pantry rows it changed either all change or
+-- none do. The app still works out the changes (cookedPantryChanges and
+-- undoPantryChanges in _shared/pantry.ts); these functions only apply them, for the
+-- signed-in user's own rows.
+
+-- Step 1: Mark a meal as cooked and take what it used out of the pantry
+CREATE OR REPLACE FUNCTION public.mark_meal_cooked(meal_date_param DATE, meal_slot_param TEXT, changes JSONB)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  cooked TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- A meal that is already cooked is left alone, so a retry never takes the pantry twice.
+  UPDATE public.user_meal_history
+  SET cooked_at = now(), pantry_changes = changes
+  WHERE user_id = current_user_id
+    AND meal_date = meal_date_param
+    AND meal_slot = meal_slot_param
+    AND cooked_at IS NULL
+  RETURNING cooked_at INTO cooked;
+
+  IF cooked IS NULL THEN
+    RAISE EXCEPTION 'Meal on % (%) is not on the plan or is already cooked', meal_date_param, meal_slot_param;
+  END IF;
+
+  -- A null "after" means the meal used the row up.
+  DELETE FROM public.pantry_items p
+  USING jsonb_array_elements(changes) c
+  WHERE p.id = (c->>'id')::UUID
+    AND p.user_id = current_user_id
+    AND jsonb_typeof(c->'after') IS DISTINCT FROM 'object';
+
+  UPDATE public.pantry_items p
+  SET amount = (c->'after'->>'amount')::NUMERIC,
+      unit = c->'after'->>'unit'
+  FROM jsonb_array_elements(changes) c
+  WHERE p.id = (c->>'id')::UUID
+    AND p.user_id = current_user_id
+    AND jsonb_typeof(c->'after') = 'object';
+
+  RETURN cooked;
+END;
+$$;
+
+-- Step 2: Undo it, putting back the pantry rows the app worked out
+CREATE OR REPLACE FUNCTION public.undo_meal_cooked(meal_date_param DATE, meal_slot_param TEXT, restored JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only a cooked meal can be undone, so a retry never puts the pantry back twice.
+  UPDATE public.user_meal_history
+  SET cooked_at = NULL, pantry_changes = NULL
+  WHERE user_id = current_user_id
+    AND meal_date = meal_date_param
+    AND meal_slot = meal_slot_param
+    AND cooked_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meal on % (%) is not marked as cooked', meal_date_param, meal_slot_param;
+  END IF;
+
+  -- Rows the meal used up come back with their old id; the rest get their old amount.
+  INSERT INTO public.pantry_items (id, user_id, ingredient_name, ingredient, amount, unit, location, expiry_date)
+  SELECT r.id, current_user_id, r.ingredient_name, r.ingredient, r.amount, r.unit, r.location, r.expiry_date
+  FROM jsonb_to_recordset(restored)
+    AS r(id UUID, ingredient_name TEXT, ingredient TEXT, amount NUMERIC, unit TEXT, location TEXT, expiry_date DATE)
+  ON CONFLICT (id) DO UPDATE
+  SET amount = EXCLUDED.amount, unit = EXCLUDED.unit
+  WHERE pantry_items.user_id = current_user_id;
+END;
+$$;
+
+-- Step 3: Signed-in users cook their own meals
+REVOKE EXECUTE ON FUNCTION public.mark_meal_cooked(DATE, TEXT, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.undo_meal_cooked(DATE, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_meal_cooked(DATE, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.undo_meal_cooked(DATE, TEXT, JSONB) TO authenticated;